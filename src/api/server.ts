@@ -1,10 +1,20 @@
 import Fastify, { FastifyInstance, FastifyReply } from 'fastify';
 import { performance } from 'node:perf_hooks';
 import { randomUUID } from 'node:crypto';
-import { IndexManager } from '../indexer';
+import { ContextPackOrder, IndexManager } from '../indexer';
 import { RepositorySpec } from '../ingest';
-import { IndexOptions, PullRequestIdentifier, PullRequestIndexOptions, IndexResult } from '../indexer/types';
+import {
+  CallGraphDirection,
+  CallGraphResult,
+  IndexOptions,
+  PullRequestIdentifier,
+  PullRequestIndexOptions,
+  IndexResult,
+  SemanticSearchMode,
+} from '../indexer/types';
+import { parsePaging, parseSearchQuery, SearchQuery } from '../indexer/query';
 import { exportIndexToJsonl } from '../exporters/jsonl';
+import type { PromptFormat } from '../exporters/prompt';
 import { buildSqliteBuffer } from '../exporters/sqlite';
 import { IndexNotifier, NotifierOptions } from './notifier';
 import { once } from 'node:events';
@@ -50,7 +60,7 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
 
   const ensureIndex = async (ref?: string): Promise<void> => {
     const targetRef = ref ?? indexOptions?.ref;
-    if (indexManager.getIndex(spec, targetRef)) {
+    if (await indexManager.loadIndex(spec, targetRef)) {
       return;
     }
     if (!indexOptions) {
@@ -208,12 +218,33 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
   });
 
   app.post('/mcp/context-pack', async (request) => {
-    const body = request.body as { ref?: string; paths?: string[]; limit?: number; maxTokens?: number };
+    const body = request.body as {
+      ref?: string;
+      query?: string;
+      targets?: string[];
+      symbols?: string[];
+      paths?: string[];
+      limit?: number;
+      maxTokens?: number;
+      tokenizer?: string;
+      contextHeaders?: boolean;
+      format?: PromptFormat;
+      order?: ContextPackOrder;
+      volatileCommits?: number;
+    };
     const pack = await indexManager.buildContextPack(spec, {
       ref: body.ref,
+      query: body.query,
+      targets: body.targets,
+      symbols: body.symbols,
       paths: body.paths,
       limit: body.limit,
       maxTokens: body.maxTokens,
+      tokenizer: body.tokenizer,
+      contextHeaders: body.contextHeaders === true,
+      format: body.format,
+      order: body.order,
+      volatileCommits: body.volatileCommits,
       indexOptions,
     });
     return pack;
@@ -311,6 +342,8 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
         durationMs,
         incremental: Boolean(optionsForRun.incremental),
         repositoryType: spec.type,
+        chunkCacheHits: result.cacheStats?.hits,
+        chunkCacheMisses: result.cacheStats?.misses,
       };
       recordIndexMetrics(metrics);
       app.applyBootstrap(result);
@@ -499,7 +532,7 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
   });
 
   app.get('/file', async (request, reply) => {
-    const query = request.query as { path?: string; ref?: string };
+    const query = request.query as { path?: string; ref?: string; view?: string };
     if (!query.path) {
       throw new Error('Missing path parameter');
     }
@@ -508,12 +541,22 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
     } catch (error) {
       return handleMissingIndex(reply, error);
     }
+    if (query.view === 'skeleton') {
+      return { file: await indexManager.getFileSkeleton(spec, query.path, query.ref) };
+    }
     const file = indexManager.getFile(spec, query.path, query.ref);
     return { file };
   });
 
   app.get('/chunks', async (request, reply) => {
-    const query = request.query as { path?: string; lang?: string; maxTokens?: string; stream?: string; ref?: string };
+    const query = request.query as {
+      path?: string;
+      lang?: string;
+      maxTokens?: string;
+      tokenizer?: string;
+      stream?: string;
+      ref?: string;
+    };
     try {
       await ensureIndex(query.ref);
     } catch (error) {
@@ -524,6 +567,7 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
       path: query.path,
       lang: query.lang,
       maxTokens: query.maxTokens ? Number(query.maxTokens) : undefined,
+      tokenizer: query.tokenizer,
     });
 
     if (query.stream === 'true') {
@@ -543,31 +587,80 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
 
   app.get('/chunks/:id', async (request, reply) => {
     const params = request.params as { id: string };
-    const query = request.query as { ref?: string };
+    const query = request.query as { ref?: string; contextHeaders?: string };
     try {
       await ensureIndex(query.ref);
     } catch (error) {
       return handleMissingIndex(reply, error);
     }
-    const chunk = indexManager.getChunk(spec, params.id, query.ref);
+    const chunk = indexManager.getChunk(spec, params.id, query.ref, { contextHeaders: query.contextHeaders === 'true' });
     return { chunk };
   });
 
   app.get('/search', async (request, reply) => {
-    const query = request.query as { q: string; pathGlob?: string; ref?: string };
+    const query = request.query as { q: string; pathGlob?: string; ref?: string; offset?: string; limit?: string };
     if (!query.q) {
       throw new Error('Missing q parameter');
     }
+    let parsed: SearchQuery;
+    let paging: { offset?: number; limit?: number };
+    try {
+      parsed = parseSearchQuery(query.q);
+      paging = parsePaging(query);
+    } catch (error) {
+      reply.status(400);
+      return { error: (error as Error).message };
+    }
     try {
       await ensureIndex(query.ref);
     } catch (error) {
       return handleMissingIndex(reply, error);
     }
-    const matches = indexManager.searchText(spec, query.q, {
+    return indexManager.searchText(spec, parsed, {
       ref: query.ref,
       pathGlob: query.pathGlob,
+      ...paging,
+    });
+  });
+
+  app.get('/search/semantic', async (request, reply) => {
+    const query = request.query as {
+      q: string;
+      mode?: string;
+      minSimilarity?: string;
+      pathGlob?: string;
+      ref?: string;
+      offset?: string;
+      limit?: string;
+    };
+    if (!query.q) {
+      throw new Error('Missing q parameter');
+    }
+    let parsed: SearchQuery;
+    let paging: { offset?: number; limit?: number };
+    try {
+      parsed = parseSearchQuery(query.q);
+      paging = parsePaging(query);
+    } catch (error) {
+      reply.status(400);
+      return { error: (error as Error).message };
+    }
+    if (query.mode && query.mode !== 'semantic' && query.mode !== 'hybrid') {
+      reply.status(400);
+      return { error: `Unsupported search mode: ${query.mode}` };
+    }
+    try {
+      await ensureIndex(query.ref);
+    } catch (error) {
+      return handleMissingIndex(reply, error);
+    }
+    return indexManager.searchSemantic(spec, parsed, {
+      ref: query.ref,
+      mode: query.mode as SemanticSearchMode | undefined,
+      minSimilarity: query.minSimilarity ? Number(query.minSimilarity) : undefined,
+      pathGlob: query.pathGlob,
+      ...paging,
     });
-    return { matches };
   });
 
   app.get('/search/symbols', async (request, reply) => {
@@ -581,14 +674,66 @@ export function createServer(indexManager: IndexManager, options: ServerOptions)
     return { matches };
   });
 
+  app.get('/symbols/:name/references', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const query = request.query as { ref?: string; offset?: string; limit?: string };
+    let paging: { offset?: number; limit?: number };
+    try {
+      paging = parsePaging(query);
+    } catch (error) {
+      reply.status(400);
+      return { error: (error as Error).message };
+    }
+    try {
+      await ensureIndex(query.ref);
+    } catch (error) {
+      return handleMissingIndex(reply, error);
+    }
+    const result = indexManager.findReferences(spec, name, {
+      ref: query.ref,
+      ...paging,
+    });
+    if (result.definitions.length === 0) {
+      reply.status(404);
+      return { error: `Symbol ${name} is not defined in the index` };
+    }
+    return result;
+  });
+
+  app.get('/symbols/:name/calls', async (request, reply) => {
+    const { name } = request.params as { name: string };
+    const query = request.query as { ref?: string; direction?: string; depth?: string };
+    try {
+      await ensureIndex(query.ref);
+    } catch (error) {
+      return handleMissingIndex(reply, error);
+    }
+    let graph: CallGraphResult;
+    try {
+      graph = indexManager.getCallGraph(spec, name, {
+        ref: query.ref,
+        direction: query.direction as CallGraphDirection | undefined,
+        depth: query.depth ? Number(query.depth) : undefined,
+      });
+    } catch (error) {
+      reply.status(400);
+      return { error: (error as Error).message };
+    }
+    if (graph.nodes[0].definitions.length === 0) {
+      reply.status(404);
+      return { error: `Symbol ${name} is not defined in the index` };
+    }
+    return graph;
+  });
+
   app.get('/export/jsonl', async (request, reply) => {
-    const query = request.query as { ref?: string };
+    const query = request.query as { ref?: string; contextHeaders?: string };
     const index = indexManager.getIndex(spec, query.ref);
     if (!index) {
       throw new Error('Index not found');
     }
     reply.header('Content-Type', 'application/x-ndjson');
-    await exportIndexToJsonl(index, reply.raw);
+    await exportIndexToJsonl(index, reply.raw, { contextHeaders: query.contextHeaders === 'true' });
     reply.raw.end();
     return reply;
   });
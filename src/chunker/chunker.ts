@@ -1,5 +1,10 @@
 import { createHash } from 'node:crypto';
-import { AdaptiveChunkingOptions, Chunk, ChunkingInput, ChunkingOptions, ChunkMetadata, Tokenizer } from './types';
+import { AdaptiveChunkingOptions, Chunk, ChunkingCell, ChunkingInput, ChunkingOptions, ChunkMetadata, Tokenizer } from './types';
+import { contentDefinedCuts, hashUnit, resolveContentDefinedSizing } from './contentDefined';
+import { ContextHeaderSource, renderContextHeader } from './contextHeader';
+import { extractMarkdownBlocks, extractMarkdownSections, isMarkdownInput, scanMarkdownLines } from './markdown';
+import { extractStructuredDocuments, StructuredNode, toJsonPointer } from './structured';
+import { extractSyntaxBlocks, resolveSyntaxGrammar, SyntaxBlock, syntaxParserRegistry } from './syntax';
 
 interface DraftChunk {
   text: string;
@@ -7,6 +12,11 @@ interface DraftChunk {
   endLine: number;
   tokenCount: number;
   charCount: number;
+  section?: string;
+  header?: string;
+  cell?: ChunkingCell;
+  keyPath?: string;
+  documentIndex?: number;
 }
 
 interface LineInfo {
@@ -17,12 +27,63 @@ interface LineInfo {
 const DEFAULT_LINES_PER_CHUNK = 200;
 const DEFAULT_TOKENS_PER_CHUNK = 400;
 const DEFAULT_SLIDING_WINDOW_STEP = 100;
+const DEFAULT_LINE_HASH_WINDOW = 2;
+const DEFAULT_TOKEN_HASH_WINDOW = 8;
+/** Strategies that chunk JSON/YAML/TOML files by key instead of by their usual rules. */
+const STRUCTURE_AWARE_STRATEGIES = new Set<string>(['lines', 'by-section', 'syntax', 'hybrid']);
 
 export class Chunker {
+  /**
+   * Loads whatever the strategy needs asynchronously (syntax grammars) so that
+   * generate can stay synchronous. Without it, `syntax` falls back to `lines`
+   * and `hybrid` splits the whole file at statement boundaries.
+   */
+  async prepare(input: ChunkingInput, options: ChunkingOptions): Promise<void> {
+    if (options.strategy !== 'syntax' && options.strategy !== 'hybrid') {
+      return;
+    }
+    const grammar = resolveSyntaxGrammar(input.language, input.path);
+    if (grammar) {
+      await syntaxParserRegistry.load(grammar);
+    }
+  }
+
   generate(input: ChunkingInput, options: ChunkingOptions): Chunk[] {
     const lines = this.splitLines(input.text);
     const drafts = this.buildDrafts(input, options, lines);
-    return this.finalizeDrafts(drafts, input, options);
+    return this.finalizeDrafts(
+      options.contextHeaders ? this.fitContextHeaders(drafts, options, lines, input) : drafts,
+      input,
+      options,
+    );
+  }
+
+  /** Splits chunks further where their context header would push them over the token limit. */
+  private fitContextHeaders(
+    drafts: DraftChunk[],
+    options: ChunkingOptions,
+    lines: LineInfo[],
+    input: ChunkingInput,
+  ): DraftChunk[] {
+    const limit = options.maxTokens ?? options.contextBudgetTokens;
+    if (!limit) {
+      return drafts;
+    }
+    const tokenizer = options.tokenizer;
+    return drafts.flatMap((draft) => {
+      const headerTokens = tokenizer.count(renderContextHeader(draftHeaderSource(draft, input), input.language));
+      if (draft.tokenCount + headerTokens <= limit) {
+        return [draft];
+      }
+      return this.splitLargeChunks(
+        [draft],
+        { maxChunkSizeTokens: Math.max(1, limit - headerTokens) },
+        lines,
+        tokenizer,
+        input,
+        options,
+      );
+    });
   }
 
   private buildDrafts(
@@ -31,7 +92,20 @@ export class Chunker {
     lines: LineInfo[],
   ): DraftChunk[] {
     const normalizedOptions = this.normalizeOptions(options);
-    const initial = this.runStrategy(input, normalizedOptions, lines);
+    const documents =
+      !input.cells && STRUCTURE_AWARE_STRATEGIES.has(normalizedOptions.strategy)
+        ? extractStructuredDocuments(input)
+        : undefined;
+    if (documents) {
+      // Key chunks are already sized to the budget, so only an explicit token limit applies.
+      const drafts = documents.flatMap((document) =>
+        this.chunkByStructure(document.root, lines, normalizedOptions, documents.length > 1 ? document.index : undefined),
+      );
+      return this.enforceBudget(drafts, normalizedOptions, lines, normalizedOptions.tokenizer, input);
+    }
+    const initial = input.cells
+      ? this.chunkByCells(input.cells, lines, normalizedOptions.tokenizer)
+      : this.runStrategy(input, normalizedOptions, lines);
     return this.applyAdaptive(initial, normalizedOptions, lines, input, normalizedOptions.tokenizer);
   }
 
@@ -48,12 +122,113 @@ export class Chunker {
       case 'sliding-window':
         return this.chunkBySlidingWindow(input, options, lines);
       case 'by-section':
-        return this.chunkBySections(lines, options, input);
+        return isMarkdownInput(input)
+          ? this.chunkByMarkdown(lines, options)
+          : this.chunkBySections(lines, options, input);
+      case 'syntax':
+        return this.chunkBySyntax(lines, options, input);
+      case 'hybrid':
+        return this.chunkByHybrid(lines, options, input);
       default:
         throw new Error(`Unsupported chunking strategy: ${String(options.strategy)}`);
     }
   }
 
+  /**
+   * Chunks a parsed JSON/YAML/TOML value: the whole node when it fits
+   * `targetChunkSizeTokens`, otherwise runs of adjacent children merged up to
+   * the budget, recursing into children that are still too large. Opening and
+   * closing lines stay with the first and last child. Each chunk records the
+   * JSON pointer of the node it covers (the parent's for merged runs).
+   */
+  private chunkByStructure(
+    node: StructuredNode,
+    lines: LineInfo[],
+    options: ChunkingOptions,
+    documentIndex: number | undefined,
+  ): DraftChunk[] {
+    const tokenizer = options.tokenizer;
+    const budget = Math.min(options.targetChunkSizeTokens ?? DEFAULT_TOKENS_PER_CHUNK, options.maxTokens ?? Infinity);
+    const fits = (startLine: number, endLine: number) =>
+      tokenizer.count(joinLines(lines, startLine, endLine)) <= budget;
+    const build = (startLine: number, endLine: number, path: Array<string | number>): DraftChunk => {
+      const text = joinLines(lines, startLine, endLine);
+      return {
+        text,
+        startLine,
+        endLine,
+        tokenCount: tokenizer.count(text),
+        charCount: text.length,
+        keyPath: toJsonPointer(path),
+        documentIndex,
+      };
+    };
+
+    if (fits(node.startLine, node.endLine)) {
+      return [build(node.startLine, node.endLine, node.path)];
+    }
+    if (node.children.length === 0) {
+      // A single scalar over the budget is cut between lines.
+      const pieces: DraftChunk[] = [];
+      let start = node.startLine;
+      for (let line = node.startLine + 1; line <= node.endLine; line += 1) {
+        if (!fits(start, line)) {
+          pieces.push(build(start, line - 1, node.path));
+          start = line;
+        }
+      }
+      pieces.push(build(start, node.endLine, node.path));
+      return pieces;
+    }
+
+    const children = node.children.map((child, index) => ({
+      ...child,
+      startLine: index === 0 ? node.startLine : child.startLine,
+      endLine: index === node.children.length - 1 ? node.endLine : child.endLine,
+    }));
+    const results: DraftChunk[] = [];
+    let run: StructuredNode[] = [];
+    const flush = () => {
+      if (run.length > 0) {
+        const path = run.length === 1 ? run[0].path : node.path;
+        results.push(build(run[0].startLine, run[run.length - 1].endLine, path));
+        run = [];
+      }
+    };
+    for (const child of children) {
+      if (run.length > 0 && fits(run[0].startLine, child.endLine)) {
+        run.push(child);
+        continue;
+      }
+      flush();
+      if (fits(child.startLine, child.endLine)) {
+        run.push(child);
+      } else {
+        results.push(...this.chunkByStructure(child, lines, options, documentIndex));
+      }
+    }
+    flush();
+    return results;
+  }
+
+  /** One chunk per notebook cell; oversized cells are split by the adaptive limits and budget. */
+  private chunkByCells(cells: ChunkingCell[], lines: LineInfo[], tokenizer: Tokenizer): DraftChunk[] {
+    return cells
+      .filter((cell) => cell.startLine <= lines.length)
+      .map((cell) => {
+        const endLine = Math.min(cell.endLine, lines.length);
+        const text = joinLines(lines, cell.startLine, endLine);
+        return {
+          text,
+          startLine: cell.startLine,
+          endLine,
+          tokenCount: tokenizer.count(text),
+          charCount: text.length,
+          cell,
+        };
+      });
+  }
+
   private chunkByLines(
     lines: LineInfo[],
     options: ChunkingOptions,
@@ -65,6 +240,16 @@ export class Chunker {
       options.maxLines ??
       options.adaptive?.maxChunkSizeLines ??
       DEFAULT_LINES_PER_CHUNK;
+    if (options.boundaries === 'content-defined') {
+      const sizing = resolveContentDefinedSizing(
+        options.contentDefined,
+        targetLines,
+        options.maxLines,
+        DEFAULT_LINE_HASH_WINDOW,
+      );
+      const cuts = contentDefinedCuts(lines.map((line) => hashUnit(line.text)), sizing);
+      return this.chunkByLineCuts(lines, cuts, tokenizer);
+    }
     const overlap = Math.max(0, options.overlap ?? 0);
     const step = Math.max(1, targetLines - overlap);
     const results: DraftChunk[] = [];
@@ -96,6 +281,26 @@ export class Chunker {
 
     const encoded = tokenizer.encode?.(input.text);
     const tokenCount = encoded?.count ?? tokenizer.count(input.text);
+    if (options.boundaries === 'content-defined') {
+      const sizing = resolveContentDefinedSizing(
+        options.contentDefined,
+        targetTokens,
+        options.maxTokens,
+        DEFAULT_TOKEN_HASH_WINDOW,
+      );
+      if (!encoded || !encoded.offsets) {
+        // Without offsets, cut between lines and size chunks by their token counts.
+        const lines = this.splitLines(input.text);
+        const cuts = contentDefinedCuts(
+          lines.map((line) => hashUnit(line.text)),
+          { ...sizing, window: options.contentDefined?.window ?? DEFAULT_LINE_HASH_WINDOW },
+          lines.map((line) => tokenizer.count(line.text)),
+        );
+        return this.chunkByLineCuts(lines, cuts, tokenizer);
+      }
+      const cuts = contentDefinedCuts(this.hashTokens(input.text, encoded.offsets), sizing);
+      return this.chunkByTokenRanges(input, encoded.offsets, this.cutRanges(cuts));
+    }
     if (!encoded || !encoded.offsets) {
       return this.chunkByCharsApproximation(input, tokenCount, targetTokens, overlap, tokenizer);
     }
@@ -138,6 +343,28 @@ export class Chunker {
     if (!encoded || !encoded.offsets) {
       return this.chunkBySlidingWindowApprox(input, tokenCount, windowTokens, stepTokens);
     }
+    if (options.boundaries === 'content-defined') {
+      // Windows span whole content-defined segments of about `stepTokens`, advancing one segment at a time.
+      const sizing = resolveContentDefinedSizing(
+        options.contentDefined,
+        stepTokens,
+        windowTokens,
+        DEFAULT_TOKEN_HASH_WINDOW,
+      );
+      const segments = this.cutRanges(contentDefinedCuts(this.hashTokens(input.text, encoded.offsets), sizing));
+      const windows: Array<[number, number]> = [];
+      for (let first = 0; first < segments.length; first += 1) {
+        let last = first;
+        while (last + 1 < segments.length && segments[last + 1][1] - segments[first][0] <= windowTokens) {
+          last += 1;
+        }
+        windows.push([segments[first][0], segments[last][1]]);
+        if (last === segments.length - 1) {
+          break;
+        }
+      }
+      return this.chunkByTokenRanges(input, encoded.offsets, windows);
+    }
 
     const results: DraftChunk[] = [];
     for (let start = 0; start < tokenCount; start += stepTokens) {
@@ -163,15 +390,59 @@ export class Chunker {
     return results;
   }
 
+  /** Hashes token text rather than ids, which some tokenizers only number by position. */
+  private hashTokens(text: string, offsets: Array<{ start: number; end: number }>): number[] {
+    return offsets.map((offset) => hashUnit(text.slice(offset.start, offset.end)));
+  }
+
+  /** Turns exclusive cut indices into `[start, end)` ranges. */
+  private cutRanges(cuts: number[]): Array<[number, number]> {
+    return cuts.map((end, index) => [index === 0 ? 0 : cuts[index - 1], end]);
+  }
+
+  private chunkByLineCuts(lines: LineInfo[], cuts: number[], tokenizer: Tokenizer): DraftChunk[] {
+    return this.cutRanges(cuts).map(([start, end]) => {
+      const text = lines
+        .slice(start, end)
+        .map((line) => line.text)
+        .join('\n');
+      return {
+        text,
+        startLine: lines[start].lineNumber,
+        endLine: lines[end - 1].lineNumber,
+        tokenCount: tokenizer.count(text),
+        charCount: text.length,
+      };
+    });
+  }
+
+  private chunkByTokenRanges(
+    input: ChunkingInput,
+    offsets: Array<{ start: number; end: number }>,
+    ranges: Array<[number, number]>,
+  ): DraftChunk[] {
+    return ranges.map(([start, end]) => {
+      const startOffset = offsets[start]?.start ?? 0;
+      const endOffset = offsets[end - 1]?.end ?? input.text.length;
+      const text = input.text.slice(startOffset, endOffset);
+      const { startLine, endLine } = this.computeLineRange(input.text, startOffset, endOffset);
+      return {
+        text,
+        startLine,
+        endLine,
+        tokenCount: end - start,
+        charCount: text.length,
+      };
+    });
+  }
+
   private chunkBySections(
     lines: LineInfo[],
     options: ChunkingOptions,
     input: ChunkingInput,
   ): DraftChunk[] {
     const tokenizer = options.tokenizer;
-    const patterns =
-      options.sectionHeuristics?.headingPatterns ??
-      defaultSectionPatterns(input.language ?? 'plaintext');
+    const patterns = options.sectionHeuristics?.headingPatterns ?? defaultSectionPatterns();
 
     const results: DraftChunk[] = [];
     let startIndex = 0;
@@ -192,6 +463,322 @@ export class Chunker {
     return results;
   }
 
+  /**
+   * One chunk per heading section, labelled with its breadcrumb. Sections over
+   * `maxLines`/`maxTokens` (falling back to `targetLines`/`targetChunkSizeTokens`)
+   * are split between blocks; code fences, tables and front matter are never
+   * split, even when they alone exceed the limits.
+   */
+  private chunkByMarkdown(lines: LineInfo[], options: ChunkingOptions): DraftChunk[] {
+    const tokenizer = options.tokenizer;
+    const maxLines = options.maxLines ?? options.targetLines ?? DEFAULT_LINES_PER_CHUNK;
+    const maxTokens = options.maxTokens ?? options.targetChunkSizeTokens ?? Infinity;
+    const texts = lines.map((line) => line.text);
+    const fits = (startLine: number, endLine: number) =>
+      endLine - startLine + 1 <= maxLines && tokenizer.count(joinLines(lines, startLine, endLine)) <= maxTokens;
+
+    const results: DraftChunk[] = [];
+    const push = (startLine: number, endLine: number, section: string | undefined) => {
+      const text = joinLines(lines, startLine, endLine);
+      results.push({
+        text,
+        startLine,
+        endLine,
+        tokenCount: tokenizer.count(text),
+        charCount: text.length,
+        section,
+      });
+    };
+
+    const scanned = scanMarkdownLines(texts);
+    for (const markdownSection of extractMarkdownSections(texts, options.markdown?.maxHeadingDepth, scanned)) {
+      const section = markdownSection.breadcrumb.length > 0 ? markdownSection.breadcrumb.join(' > ') : undefined;
+      if (fits(markdownSection.startLine, markdownSection.endLine)) {
+        push(markdownSection.startLine, markdownSection.endLine, section);
+        continue;
+      }
+      const blocks = extractMarkdownBlocks(texts, markdownSection.startLine, markdownSection.endLine, scanned);
+      if (options.boundaries === 'content-defined') {
+        // Blocks too large to keep (other than fences and tables) are grouped line by line.
+        const units = blocks.flatMap((block) =>
+          block.atomic || fits(block.startLine, block.endLine)
+            ? [block]
+            : Array.from({ length: block.endLine - block.startLine + 1 }, (_, offset) => ({
+                startLine: block.startLine + offset,
+                endLine: block.startLine + offset,
+              })),
+        );
+        const limit = { tokens: maxTokens, lines: maxLines };
+        const groups = this.groupRangesByContent(units, lines, options, limit, (start, end) =>
+          fits(units[start].startLine, units[end - 1].endLine),
+        );
+        for (const [start, end] of groups) {
+          push(units[start].startLine, units[end - 1].endLine, section);
+        }
+        continue;
+      }
+      let pending: { startLine: number; endLine: number } | undefined;
+      for (const block of blocks) {
+        if (pending && fits(pending.startLine, block.endLine)) {
+          pending.endLine = block.endLine;
+          continue;
+        }
+        if (pending) {
+          push(pending.startLine, pending.endLine, section);
+          pending = undefined;
+        }
+        if (block.atomic || fits(block.startLine, block.endLine)) {
+          pending = { startLine: block.startLine, endLine: block.endLine };
+          continue;
+        }
+        // A paragraph or list without blank lines that is still too large is cut between lines.
+        let start = block.startLine;
+        for (let line = block.startLine + 1; line <= block.endLine; line += 1) {
+          if (!fits(start, line)) {
+            push(start, line - 1, section);
+            start = line;
+          }
+        }
+        pending = { startLine: start, endLine: block.endLine };
+      }
+      if (pending) {
+        push(pending.startLine, pending.endLine, section);
+      }
+    }
+    return results;
+  }
+
+  private chunkBySyntax(
+    lines: LineInfo[],
+    options: ChunkingOptions,
+    input: ChunkingInput,
+  ): DraftChunk[] {
+    const maxLines =
+      options.maxLines ?? options.adaptive?.maxChunkSizeLines ?? options.targetLines ?? DEFAULT_LINES_PER_CHUNK;
+    const blocks = extractSyntaxBlocks(input, maxLines);
+    if (!blocks) {
+      return this.chunkByLines(lines, options, input, options.tokenizer);
+    }
+    return blocks.map((block) => {
+      const text = lines
+        .slice(block.startLine - 1, block.endLine)
+        .map((line) => line.text)
+        .join('\n');
+      return {
+        text,
+        startLine: block.startLine,
+        endLine: block.endLine,
+        tokenCount: options.tokenizer.count(text),
+        charCount: text.length,
+        section: block.scope.length > 0 ? block.scope.join(' > ') : undefined,
+      };
+    });
+  }
+
+  /**
+   * Starts from declaration boundaries, merges adjacent declarations while they
+   * fit `targetChunkSizeTokens` and splits larger ones at statement or blank
+   * line boundaries. Pieces that start inside a declaration carry its
+   * signature (and those of its containers) as `header`, which is counted
+   * against the budget but kept out of the text.
+   */
+  private chunkByHybrid(
+    lines: LineInfo[],
+    options: ChunkingOptions,
+    input: ChunkingInput,
+  ): DraftChunk[] {
+    const tokenizer = options.tokenizer;
+    const budget = Math.min(
+      options.targetChunkSizeTokens ?? DEFAULT_TOKENS_PER_CHUNK,
+      options.maxTokens ?? Infinity,
+    );
+    const countRange = (startLine: number, endLine: number) =>
+      tokenizer.count(joinLines(lines, startLine, endLine));
+    const blocks = extractSyntaxBlocks(input, (startLine, endLine) => countRange(startLine, endLine) <= budget) ?? [
+      { startLine: 1, endLine: lines.length, scope: [], signatures: [] },
+    ];
+    if (options.boundaries === 'content-defined') {
+      return this.chunkByHybridContent(lines, blocks, budget, tokenizer, options);
+    }
+
+    const results: DraftChunk[] = [];
+    let current: { draft: DraftChunk; headerTokens: number } | undefined;
+    for (const block of blocks) {
+      const header = hybridHeader(block, block.startLine);
+      const headerTokens = header ? tokenizer.count(header) : 0;
+      const draft = this.buildRangeDraft(lines, block.startLine, block.endLine, tokenizer, block, header);
+      if (draft.tokenCount + headerTokens > budget) {
+        if (current) {
+          results.push(current.draft);
+          current = undefined;
+        }
+        results.push(...this.splitAtStatements(lines, block, budget, tokenizer));
+        continue;
+      }
+      if (current) {
+        const text = joinLines(lines, current.draft.startLine, block.endLine);
+        const tokenCount = tokenizer.count(text);
+        if (tokenCount + current.headerTokens <= budget) {
+          current.draft = {
+            ...current.draft,
+            text,
+            endLine: block.endLine,
+            tokenCount,
+            charCount: text.length,
+            section: mergeSections(current.draft.section, draft.section),
+          };
+          continue;
+        }
+        results.push(current.draft);
+      }
+      current = { draft, headerTokens };
+    }
+    if (current) {
+      results.push(current.draft);
+    }
+    return results;
+  }
+
+  /**
+   * Content-defined hybrid chunking: declarations that fit the budget stay
+   * whole, larger ones are broken into statements (and statements into
+   * lines), and consecutive pieces are grouped at content-defined cut points.
+   * Pieces of a split declaration are only grouped with each other, so they
+   * keep its signature as header.
+   */
+  private chunkByHybridContent(
+    lines: LineInfo[],
+    blocks: SyntaxBlock[],
+    budget: number,
+    tokenizer: Tokenizer,
+    options: ChunkingOptions,
+  ): DraftChunk[] {
+    const cost = (block: SyntaxBlock, startLine: number, endLine: number) => {
+      const header = hybridHeader(block, startLine);
+      return tokenizer.count(joinLines(lines, startLine, endLine)) + (header ? tokenizer.count(header) : 0);
+    };
+    const units: Array<{ startLine: number; endLine: number; block: SyntaxBlock; split: boolean }> = [];
+    for (const block of blocks) {
+      if (cost(block, block.startLine, block.endLine) <= budget) {
+        units.push({ startLine: block.startLine, endLine: block.endLine, block, split: false });
+        continue;
+      }
+      const boundaries = statementBoundaries(lines, block.startLine, block.endLine);
+      let start = block.startLine;
+      for (let line = block.startLine; line <= block.endLine; line += 1) {
+        if (!boundaries.has(line) && line !== block.endLine) {
+          continue;
+        }
+        if (cost(block, start, line) <= budget) {
+          units.push({ startLine: start, endLine: line, block, split: true });
+        } else {
+          for (let single = start; single <= line; single += 1) {
+            units.push({ startLine: single, endLine: single, block, split: true });
+          }
+        }
+        start = line + 1;
+      }
+    }
+
+    const limit = { tokens: budget, lines: Infinity };
+    const groups = this.groupRangesByContent(units, lines, options, limit, (start, end) => {
+      const first = units[start];
+      const last = units[end - 1];
+      if (first.block !== last.block && (first.split || last.split)) {
+        return false;
+      }
+      return cost(first.block, first.startLine, last.endLine) <= budget;
+    });
+    return groups.map(([start, end]) => {
+      const first = units[start];
+      const header = hybridHeader(first.block, first.startLine);
+      const draft = this.buildRangeDraft(lines, first.startLine, units[end - 1].endLine, tokenizer, first.block, header);
+      let section = draft.section;
+      for (let index = start + 1; index < end; index += 1) {
+        if (units[index].block !== units[index - 1].block) {
+          section = mergeSections(section, blockSection(units[index].block));
+        }
+      }
+      return { ...draft, section };
+    });
+  }
+
+  /**
+   * Groups consecutive line ranges (blocks, statements or single lines) at
+   * content-defined cut points, sized by token count when `limit.tokens` is
+   * finite and by line count otherwise. A cut is forced before a group stops
+   * passing `fits`; a single range that does not fit stays on its own.
+   * Returns `[start, end)` index ranges into `units`.
+   */
+  private groupRangesByContent(
+    units: Array<{ startLine: number; endLine: number }>,
+    lines: LineInfo[],
+    options: ChunkingOptions,
+    limit: { tokens: number; lines: number },
+    fits: (start: number, end: number) => boolean,
+  ): Array<[number, number]> {
+    const byTokens = Number.isFinite(limit.tokens);
+    const texts = units.map((unit) => joinLines(lines, unit.startLine, unit.endLine));
+    const size = byTokens ? limit.tokens : limit.lines;
+    // Aim at half the limit so that most cuts come from the content rather than from the limit.
+    const sizing = resolveContentDefinedSizing(options.contentDefined, size / 2, size, DEFAULT_LINE_HASH_WINDOW);
+    const weights = units.map((unit, index) =>
+      byTokens ? options.tokenizer.count(texts[index]) : unit.endLine - unit.startLine + 1,
+    );
+    return this.cutRanges(contentDefinedCuts(texts.map(hashUnit), sizing, weights, fits));
+  }
+
+  private splitAtStatements(
+    lines: LineInfo[],
+    block: SyntaxBlock,
+    budget: number,
+    tokenizer: Tokenizer,
+  ): DraftChunk[] {
+    const boundaries = statementBoundaries(lines, block.startLine, block.endLine);
+    const pieces: DraftChunk[] = [];
+    let start = block.startLine;
+    while (start <= block.endLine) {
+      const header = hybridHeader(block, start);
+      const limit = budget - (header ? tokenizer.count(header) : 0);
+      let end = start;
+      let lastBoundary: number | undefined;
+      for (let line = start; line <= block.endLine; line += 1) {
+        if (line > start && tokenizer.count(joinLines(lines, start, line)) > limit) {
+          break;
+        }
+        end = line;
+        if (boundaries.has(line)) {
+          lastBoundary = line;
+        }
+      }
+      // A single statement larger than the budget is cut at the last line that fits.
+      const stop = end === block.endLine ? end : lastBoundary ?? end;
+      pieces.push(this.buildRangeDraft(lines, start, stop, tokenizer, block, header));
+      start = stop + 1;
+    }
+    return pieces;
+  }
+
+  private buildRangeDraft(
+    lines: LineInfo[],
+    startLine: number,
+    endLine: number,
+    tokenizer: Tokenizer,
+    block: SyntaxBlock,
+    header: string | undefined,
+  ): DraftChunk {
+    const text = joinLines(lines, startLine, endLine);
+    return {
+      text,
+      startLine,
+      endLine,
+      tokenCount: tokenizer.count(text),
+      charCount: text.length,
+      section: blockSection(block),
+      header,
+    };
+  }
+
   private pushSectionChunk(
     lines: LineInfo[],
     start: number,
@@ -289,13 +876,21 @@ export class Chunker {
   ): DraftChunk[] {
     const adaptive = options.adaptive;
     let processed = drafts;
-    if (adaptive?.mergeSmallAdjacent) {
+    // Syntax chunks are one declaration each and notebook chunks follow cells, so
+    // neither is merged. Hybrid and Markdown chunks are already sized by their
+    // strategy, and Markdown ones must not be cut through code fences or tables.
+    const markdown = !input.cells && options.strategy === 'by-section' && isMarkdownInput(input);
+    const ownsSizing = markdown || (!input.cells && options.strategy === 'hybrid');
+    const keepBoundaries = options.strategy === 'syntax' || Boolean(input.cells);
+    if (adaptive?.mergeSmallAdjacent && !keepBoundaries && !ownsSizing) {
       processed = this.mergeSmallChunks(processed, adaptive, tokenizer);
     }
-    if (adaptive?.splitLargeChunks) {
-      processed = this.splitLargeChunks(processed, adaptive, lines, tokenizer, input);
+    if (adaptive?.splitLargeChunks && !ownsSizing) {
+      processed = this.splitLargeChunks(processed, adaptive, lines, tokenizer, input, options);
+    }
+    if (!markdown) {
+      processed = this.enforceBudget(processed, options, lines, tokenizer, input);
     }
-    processed = this.enforceBudget(processed, options, lines, tokenizer, input);
     return processed;
   }
 
@@ -338,6 +933,7 @@ export class Chunker {
           endLine: chunk.endLine,
           charCount: text.length,
           tokenCount: tokenizer.count(text),
+          section: mergeSections(buffer.section, chunk.section),
         };
       }
     }
@@ -355,6 +951,7 @@ export class Chunker {
     lines: LineInfo[],
     tokenizer: Tokenizer,
     input: ChunkingInput,
+    boundaries?: Pick<ChunkingOptions, 'boundaries' | 'contentDefined'>,
   ): DraftChunk[] {
     const maxTokens = adaptive.maxChunkSizeTokens ?? Infinity;
     const maxChars = adaptive.maxChunkSizeChars ?? Infinity;
@@ -375,12 +972,21 @@ export class Chunker {
         continue;
       }
 
-      const pieces = this.divideChunk(chunk, adaptive, lines, tokenizer, input);
+      const pieces = this.divideChunk(chunk, adaptive, lines, tokenizer, input, boundaries);
       if (pieces.length === 1 && pieces[0] === chunk) {
         results.push(chunk);
         continue;
       }
-      queue.unshift(...pieces);
+      queue.unshift(
+        ...pieces.map((piece) => ({
+          ...piece,
+          section: chunk.section,
+          header: chunk.header,
+          cell: chunk.cell,
+          keyPath: chunk.keyPath,
+          documentIndex: chunk.documentIndex,
+        })),
+      );
     }
     return results;
   }
@@ -395,18 +1001,51 @@ export class Chunker {
       .sort((a, b) => a.startLine - b.startLine || a.tokenCount - b.tokenCount);
 
     const totalChunks = sorted.length;
+    const contentDefined = options.boundaries === 'content-defined';
+    const occurrences = new Map<string, number>();
     return sorted.map((draft, index) => {
       const metadata: ChunkMetadata = {
         origin: 'file',
         path: input.path,
-        startLine: draft.startLine,
-        endLine: draft.endLine,
+        startLine: sourceLine(input, draft.startLine),
+        endLine: sourceLine(input, draft.endLine),
         tokenCount: draft.tokenCount,
         charCount: draft.charCount,
         chunkIndex: index,
         totalChunks,
       };
-      const id = this.computeChunkId(input.path, draft, options);
+      if (draft.section) {
+        metadata.section = draft.section;
+      }
+      if (draft.header) {
+        metadata.header = draft.header;
+      }
+      if (draft.cell) {
+        metadata.cellIndex = draft.cell.index;
+        metadata.cellType = draft.cell.type;
+      }
+      if (draft.keyPath !== undefined) {
+        metadata.keyPath = draft.keyPath;
+      }
+      if (draft.documentIndex !== undefined) {
+        metadata.documentIndex = draft.documentIndex;
+      }
+      if (input.lineMap) {
+        metadata.lineMap = input.lineMap.slice(draft.startLine - 1, draft.endLine);
+      }
+      if (contentDefined) {
+        metadata.occurrence = occurrences.get(draft.text) ?? 0;
+        occurrences.set(draft.text, metadata.occurrence + 1);
+      }
+      if (options.contextHeaders) {
+        metadata.contextHeader = renderContextHeader(metadata, input.language);
+        metadata.contextHeaderTokens = options.tokenizer.count(metadata.contextHeader);
+      }
+      const id = this.computeChunkId(
+        input.path,
+        { ...draft, startLine: metadata.startLine, endLine: metadata.endLine, occurrence: metadata.occurrence },
+        options,
+      );
       return {
         id,
         text: draft.text,
@@ -415,16 +1054,8 @@ export class Chunker {
     });
   }
 
-  private computeChunkId(path: string, draft: DraftChunk, options: ChunkingOptions): string {
-    const hash = createHash('sha256');
-    hash.update(path);
-    hash.update(String(draft.startLine));
-    hash.update(String(draft.endLine));
-    hash.update(draft.text);
-    if (options.tokenizer?.id) {
-      hash.update(options.tokenizer.id);
-    }
-    return hash.digest('hex');
+  private computeChunkId(path: string, draft: DraftChunk & { occurrence?: number }, options: ChunkingOptions): string {
+    return computeChunkId(path, draft, options.tokenizer?.id);
   }
 
   private splitLines(text: string): LineInfo[] {
@@ -495,6 +1126,7 @@ export class Chunker {
       lines,
       tokenizer,
       input,
+      options,
     );
   }
 
@@ -504,6 +1136,7 @@ export class Chunker {
     lines: LineInfo[],
     tokenizer: Tokenizer,
     input: ChunkingInput,
+    boundaries?: Pick<ChunkingOptions, 'boundaries' | 'contentDefined'>,
   ): DraftChunk[] {
     const subset = lines.slice(chunk.startLine - 1, chunk.endLine);
     const chunkLines = subset.length;
@@ -531,7 +1164,13 @@ export class Chunker {
     if (targetLines < chunkLines) {
       const pieces = this.chunkByLines(
         subset,
-        { ...optionsBaseline(tokenizer), targetLines },
+        {
+          ...optionsBaseline(tokenizer),
+          targetLines,
+          maxLines: targetLines,
+          boundaries: boundaries?.boundaries,
+          contentDefined: boundaries?.contentDefined,
+        },
         input,
         tokenizer,
       );
@@ -550,7 +1189,7 @@ export class Chunker {
     tokenizer: Tokenizer,
   ): DraftChunk[] {
     const limitTokens = adaptive.maxChunkSizeTokens ?? Infinity;
-    if (!(typeof limitTokens === 'number') || !Number.isFinite(limitTokens)) {
+    if (!(typeof limitTokens === 'number') || !Number.isFinite(limitTokens) || subset.length < 2) {
       return [chunk];
     }
 
@@ -581,8 +1220,33 @@ export class Chunker {
   }
 }
 
-function defaultSectionPatterns(language: string): RegExp[] {
-  const patterns = [
+/**
+ * Stable chunk identifier: hash of path, line range, text and tokenizer id.
+ * Content-defined chunks hash their occurrence instead of the line range, so
+ * lines inserted above them do not change their id.
+ */
+export function computeChunkId(
+  path: string,
+  chunk: { startLine: number; endLine: number; text: string; occurrence?: number },
+  tokenizerId?: string,
+): string {
+  const hash = createHash('sha256');
+  hash.update(path);
+  if (chunk.occurrence === undefined) {
+    hash.update(String(chunk.startLine));
+    hash.update(String(chunk.endLine));
+  } else {
+    hash.update(`#${chunk.occurrence}`);
+  }
+  hash.update(chunk.text);
+  if (tokenizerId) {
+    hash.update(tokenizerId);
+  }
+  return hash.digest('hex');
+}
+
+function defaultSectionPatterns(): RegExp[] {
+  return [
     /^#{1,6}\s+/,
     /^\/\/\s*#?region\b/i,
     /^function\s+\w+/,
@@ -593,10 +1257,77 @@ function defaultSectionPatterns(language: string): RegExp[] {
     /^it\(/,
     /^describe\(/,
   ];
-  if (language === 'markdown') {
-    patterns.push(/^\s*-\s+/);
+}
+
+function sourceLine(input: ChunkingInput, line: number): number {
+  return input.lineMap?.[line - 1] ?? line;
+}
+
+function draftHeaderSource(draft: DraftChunk, input: ChunkingInput): ContextHeaderSource {
+  return {
+    path: input.path,
+    startLine: sourceLine(input, draft.startLine),
+    endLine: sourceLine(input, draft.endLine),
+    section: draft.section,
+    header: draft.header,
+    keyPath: draft.keyPath,
+    cellIndex: draft.cell?.index,
+    cellType: draft.cell?.type,
+  };
+}
+
+function mergeSections(first?: string, second?: string): string | undefined {
+  if (!first || !second || first === second) {
+    return first ?? second;
+  }
+  return `${first}, ${second}`;
+}
+
+function joinLines(lines: LineInfo[], startLine: number, endLine: number): string {
+  return lines
+    .slice(startLine - 1, endLine)
+    .map((line) => line.text)
+    .join('\n');
+}
+
+/** The scopes of a block joined into its chunk section, e.g. `class Foo > method bar`. */
+function blockSection(block: SyntaxBlock): string | undefined {
+  return block.scope.length > 0 ? block.scope.join(' > ') : undefined;
+}
+
+/** Signatures of the declarations that start before `startLine`, one per line. */
+function hybridHeader(block: SyntaxBlock, startLine: number): string | undefined {
+  const header = block.signatures
+    .filter((signature) => signature.line < startLine)
+    .map((signature) => signature.text)
+    .join('\n');
+  return header || undefined;
+}
+
+const CONTINUATION_PATTERN = /(?:[,([{\\=+\-*/.&|?:]|=>)$/;
+
+/**
+ * Lines after which a chunk may end: blank lines, and lines outside any open
+ * parenthesis or bracket that do not end in an operator or opening token.
+ */
+function statementBoundaries(lines: LineInfo[], startLine: number, endLine: number): Set<number> {
+  const boundaries = new Set<number>();
+  let depth = 0;
+  for (let lineNumber = startLine; lineNumber <= endLine; lineNumber += 1) {
+    const code = (lines[lineNumber - 1]?.text ?? '')
+      .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\/\/.*$/, '')
+      .trim();
+    depth = Math.max(0, depth + countMatches(code, /[([]/g) - countMatches(code, /[)\]]/g));
+    if (code === '' || code.endsWith('*/') || (depth === 0 && !CONTINUATION_PATTERN.test(code))) {
+      boundaries.add(lineNumber);
+    }
   }
-  return patterns;
+  return boundaries;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
 }
 
 function optionsBaseline(tokenizer: Tokenizer): ChunkingOptions {
@@ -0,0 +1,98 @@
+import { ContentDefinedChunkingOptions } from './types';
+
+export interface ContentDefinedSizing {
+  target: number;
+  min: number;
+  max: number;
+  window: number;
+}
+
+function mix(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function rotateLeft(value: number, bits: number): number {
+  const shift = bits % 32;
+  return shift === 0 ? value >>> 0 : ((value << shift) | (value >>> (32 - shift))) >>> 0;
+}
+
+/** FNV-1a over the UTF-16 code units of a line or token, mixed for use in the rolling hash. */
+export function hashUnit(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return mix(hash);
+}
+
+export function resolveContentDefinedSizing(
+  options: ContentDefinedChunkingOptions | undefined,
+  target: number,
+  limit: number | undefined,
+  defaultWindow: number,
+): ContentDefinedSizing {
+  const size = Math.max(1, Math.floor(target));
+  const max = Math.max(1, Math.floor(options?.maxSize ?? limit ?? size * 2));
+  const min = Math.min(max, Math.max(1, Math.floor(options?.minSize ?? size / 4)));
+  return {
+    target: size,
+    min,
+    max,
+    window: Math.max(1, Math.floor(options?.window ?? defaultWindow)),
+  };
+}
+
+/**
+ * Content-defined cut points over a sequence of hashed units (lines or
+ * tokens). A buzhash over the last `window` units decides where to cut once a
+ * chunk holds `min` units (weighted by `weights` when given), and a chunk is
+ * always cut before it would exceed `max`, or before `fits(start, end)`
+ * rejects units `start` to `end` (exclusive) when given. The hash only depends
+ * on nearby units, so an edit moves the cut points around it and the ones
+ * after it fall back into place. Returns exclusive end indices; the last is
+ * always `hashes.length`.
+ */
+export function contentDefinedCuts(
+  hashes: number[],
+  sizing: ContentDefinedSizing,
+  weights?: number[],
+  fits?: (start: number, end: number) => boolean,
+): number[] {
+  // The hash is tested once per unit, so weighted sizes are turned into a number of units of average weight.
+  const averageWeight =
+    weights && weights.length > 0 ? weights.reduce((sum, weight) => sum + weight, 0) / weights.length : 1;
+  const divisor = Math.max(1, Math.round((sizing.target - sizing.min) / Math.max(1, averageWeight)) + 1);
+  const cuts: number[] = [];
+  let hash = 0;
+  let size = 0;
+  let start = 0;
+  for (let index = 0; index < hashes.length; index += 1) {
+    hash = (rotateLeft(hash, 1) ^ hashes[index]) >>> 0;
+    if (index >= sizing.window) {
+      hash = (hash ^ rotateLeft(hashes[index - sizing.window], sizing.window)) >>> 0;
+    }
+    const weight = weights?.[index] ?? 1;
+    if (size > 0 && (size + weight > sizing.max || (fits && !fits(start, index + 1)))) {
+      cuts.push(index);
+      start = index;
+      size = 0;
+    }
+    size += weight;
+    if (size >= sizing.min && hash % divisor === 0) {
+      cuts.push(index + 1);
+      start = index + 1;
+      size = 0;
+    }
+  }
+  if (hashes.length > 0 && cuts[cuts.length - 1] !== hashes.length) {
+    cuts.push(hashes.length);
+  }
+  return cuts;
+}
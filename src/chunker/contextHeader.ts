@@ -0,0 +1,45 @@
+import { ChunkMetadata } from './types';
+
+export type ContextHeaderSource = Pick<
+  ChunkMetadata,
+  'path' | 'startLine' | 'endLine' | 'section' | 'header' | 'keyPath' | 'cellIndex' | 'cellType'
+>;
+
+/**
+ * Plain-text lines describing where a chunk comes from: path, language, line
+ * range, enclosing scope (`section`), declaration signatures (`header`), and
+ * the key path or notebook cell when present.
+ */
+export function renderContextHeader(source: ContextHeaderSource, language?: string): string {
+  const lines = [`File: ${source.path}`];
+  if (language) {
+    lines.push(`Language: ${language}`);
+  }
+  lines.push(`Lines: ${source.startLine}-${source.endLine}`);
+  if (source.section) {
+    lines.push(`Scope: ${source.section}`);
+  }
+  for (const signature of source.header?.split('\n') ?? []) {
+    lines.push(`Within: ${signature}`);
+  }
+  if (source.keyPath) {
+    lines.push(`Key: ${source.keyPath}`);
+  }
+  if (source.cellIndex !== undefined) {
+    lines.push(`Cell: ${source.cellIndex}${source.cellType ? ` (${source.cellType})` : ''}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Returns the chunk with `contextualText`: its context header, a blank line
+ * and the raw text. The header stored at indexing time is reused; otherwise
+ * it is rendered from the metadata. `text` itself is left untouched.
+ */
+export function withContextualText<T extends { text: string; metadata: ChunkMetadata }>(
+  chunk: T,
+  language?: string,
+): T & { contextualText: string } {
+  const header = chunk.metadata.contextHeader ?? renderContextHeader(chunk.metadata, language);
+  return { ...chunk, contextualText: `${header}\n\n${chunk.text}` };
+}
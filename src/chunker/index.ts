@@ -1,4 +1,11 @@
 export * from './types';
 export * from './tokenizers/basic';
 export * from './tokenizers/registry';
+export * from './tokenizers/bpe';
 export * from './chunker';
+export * from './syntax';
+export * from './markdown';
+export * from './structured';
+export * from './contentDefined';
+export * from './contextHeader';
+export * from './symbols';
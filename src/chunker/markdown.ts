@@ -0,0 +1,204 @@
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown', '.mdx'];
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?[ \t]*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export interface MarkdownSection {
+  startLine: number;
+  endLine: number;
+  /** Heading titles from the top level down, e.g. ['Guide', 'Install', 'Linux']. */
+  breadcrumb: string[];
+}
+
+export interface MarkdownBlock {
+  startLine: number;
+  endLine: number;
+  /** Fenced code, tables and front matter, which must never be split. */
+  atomic: boolean;
+}
+
+/** What a line of a Markdown document is, as read by `scanMarkdownLines`. */
+export interface MarkdownLine {
+  blank: boolean;
+  /** Inside (or delimiting) a code fence or front matter. */
+  fenced: boolean;
+  table: boolean;
+  heading?: { depth: number; title: string };
+}
+
+export function isMarkdownInput(input: { path: string; language?: string }): boolean {
+  if (input.language) {
+    return input.language.toLowerCase() === 'markdown';
+  }
+  const path = input.path.toLowerCase();
+  return MARKDOWN_EXTENSIONS.some((extension) => path.endsWith(extension));
+}
+
+function headingTitle(raw: string): string {
+  return raw
+    .replace(/\s+#+\s*$/, '')
+    .replace(/^#+$/, '')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .trim();
+}
+
+/**
+ * Reads each line of a Markdown document once: blank lines, code fences and
+ * front matter, tables and headings. Pass the result to
+ * `extractMarkdownSections` and `extractMarkdownBlocks` to avoid rescanning
+ * the document for each section.
+ */
+export function scanMarkdownLines(lines: string[]): MarkdownLine[] {
+  const scanned: MarkdownLine[] = lines.map((line) => ({ blank: line.trim() === '', fenced: false, table: false }));
+
+  let start = 0;
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (close > 0) {
+      for (let index = 0; index <= close; index += 1) {
+        scanned[index].fenced = true;
+      }
+      start = close + 1;
+    }
+  }
+
+  let fence: string | undefined;
+  for (let index = start; index < lines.length; index += 1) {
+    const line = lines[index];
+    const fenceMatch = FENCE.exec(line);
+    if (fence) {
+      scanned[index].fenced = true;
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length && line.trim() === fenceMatch[1]) {
+        fence = undefined;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      scanned[index].fenced = true;
+      continue;
+    }
+    const atx = ATX_HEADING.exec(line);
+    if (atx) {
+      scanned[index].heading = { depth: atx[1].length, title: headingTitle(atx[2] ?? '') };
+      continue;
+    }
+    const setext = SETEXT_UNDERLINE.exec(line);
+    const previous = scanned[index - 1];
+    if (
+      setext &&
+      index > start &&
+      !previous.blank &&
+      !previous.fenced &&
+      !previous.heading &&
+      !lines[index - 1].includes('|') &&
+      (index - 1 === start || scanned[index - 2].blank)
+    ) {
+      previous.heading = { depth: setext[1][0] === '=' ? 1 : 2, title: headingTitle(lines[index - 1]) };
+    }
+  }
+
+  // A run of pipe rows is a table once it contains a delimiter row.
+  let runStart = -1;
+  for (let index = 0; index <= lines.length; index += 1) {
+    const inRun = index < lines.length && !scanned[index].fenced && !scanned[index].blank && lines[index].includes('|');
+    if (inRun) {
+      runStart = runStart < 0 ? index : runStart;
+      continue;
+    }
+    if (runStart >= 0 && lines.slice(runStart, index).some((line) => TABLE_DELIMITER.test(line))) {
+      for (let row = runStart; row < index; row += 1) {
+        scanned[row].table = true;
+      }
+    }
+    runStart = -1;
+  }
+  return scanned;
+}
+
+/**
+ * Splits a Markdown document into one section per heading (ATX or setext) up
+ * to `maxHeadingDepth`, ignoring headings inside code fences and front matter.
+ * Each section carries its heading breadcrumb; a heading directly followed by
+ * a subheading is folded into that subsection instead of standing alone.
+ * Line numbers are 1-based.
+ */
+export function extractMarkdownSections(
+  lines: string[],
+  maxHeadingDepth = 6,
+  scanned: MarkdownLine[] = scanMarkdownLines(lines),
+): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const stack: Array<{ depth: number; title: string }> = [];
+  let current: MarkdownSection = { startLine: 1, endLine: 0, breadcrumb: [] };
+  let hasContent = false;
+
+  const close = (endIndex: number) => {
+    let end = endIndex;
+    while (end > current.startLine && scanned[end - 1].blank) {
+      end -= 1;
+    }
+    if (end >= current.startLine && !(current.breadcrumb.length === 0 && !hasContent)) {
+      sections.push({ ...current, endLine: end });
+    }
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const heading = scanned[index].heading;
+    if (!heading || heading.depth > maxHeadingDepth) {
+      if (!scanned[index].blank && !(index > 0 && scanned[index - 1].heading && SETEXT_UNDERLINE.test(lines[index]))) {
+        hasContent = true;
+      }
+      continue;
+    }
+    while (stack.length > 0 && stack[stack.length - 1].depth >= heading.depth) {
+      stack.pop();
+    }
+    const parentOnly = !hasContent && current.breadcrumb.length > 0 && current.breadcrumb.length <= stack.length;
+    stack.push(heading);
+    const breadcrumb = stack.map((entry) => entry.title);
+    if (parentOnly) {
+      current = { ...current, breadcrumb };
+    } else {
+      close(index);
+      current = { startLine: index + 1, endLine: 0, breadcrumb };
+    }
+    hasContent = false;
+  }
+  close(lines.length);
+  return sections;
+}
+
+/**
+ * Groups the lines of a section into blocks separated by blank lines outside
+ * code fences. Blocks containing fenced code, tables or front matter are
+ * marked atomic.
+ */
+export function extractMarkdownBlocks(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  scanned: MarkdownLine[] = scanMarkdownLines(lines),
+): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let block: MarkdownBlock | undefined;
+  for (let lineNumber = startLine; lineNumber <= endLine; lineNumber += 1) {
+    const info = scanned[lineNumber - 1];
+    if (info.blank && !info.fenced) {
+      if (block) {
+        blocks.push(block);
+        block = undefined;
+      }
+      continue;
+    }
+    block = block ?? { startLine: lineNumber, endLine: lineNumber, atomic: false };
+    block.endLine = lineNumber;
+    block.atomic = block.atomic || info.fenced || info.table;
+  }
+  if (block) {
+    blocks.push(block);
+  }
+  return blocks;
+}
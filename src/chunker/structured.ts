@@ -0,0 +1,381 @@
+import yaml from 'js-yaml';
+import tomlParser from 'toml/lib/parser';
+import tomlCompiler from 'toml/lib/compiler';
+
+export type StructuredFormat = 'json' | 'yaml' | 'toml';
+
+export interface StructuredNode {
+  /** Keys and array indexes from the document root. */
+  path: Array<string | number>;
+  startLine: number;
+  endLine: number;
+  children: StructuredNode[];
+}
+
+export interface StructuredDocument {
+  /** Position in a multi-document YAML stream; 0 for everything else. */
+  index: number;
+  root: StructuredNode;
+}
+
+const FORMATS_BY_LANGUAGE: Record<string, StructuredFormat> = {
+  json: 'json',
+  yaml: 'yaml',
+  toml: 'toml',
+};
+
+const FORMATS_BY_EXTENSION: Record<string, StructuredFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+};
+
+export function resolveStructuredFormat(input: { path: string; language?: string }): StructuredFormat | undefined {
+  const byLanguage = input.language ? FORMATS_BY_LANGUAGE[input.language.toLowerCase()] : undefined;
+  if (byLanguage) {
+    return byLanguage;
+  }
+  const lower = input.path.toLowerCase();
+  const dotIndex = lower.lastIndexOf('.');
+  return dotIndex === -1 ? undefined : FORMATS_BY_EXTENSION[lower.slice(dotIndex)];
+}
+
+/** RFC 6901 JSON pointer for a key path, e.g. `/paths/~1users/get`. */
+export function toJsonPointer(path: Array<string | number>): string {
+  return path.map((segment) => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join('');
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function lastContentLine(lines: string[], startLine: number, endLine: number, isContent: (line: string) => boolean) {
+  let end = endLine;
+  while (end > startLine && !isContent(lines[end - 1])) {
+    end -= 1;
+  }
+  return end;
+}
+
+/** A node as js-yaml composes it, with the offsets where composing started and stopped. */
+interface YamlEvent {
+  start: number;
+  end: number;
+  kind: string | null;
+  children: YamlEvent[];
+}
+
+/** JSON's own scalars; js-yaml's JSON mode also takes YAML ones such as `'a'`, `key` or `.5`. */
+const JSON_SCALAR =
+  /^(?:"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)$/;
+
+interface YamlListenerState {
+  position: number;
+  kind: string | null;
+}
+
+function isYamlContent(line: string): boolean {
+  return !isBlank(line) && !/^\s*#/.test(line);
+}
+
+/**
+ * Maps the node events js-yaml reports while it loads a stream back onto the
+ * source. The key tree comes from the parser itself, so flow collections,
+ * multi-line scalars, anchors and aliases are read exactly as the loader
+ * reads them.
+ */
+class YamlTreeBuilder {
+  private readonly lines: string[];
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly text: string) {
+    this.lines = text.split(/\r?\n/);
+    for (let offset = text.indexOf('\n'); offset !== -1; offset = text.indexOf('\n', offset + 1)) {
+      this.lineStarts.push(offset + 1);
+    }
+  }
+
+  build(options: { json: boolean }): StructuredDocument[] {
+    const roots: YamlEvent[] = [];
+    const open: YamlEvent[] = [];
+    yaml.loadAll(this.text, undefined, {
+      json: options.json,
+      listener: (type: 'open' | 'close', state: YamlListenerState) => {
+        if (type === 'open') {
+          const event: YamlEvent = { start: state.position, end: state.position, kind: null, children: [] };
+          (open.length > 0 ? open[open.length - 1].children : roots).push(event);
+          open.push(event);
+          return;
+        }
+        const event = open.pop()!;
+        event.end = state.position;
+        event.kind = state.kind;
+      },
+    });
+    if (options.json && !this.isStrictJson(roots)) {
+      throw new Error('not strict JSON');
+    }
+    return roots
+      .filter((event) => this.hasContent(event))
+      .map((event, index) => ({ index, root: this.node(event, [], this.lineAt(this.contentStart(event.start)), event) }));
+  }
+
+  /** A node from `startLine` to the end of `last`, with the entries of `value` as children. */
+  private node(value: YamlEvent | undefined, path: Array<string | number>, startLine: number, last: YamlEvent): StructuredNode {
+    const endLine = lastContentLine(this.lines, startLine, Math.max(startLine, this.lineAt(this.contentEnd(last.end))), isYamlContent);
+    return { path, startLine, endLine, children: value ? this.entries(value, path) : [] };
+  }
+
+  private entries(composed: YamlEvent, path: Array<string | number>): StructuredNode[] {
+    const event = this.unwrap(composed);
+    if (event.kind === 'sequence') {
+      return event.children.map((item, index) => this.node(item, [...path, index], this.itemLine(item), item));
+    }
+    if (event.kind !== 'mapping') {
+      return [];
+    }
+    // Keys and values alternate, except that a key without a value (`key:` before a dedent) composes no value node.
+    const nodes: StructuredNode[] = [];
+    let key: YamlEvent | undefined;
+    const pair = (value: YamlEvent | undefined) => {
+      const name = this.text.slice(key!.start, key!.end);
+      nodes.push(this.node(value, [...path, this.keyName(name)], this.lineAt(this.contentStart(key!.start)), value ?? key!));
+      key = undefined;
+    };
+    for (const child of event.children.filter((candidate) => this.hasContent(candidate))) {
+      if (this.isKey(child)) {
+        if (key) {
+          pair(undefined);
+        }
+        key = child;
+      } else if (key) {
+        pair(child);
+      }
+    }
+    if (key) {
+      pair(undefined);
+    }
+    return nodes;
+  }
+
+  /**
+   * Whether the composed stream is one strict JSON value. js-yaml's JSON mode
+   * also takes comments, trailing commas, single quotes and unquoted keys,
+   * which JSON.parse rejects; checking what it composed spares parsing the
+   * file a second time.
+   */
+  private isStrictJson(roots: YamlEvent[]): boolean {
+    const documents = roots.filter((event) => this.hasContent(event));
+    return (
+      documents.length === 1 &&
+      this.separatedBy(0, documents[0].start) &&
+      this.isJsonValue(documents[0]) &&
+      this.separatedBy(documents[0].end, this.text.length)
+    );
+  }
+
+  private isJsonValue(composed: YamlEvent): boolean {
+    const event = this.unwrap(composed);
+    if (event.kind === 'scalar') {
+      return JSON_SCALAR.test(this.text.slice(event.start, event.end).trim());
+    }
+    const mapping = event.kind === 'mapping';
+    if (!mapping && event.kind !== 'sequence') {
+      return false;
+    }
+    const [open, close] = mapping ? ['{', '}'] : ['[', ']'];
+    const children = event.children;
+    if (children.length === 0) {
+      return this.separatedBy(event.start, event.end, open, close);
+    }
+    if (mapping && children.length % 2 !== 0) {
+      return false;
+    }
+    return (
+      this.separatedBy(event.start, children[0].start, open) &&
+      children.every((child, index) => {
+        const isKey = mapping && index % 2 === 0;
+        const next = index + 1 < children.length ? children[index + 1].start : event.end;
+        return (
+          this.isJsonValue(child) &&
+          (!isKey || this.text.slice(child.start, child.end).trim().startsWith('"')) &&
+          this.separatedBy(child.end, next, isKey ? ':' : index + 1 < children.length ? ',' : close)
+        );
+      })
+    );
+  }
+
+  /** Whether the text from `start` to `end` holds exactly `tokens`, with only JSON whitespace around them. */
+  private separatedBy(start: number, end: number, ...tokens: string[]): boolean {
+    return this.text.slice(start, end).replace(/[ \t\r\n]+/g, '') === tokens.join('');
+  }
+
+  /** Probing for a block mapping composes the node it finds once more, inside an event of the same extent. */
+  private unwrap(event: YamlEvent): YamlEvent {
+    let current = event;
+    while (current.children.length === 1) {
+      const [child] = current.children;
+      if (
+        child.kind !== current.kind ||
+        this.contentEnd(child.end) !== this.contentEnd(current.end) ||
+        this.contentStart(child.start) !== this.contentStart(current.start)
+      ) {
+        break;
+      }
+      current = child;
+    }
+    return current;
+  }
+
+  private keyName(source: string): string {
+    try {
+      const loaded: unknown = yaml.load(source.trim());
+      return loaded === null || loaded === undefined ? source.trim() : String(loaded);
+    } catch {
+      // Aliases used as keys only resolve within the whole document.
+      return source.trim();
+    }
+  }
+
+  private isKey(event: YamlEvent): boolean {
+    let offset = event.end;
+    while (offset < this.text.length && /\s/.test(this.text[offset])) {
+      offset += 1;
+    }
+    return this.text[offset] === ':';
+  }
+
+  /** Block sequence items start on their dash, which js-yaml has already read when the item opens. */
+  private itemLine(item: YamlEvent): number {
+    let offset = item.start - 1;
+    while (offset >= 0 && /\s/.test(this.text[offset])) {
+      offset -= 1;
+    }
+    return offset >= 0 && this.text[offset] === '-' ? this.lineAt(offset) : this.lineAt(this.contentStart(item.start));
+  }
+
+  private hasContent(event: YamlEvent): boolean {
+    return this.contentStart(event.start) < event.end;
+  }
+
+  private contentStart(offset: number): number {
+    let position = offset;
+    while (position < this.text.length) {
+      const char = this.text[position];
+      if (char === '#') {
+        const newline = this.text.indexOf('\n', position);
+        position = newline === -1 ? this.text.length : newline;
+      } else if (/\s/.test(char)) {
+        position += 1;
+      } else {
+        break;
+      }
+    }
+    return position;
+  }
+
+  private contentEnd(offset: number): number {
+    let position = offset - 1;
+    while (position > 0 && /\s/.test(this.text[position])) {
+      position -= 1;
+    }
+    return Math.max(position, 0);
+  }
+
+  private lineAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low + 1;
+  }
+}
+
+/** Statements of the toml parser's syntax tree, before the compiler folds them into a value. */
+interface TomlStatement {
+  type: string;
+  line: number;
+  key?: string;
+  value: unknown;
+}
+
+function isTomlContent(line: string): boolean {
+  return !isBlank(line) && !/^\s*#/.test(line);
+}
+
+/** Ends each sibling on the last content line before the next one starts. */
+function closeSiblings(lines: string[], nodes: StructuredNode[], parentEnd: number) {
+  nodes.forEach((node, index) => {
+    const next = index + 1 < nodes.length ? nodes[index + 1].startLine - 1 : parentEnd;
+    node.endLine = lastContentLine(lines, node.startLine, Math.max(node.startLine, next), isTomlContent);
+    closeSiblings(lines, node.children, node.endLine);
+  });
+}
+
+/** Builds the table and key tree from the toml parser's statements and their line numbers. */
+function scanToml(text: string): StructuredNode {
+  const statements = tomlParser.parse(text) as TomlStatement[];
+  // The compiler rejects redefined keys and tables, as toml.parse does.
+  tomlCompiler.compile(statements);
+  const lines = text.split(/\r?\n/);
+  const root: StructuredNode = { path: [], startLine: 1, endLine: lastContentLine(lines, 1, lines.length, isTomlContent), children: [] };
+  const arrayCounts = new Map<string, number>();
+  let table = root;
+  for (const statement of statements) {
+    if (statement.type === 'ObjectPath' || statement.type === 'ArrayPath') {
+      const name = statement.value as string[];
+      const path: Array<string | number> = [...name];
+      if (statement.type === 'ArrayPath') {
+        const key = JSON.stringify(name);
+        const count = arrayCounts.get(key) ?? 0;
+        arrayCounts.set(key, count + 1);
+        path.push(count);
+      }
+      table = { path, startLine: statement.line, endLine: statement.line, children: [] };
+      root.children.push(table);
+    } else if (statement.type === 'Assign') {
+      table.children.push({ path: [...table.path, statement.key!], startLine: statement.line, endLine: statement.line, children: [] });
+    }
+  }
+  closeSiblings(lines, root.children, root.endLine);
+  return root;
+}
+
+/**
+ * Parses JSON, YAML or TOML with the same parsers as the config loader and
+ * returns the key tree they report, with line ranges: one root per document (several for
+ * multi-document YAML streams). Returns undefined when the file is not a
+ * structured format or does not parse, so callers can fall back.
+ */
+export function extractStructuredDocuments(input: {
+  text: string;
+  path: string;
+  language?: string;
+}): StructuredDocument[] | undefined {
+  const format = resolveStructuredFormat(input);
+  if (!format || isBlank(input.text)) {
+    return undefined;
+  }
+  try {
+    switch (format) {
+      case 'json':
+        // JSON is a subset of YAML's flow style, so the YAML loader reports its keys too.
+        return new YamlTreeBuilder(input.text).build({ json: true });
+      case 'yaml': {
+        const documents = new YamlTreeBuilder(input.text).build({ json: false });
+        return documents.length > 0 ? documents : undefined;
+      }
+      case 'toml':
+        return [{ index: 0, root: scanToml(input.text) }];
+    }
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,441 @@
+import Parser = require('web-tree-sitter');
+import { resolveSyntaxGrammar, syntaxParserRegistry } from './syntax';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+export type SymbolKind =
+  | 'function'
+  | 'method'
+  | 'class'
+  | 'struct'
+  | 'interface'
+  | 'trait'
+  | 'enum'
+  | 'type'
+  | 'const'
+  | 'variable'
+  | 'module';
+
+export interface SymbolDefinitionSite {
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing class, impl, trait or namespace, outermost first and joined with `.`. */
+  container?: string;
+  /** Visible outside its file or package: `export`, `pub`, `public`, an upper-case Go name, no leading `_` in Python. */
+  exported: boolean;
+  line: number;
+  endLine: number;
+}
+
+export interface SymbolReferenceSite {
+  name: string;
+  line: number;
+  column: number;
+}
+
+/** A call made from the body of a function or method definition. */
+export interface SymbolCallSite {
+  caller: string;
+  callerContainer?: string;
+  /** The called name: the function, the method of `a.b()` or the class of `new C()`. */
+  callee: string;
+  line: number;
+  column: number;
+}
+
+export interface FileSymbols {
+  definitions: SymbolDefinitionSite[];
+  /** Every identifier that is not the name of one of `definitions`, including uses in imports. */
+  references: SymbolReferenceSite[];
+  calls: SymbolCallSite[];
+}
+
+interface Scope {
+  container?: string;
+  kind?: SymbolKind;
+  exported: boolean;
+}
+
+type SymbolVisitor = (collector: SymbolCollector, node: SyntaxNode, scope: Scope) => void;
+
+const CALL_TYPES = [
+  'call_expression',
+  'new_expression',
+  'call',
+  'method_invocation',
+  'object_creation_expression',
+];
+
+/** Fields that lead from a call, or a member access in its callee, to the called name. */
+const CALLEE_FIELDS = ['function', 'constructor', 'name', 'type', 'property', 'attribute', 'field'];
+
+const IDENTIFIER_TYPES = [
+  'identifier',
+  'type_identifier',
+  'property_identifier',
+  'field_identifier',
+  'shorthand_property_identifier',
+  'shorthand_property_identifier_pattern',
+];
+
+/** Line patterns for languages without a symbol grammar; the first capture group is the name. */
+const SYMBOL_PATTERNS: Array<{ pattern: RegExp; kind: SymbolKind }> = [
+  { pattern: /^\s*(?:export\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)/, kind: 'function' },
+  { pattern: /^\s*(?:export\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, kind: 'class' },
+  { pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)/, kind: 'function' },
+  { pattern: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?\(/, kind: 'function' },
+  { pattern: /^\s*([A-Za-z_$][\w$]*)\s*:\s*function\s*\(/, kind: 'method' },
+  { pattern: /^\s*export\s+const\s+([A-Za-z_$][\w$]*)/, kind: 'const' },
+];
+
+class SymbolCollector {
+  readonly definitions: SymbolDefinitionSite[] = [];
+  readonly nameNodes = new Set<string>();
+  /** Definitions by the byte range of their declaration node. */
+  readonly nodes = new Map<string, SymbolDefinitionSite>();
+
+  constructor(readonly visit: SymbolVisitor) {}
+
+  visitAll(nodes: SyntaxNode[], scope: Scope): void {
+    nodes.forEach((node) => this.visit(this, node, scope));
+  }
+
+  /** Records a definition named by `nameNode` and returns the scope for its members. */
+  define(node: SyntaxNode, nameNode: SyntaxNode | null, kind: SymbolKind, scope: Scope, exported: boolean): Scope {
+    if (!nameNode) {
+      return scope;
+    }
+    this.nameNodes.add(`${nameNode.startPosition.row}:${nameNode.startPosition.column}`);
+    const definition: SymbolDefinitionSite = {
+      name: nameNode.text,
+      kind,
+      ...(scope.container ? { container: scope.container } : {}),
+      exported,
+      line: node.startPosition.row + 1,
+      endLine: node.endPosition.row + 1,
+    };
+    this.definitions.push(definition);
+    this.nodes.set(`${node.startIndex}:${node.endIndex}`, definition);
+    return { container: scope.container ? `${scope.container}.${nameNode.text}` : nameNode.text, kind, exported };
+  }
+}
+
+function bodyMembers(node: SyntaxNode): SyntaxNode[] {
+  return node.childForFieldName('body')?.namedChildren ?? [];
+}
+
+function hasChildOfType(node: SyntaxNode, type: string, text?: RegExp): boolean {
+  return node.children.some((child) => child.type === type && (!text || text.test(child.text)));
+}
+
+const visitTypeScript: SymbolVisitor = (collector, node, scope) => {
+  const member = scope.kind === 'class' || scope.kind === 'interface';
+  const exported = member ? scope.exported && !hasChildOfType(node, 'accessibility_modifier', /private|protected/) : false;
+  switch (node.type) {
+    case 'export_statement': {
+      const declaration = node.childForFieldName('declaration');
+      if (declaration) {
+        collector.visit(collector, declaration, { ...scope, exported: true });
+      }
+      return;
+    }
+    case 'ambient_declaration':
+    case 'expression_statement':
+      collector.visitAll(node.namedChildren, scope);
+      return;
+    case 'function_declaration':
+    case 'generator_function_declaration':
+    case 'function_signature':
+      collector.define(node, node.childForFieldName('name'), 'function', scope, scope.exported);
+      return;
+    case 'class_declaration':
+    case 'abstract_class_declaration':
+      collector.visitAll(bodyMembers(node), collector.define(node, node.childForFieldName('name'), 'class', scope, scope.exported));
+      return;
+    case 'interface_declaration':
+      collector.visitAll(
+        bodyMembers(node),
+        collector.define(node, node.childForFieldName('name'), 'interface', scope, scope.exported),
+      );
+      return;
+    case 'internal_module':
+    case 'module':
+      collector.visitAll(bodyMembers(node), collector.define(node, node.childForFieldName('name'), 'module', scope, scope.exported));
+      return;
+    case 'method_definition':
+    case 'method_signature':
+    case 'abstract_method_signature':
+      collector.define(node, node.childForFieldName('name'), 'method', scope, exported);
+      return;
+    case 'public_field_definition': {
+      const value = node.childForFieldName('value');
+      if (value && /^(arrow_function|function_expression|function)$/.test(value.type)) {
+        collector.define(node, node.childForFieldName('name'), 'method', scope, exported);
+      }
+      return;
+    }
+    case 'type_alias_declaration':
+      collector.define(node, node.childForFieldName('name'), 'type', scope, scope.exported);
+      return;
+    case 'enum_declaration':
+      collector.define(node, node.childForFieldName('name'), 'enum', scope, scope.exported);
+      return;
+    case 'lexical_declaration':
+    case 'variable_declaration': {
+      const constant = node.firstChild?.text === 'const';
+      for (const declarator of node.namedChildren.filter((child) => child.type === 'variable_declarator')) {
+        const name = declarator.childForFieldName('name');
+        if (name?.type !== 'identifier') {
+          continue;
+        }
+        const value = declarator.childForFieldName('value');
+        const kind = value && /^(arrow_function|function_expression|function)$/.test(value.type) ? 'function' : constant ? 'const' : 'variable';
+        collector.define(declarator, name, kind, scope, scope.exported);
+      }
+      return;
+    }
+    default:
+      return;
+  }
+};
+
+const visitPython: SymbolVisitor = (collector, node, scope) => {
+  switch (node.type) {
+    case 'decorated_definition': {
+      const definition = node.childForFieldName('definition');
+      if (definition) {
+        collector.visit(collector, definition, scope);
+      }
+      return;
+    }
+    case 'function_definition': {
+      const name = node.childForFieldName('name');
+      const exported = scope.exported && !name?.text.startsWith('_');
+      collector.define(node, name, scope.kind === 'class' ? 'method' : 'function', scope, exported);
+      return;
+    }
+    case 'class_definition': {
+      const name = node.childForFieldName('name');
+      const exported = scope.exported && !name?.text.startsWith('_');
+      collector.visitAll(bodyMembers(node), collector.define(node, name, 'class', scope, exported));
+      return;
+    }
+    case 'expression_statement': {
+      const assignment = node.firstNamedChild;
+      const name = assignment?.type === 'assignment' ? assignment.childForFieldName('left') : null;
+      if (!scope.container && name?.type === 'identifier') {
+        const kind = /^[A-Z][A-Z0-9_]*$/.test(name.text) ? 'const' : 'variable';
+        collector.define(node, name, kind, scope, !name.text.startsWith('_'));
+      }
+      return;
+    }
+    default:
+      return;
+  }
+};
+
+const visitGo: SymbolVisitor = (collector, node, scope) => {
+  const isExported = (name: SyntaxNode | null) => /^[A-Z]/.test(name?.text ?? '');
+  switch (node.type) {
+    case 'function_declaration': {
+      const name = node.childForFieldName('name');
+      collector.define(node, name, 'function', scope, isExported(name));
+      return;
+    }
+    case 'method_declaration': {
+      const name = node.childForFieldName('name');
+      const receiver = node.childForFieldName('receiver')?.descendantsOfType('type_identifier')[0]?.text;
+      collector.define(node, name, 'method', { ...scope, container: receiver }, isExported(name));
+      return;
+    }
+    case 'type_declaration':
+      for (const spec of node.namedChildren) {
+        const name = spec.childForFieldName('name');
+        const type = spec.childForFieldName('type')?.type;
+        const kind = type === 'struct_type' ? 'struct' : type === 'interface_type' ? 'interface' : 'type';
+        collector.define(spec, name, kind, scope, isExported(name));
+      }
+      return;
+    case 'const_declaration':
+    case 'var_declaration':
+      for (const spec of node.namedChildren) {
+        for (const name of spec.childrenForFieldName('name')) {
+          collector.define(spec, name, node.type === 'const_declaration' ? 'const' : 'variable', scope, isExported(name));
+        }
+      }
+      return;
+    default:
+      return;
+  }
+};
+
+const RUST_KINDS: Record<string, SymbolKind> = {
+  struct_item: 'struct',
+  union_item: 'struct',
+  enum_item: 'enum',
+  type_item: 'type',
+  const_item: 'const',
+  static_item: 'const',
+};
+
+const visitRust: SymbolVisitor = (collector, node, scope) => {
+  const exported = hasChildOfType(node, 'visibility_modifier') || (scope.kind === 'trait' && scope.exported);
+  switch (node.type) {
+    case 'function_item':
+    case 'function_signature_item': {
+      const kind = scope.kind === 'class' || scope.kind === 'trait' ? 'method' : 'function';
+      collector.define(node, node.childForFieldName('name'), kind, scope, exported);
+      return;
+    }
+    case 'impl_item': {
+      const type = node.childForFieldName('type');
+      const name = (type?.type === 'generic_type' ? type.childForFieldName('type') : type)?.text;
+      const container = name && scope.container ? `${scope.container}.${name}` : name;
+      collector.visitAll(bodyMembers(node), { container, kind: 'class', exported: false });
+      return;
+    }
+    case 'trait_item':
+      collector.visitAll(bodyMembers(node), collector.define(node, node.childForFieldName('name'), 'trait', scope, exported));
+      return;
+    case 'mod_item':
+      collector.visitAll(bodyMembers(node), collector.define(node, node.childForFieldName('name'), 'module', scope, exported));
+      return;
+    default:
+      if (RUST_KINDS[node.type]) {
+        collector.define(node, node.childForFieldName('name'), RUST_KINDS[node.type], scope, exported);
+      }
+      return;
+  }
+};
+
+const JAVA_KINDS: Record<string, SymbolKind> = {
+  class_declaration: 'class',
+  record_declaration: 'class',
+  interface_declaration: 'interface',
+  annotation_type_declaration: 'interface',
+  enum_declaration: 'enum',
+};
+
+const visitJava: SymbolVisitor = (collector, node, scope) => {
+  const modifiers = node.namedChildren.find((child) => child.type === 'modifiers')?.text ?? '';
+  const exported = /\bpublic\b/.test(modifiers) || (scope.kind === 'interface' && scope.exported);
+  if (JAVA_KINDS[node.type]) {
+    const inner = collector.define(node, node.childForFieldName('name'), JAVA_KINDS[node.type], scope, exported);
+    const members = bodyMembers(node).flatMap((member) =>
+      member.type === 'enum_body_declarations' ? member.namedChildren : [member],
+    );
+    collector.visitAll(members, inner);
+    return;
+  }
+  if (node.type === 'method_declaration' || node.type === 'constructor_declaration') {
+    collector.define(node, node.childForFieldName('name'), 'method', scope, exported);
+  } else if (node.type === 'field_declaration' && /\bstatic\b/.test(modifiers) && /\bfinal\b/.test(modifiers)) {
+    for (const declarator of node.childrenForFieldName('declarator')) {
+      collector.define(node, declarator.childForFieldName('name'), 'const', scope, exported);
+    }
+  }
+};
+
+const SYMBOL_VISITORS: Record<string, SymbolVisitor> = {
+  typescript: visitTypeScript,
+  tsx: visitTypeScript,
+  javascript: visitTypeScript,
+  python: visitPython,
+  go: visitGo,
+  rust: visitRust,
+  java: visitJava,
+};
+
+function calleeName(node: SyntaxNode | null): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (IDENTIFIER_TYPES.includes(node.type)) {
+    return node.text;
+  }
+  for (const field of CALLEE_FIELDS) {
+    const child = node.childForFieldName(field);
+    if (child) {
+      return calleeName(child);
+    }
+  }
+  return calleeName(node.namedChildren.find((child) => IDENTIFIER_TYPES.includes(child.type)) ?? null);
+}
+
+/** Calls inside function and method definitions, attributed to the innermost one. */
+function collectCalls(root: SyntaxNode, collector: SymbolCollector): SymbolCallSite[] {
+  const calls: SymbolCallSite[] = [];
+  for (const node of root.descendantsOfType(CALL_TYPES)) {
+    const callee = calleeName(node);
+    let caller: SymbolDefinitionSite | undefined;
+    for (let parent = node.parent; parent && !caller; parent = parent.parent) {
+      const definition = collector.nodes.get(`${parent.startIndex}:${parent.endIndex}`);
+      if (definition?.kind === 'function' || definition?.kind === 'method') {
+        caller = definition;
+      }
+    }
+    if (callee && caller) {
+      calls.push({
+        caller: caller.name,
+        ...(caller.container ? { callerContainer: caller.container } : {}),
+        callee,
+        line: node.startPosition.row + 1,
+        column: node.startPosition.column + 1,
+      });
+    }
+  }
+  return calls;
+}
+
+/** Definitions from line patterns and every identifier-like word as a reference. */
+function extractSymbolsWithPatterns(text: string): FileSymbols {
+  const definitions: SymbolDefinitionSite[] = [];
+  const references: SymbolReferenceSite[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    const defined = new Set<string>();
+    for (const { pattern, kind } of SYMBOL_PATTERNS) {
+      const name = line.match(pattern)?.[1];
+      if (name && !defined.has(name)) {
+        defined.add(name);
+        definitions.push({ name, kind, exported: /^\s*export\b/.test(line), line: index + 1, endLine: index + 1 });
+      }
+    }
+    for (const match of line.matchAll(/[A-Za-z_$][\w$]*/g)) {
+      if (!defined.delete(match[0])) {
+        references.push({ name: match[0], line: index + 1, column: match.index! + 1 });
+      }
+    }
+  });
+  return { definitions, references, calls: [] };
+}
+
+/**
+ * Definitions (with kind, container, export status and line range),
+ * identifier references and call sites of a file. TypeScript/JavaScript,
+ * Python, Go, Rust and Java are read from their syntax tree: only
+ * declarations at module, namespace and type level count, not locals inside
+ * function bodies. Other languages fall back to line patterns and record no
+ * calls.
+ */
+export async function extractFileSymbols(input: { text: string; path: string; language?: string }): Promise<FileSymbols> {
+  const grammarId = resolveSyntaxGrammar(input.language, input.path);
+  const visitor = grammarId ? SYMBOL_VISITORS[grammarId] : undefined;
+  if (!grammarId || !visitor || !(await syntaxParserRegistry.load(grammarId))) {
+    return extractSymbolsWithPatterns(input.text);
+  }
+  const tree = syntaxParserRegistry.parse(grammarId, input.text);
+  if (!tree) {
+    return extractSymbolsWithPatterns(input.text);
+  }
+  try {
+    const collector = new SymbolCollector(visitor);
+    collector.visitAll(tree.rootNode.namedChildren, { exported: grammarId === 'python' });
+    const references = tree.rootNode
+      .descendantsOfType(IDENTIFIER_TYPES)
+      .filter((node) => !collector.nameNodes.has(`${node.startPosition.row}:${node.startPosition.column}`))
+      .map((node) => ({ name: node.text, line: node.startPosition.row + 1, column: node.startPosition.column + 1 }));
+    return { definitions: collector.definitions, references, calls: collectCalls(tree.rootNode, collector) };
+  } finally {
+    tree.delete();
+  }
+}
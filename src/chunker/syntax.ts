@@ -0,0 +1,629 @@
+import { dirname, join } from 'node:path';
+import Parser = require('web-tree-sitter');
+import type { Tokenizer } from './types';
+
+type SyntaxNode = Parser.SyntaxNode;
+
+interface SyntaxGrammar {
+  /** Grammar file name inside tree-sitter-wasms/out, without the `tree-sitter-` prefix. */
+  wasm: string;
+  /** Node types that start their own chunk. */
+  declarations: string[];
+  /** Declarations whose members may be chunked individually when the whole node is too large. */
+  containers: string[];
+  /** Nodes that wrap a declaration (e.g. `export`, decorators) and should be named after it. */
+  wrappers?: Record<string, string>;
+}
+
+const JS_DECLARATIONS = [
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+  'method_definition',
+  'lexical_declaration',
+  'variable_declaration',
+];
+
+const TS_DECLARATIONS = [
+  ...JS_DECLARATIONS,
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'internal_module',
+  'module',
+  'abstract_method_signature',
+];
+
+const GRAMMARS: Record<string, SyntaxGrammar> = {
+  typescript: {
+    wasm: 'typescript',
+    declarations: TS_DECLARATIONS,
+    containers: ['class_declaration', 'abstract_class_declaration', 'internal_module', 'module'],
+    wrappers: { export_statement: 'declaration' },
+  },
+  tsx: {
+    wasm: 'tsx',
+    declarations: TS_DECLARATIONS,
+    containers: ['class_declaration', 'abstract_class_declaration', 'internal_module', 'module'],
+    wrappers: { export_statement: 'declaration' },
+  },
+  javascript: {
+    wasm: 'javascript',
+    declarations: JS_DECLARATIONS,
+    containers: ['class_declaration'],
+    wrappers: { export_statement: 'declaration' },
+  },
+  python: {
+    wasm: 'python',
+    declarations: ['function_definition', 'class_definition'],
+    containers: ['class_definition'],
+    wrappers: { decorated_definition: 'definition' },
+  },
+  go: {
+    wasm: 'go',
+    declarations: ['function_declaration', 'method_declaration', 'type_declaration', 'const_declaration', 'var_declaration'],
+    containers: [],
+  },
+  rust: {
+    wasm: 'rust',
+    declarations: [
+      'function_item',
+      'struct_item',
+      'enum_item',
+      'union_item',
+      'impl_item',
+      'trait_item',
+      'mod_item',
+      'macro_definition',
+      'const_item',
+      'static_item',
+      'type_item',
+    ],
+    containers: ['impl_item', 'trait_item', 'mod_item'],
+  },
+  java: {
+    wasm: 'java',
+    declarations: [
+      'class_declaration',
+      'interface_declaration',
+      'enum_declaration',
+      'record_declaration',
+      'annotation_type_declaration',
+      'method_declaration',
+      'constructor_declaration',
+    ],
+    containers: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+  },
+  kotlin: {
+    wasm: 'kotlin',
+    declarations: ['class_declaration', 'object_declaration', 'function_declaration'],
+    containers: ['class_declaration', 'object_declaration'],
+  },
+  c_sharp: {
+    wasm: 'c_sharp',
+    declarations: [
+      'namespace_declaration',
+      'class_declaration',
+      'interface_declaration',
+      'struct_declaration',
+      'enum_declaration',
+      'record_declaration',
+      'method_declaration',
+      'constructor_declaration',
+      'property_declaration',
+    ],
+    containers: ['namespace_declaration', 'class_declaration', 'interface_declaration', 'struct_declaration', 'record_declaration'],
+  },
+  c: {
+    wasm: 'c',
+    declarations: ['function_definition', 'struct_specifier', 'enum_specifier', 'union_specifier', 'type_definition'],
+    containers: [],
+  },
+  cpp: {
+    wasm: 'cpp',
+    declarations: [
+      'function_definition',
+      'class_specifier',
+      'struct_specifier',
+      'enum_specifier',
+      'namespace_definition',
+      'template_declaration',
+    ],
+    containers: ['class_specifier', 'struct_specifier', 'namespace_definition'],
+  },
+  ruby: {
+    wasm: 'ruby',
+    declarations: ['method', 'singleton_method', 'class', 'module'],
+    containers: ['class', 'module'],
+  },
+  php: {
+    wasm: 'php',
+    declarations: [
+      'function_definition',
+      'class_declaration',
+      'interface_declaration',
+      'trait_declaration',
+      'enum_declaration',
+      'method_declaration',
+    ],
+    containers: ['class_declaration', 'interface_declaration', 'trait_declaration', 'enum_declaration'],
+  },
+  scala: {
+    wasm: 'scala',
+    declarations: ['class_definition', 'object_definition', 'trait_definition', 'function_definition'],
+    containers: ['class_definition', 'object_definition', 'trait_definition'],
+  },
+  swift: {
+    wasm: 'swift',
+    declarations: ['class_declaration', 'protocol_declaration', 'function_declaration'],
+    containers: ['class_declaration', 'protocol_declaration'],
+  },
+  lua: {
+    wasm: 'lua',
+    declarations: ['function_declaration'],
+    containers: [],
+  },
+};
+
+const LANGUAGE_GRAMMARS: Record<string, string> = {
+  typescript: 'typescript',
+  javascript: 'javascript',
+  python: 'python',
+  go: 'go',
+  rust: 'rust',
+  java: 'java',
+  kotlin: 'kotlin',
+  'c#': 'c_sharp',
+  c: 'c',
+  'c++': 'cpp',
+  ruby: 'ruby',
+  php: 'php',
+  scala: 'scala',
+  swift: 'swift',
+  lua: 'lua',
+};
+
+const KIND_LABELS: Record<string, string> = {
+  lexical_declaration: 'const',
+  variable_declaration: 'var',
+  internal_module: 'namespace',
+  method_definition: 'method',
+  abstract_method_signature: 'method',
+  singleton_method: 'method',
+  impl_item: 'impl',
+  mod_item: 'mod',
+  function_item: 'fn',
+};
+
+const NAME_NODE_TYPES = new Set([
+  'identifier',
+  'type_identifier',
+  'field_identifier',
+  'property_identifier',
+  'simple_identifier',
+  'constant',
+  'name',
+]);
+
+export interface SyntaxSignature {
+  /** Line the declaration starts on, after any leading comments. */
+  line: number;
+  /** First line of the declaration, e.g. `export class Foo extends Bar`. */
+  text: string;
+}
+
+export interface SyntaxBlock {
+  startLine: number;
+  endLine: number;
+  /** Enclosing scopes from outermost to the declaration itself, e.g. ['class Foo', 'method bar']. */
+  scope: string[];
+  /** Signatures matching `scope`, used to label pieces that start inside a declaration. */
+  signatures: SyntaxSignature[];
+}
+
+/** Decides whether a line range is small enough to stay whole instead of being split into its members. */
+export type SyntaxBlockFits = (startLine: number, endLine: number) => boolean;
+
+/**
+ * Picks the bundled grammar for a file, or undefined when the language has no
+ * syntax support and callers should fall back to line-based chunking.
+ */
+export function resolveSyntaxGrammar(language?: string, path?: string): string | undefined {
+  if (path?.toLowerCase().endsWith('.tsx')) {
+    return 'tsx';
+  }
+  return language ? LANGUAGE_GRAMMARS[language.toLowerCase()] : undefined;
+}
+
+function grammarDirectory(): string {
+  return join(dirname(require.resolve('tree-sitter-wasms/package.json')), 'out');
+}
+
+/**
+ * Loads tree-sitter grammars (WASM) on demand. Loading is asynchronous while
+ * chunking is not, so grammars must be loaded before a file is chunked.
+ */
+export class SyntaxParserRegistry {
+  private runtime?: Promise<void>;
+  private readonly parsers = new Map<string, Promise<Parser | undefined>>();
+  private readonly ready = new Map<string, Parser>();
+
+  async load(grammarId: string): Promise<boolean> {
+    const grammar = GRAMMARS[grammarId];
+    if (!grammar) {
+      return false;
+    }
+    let pending = this.parsers.get(grammarId);
+    if (!pending) {
+      pending = this.createParser(grammar).then(
+        (parser) => {
+          this.ready.set(grammarId, parser);
+          return parser;
+        },
+        (error: Error) => {
+          console.warn(`Failed to load ${grammarId} grammar, falling back to line chunking: ${error.message}`);
+          return undefined;
+        },
+      );
+      this.parsers.set(grammarId, pending);
+    }
+    return Boolean(await pending);
+  }
+
+  isLoaded(grammarId: string): boolean {
+    return this.ready.has(grammarId);
+  }
+
+  parse(grammarId: string, text: string): Parser.Tree | undefined {
+    return this.ready.get(grammarId)?.parse(text);
+  }
+
+  private async createParser(grammar: SyntaxGrammar): Promise<Parser> {
+    if (!this.runtime) {
+      this.runtime = Parser.init();
+    }
+    await this.runtime;
+    const language = await Parser.Language.load(join(grammarDirectory(), `tree-sitter-${grammar.wasm}.wasm`));
+    const parser = new Parser();
+    parser.setLanguage(language);
+    return parser;
+  }
+}
+
+export const syntaxParserRegistry = new SyntaxParserRegistry();
+
+function findName(node: SyntaxNode, depth = 0): string | undefined {
+  const field = node.childForFieldName('name') ?? node.childForFieldName('declarator');
+  if (field) {
+    return NAME_NODE_TYPES.has(field.type) ? field.text : findName(field, depth + 1) ?? field.text;
+  }
+  if (depth > 2) {
+    return undefined;
+  }
+  for (const child of node.namedChildren) {
+    if (NAME_NODE_TYPES.has(child.type)) {
+      return child.text;
+    }
+    if (/declarator|spec$/.test(child.type)) {
+      const nested = findName(child, depth + 1);
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return undefined;
+}
+
+function describeDeclaration(node: SyntaxNode): string {
+  const kind = KIND_LABELS[node.type] ?? node.type.replace(/_(declaration|definition|item|specifier)$/, '').replace(/_/g, ' ');
+  const implType = node.type === 'impl_item' ? node.childForFieldName('type')?.text : undefined;
+  const name = implType ?? findName(node);
+  return name ? `${kind} ${name}` : kind;
+}
+
+function signatureOf(node: SyntaxNode, declaration: SyntaxNode): SyntaxSignature {
+  // Keep `export` and similar wrappers, but not decorators on their own lines.
+  const head = node.startPosition.row === declaration.startPosition.row ? node : declaration;
+  const firstLine = head.text.split('\n', 1)[0] ?? '';
+  return { line: head.startPosition.row + 1, text: firstLine.replace(/\s*\{\s*$/, '').trim() };
+}
+
+/** The declaration a node holds, looking through wrappers such as `export` and decorators. */
+function unwrapDeclaration(grammar: SyntaxGrammar, node: SyntaxNode): SyntaxNode | undefined {
+  const wrappedField = grammar.wrappers?.[node.type];
+  if (wrappedField) {
+    const inner = node.childForFieldName(wrappedField);
+    return inner ? unwrapDeclaration(grammar, inner) : undefined;
+  }
+  return grammar.declarations.includes(node.type) ? node : undefined;
+}
+
+function findBody(node: SyntaxNode): SyntaxNode[] {
+  const body =
+    node.childForFieldName('body') ??
+    node.namedChildren.find((child) => /body$|declaration_list$|^block$/.test(child.type));
+  return body ? body.namedChildren : node.namedChildren;
+}
+
+class SyntaxBlockCollector {
+  constructor(
+    private readonly grammar: SyntaxGrammar,
+    private readonly fits: SyntaxBlockFits,
+  ) {}
+
+  collect(nodes: SyntaxNode[], scope: string[], signatures: SyntaxSignature[]): SyntaxBlock[] {
+    const blocks: SyntaxBlock[] = [];
+    let run: { startLine: number; endLine: number } | undefined;
+    let commentStart: number | undefined;
+
+    const flushRun = () => {
+      if (run) {
+        blocks.push({ ...run, scope, signatures });
+        run = undefined;
+      }
+    };
+
+    for (const node of nodes) {
+      const startLine = node.startPosition.row + 1;
+      const endLine = node.endPosition.row + 1;
+      if (node.type.includes('comment')) {
+        commentStart = commentStart ?? startLine;
+        continue;
+      }
+      const declaration = this.unwrap(node);
+      if (!declaration) {
+        run = { startLine: run?.startLine ?? commentStart ?? startLine, endLine };
+        commentStart = undefined;
+        continue;
+      }
+      flushRun();
+      const block: SyntaxBlock = {
+        startLine: commentStart ?? startLine,
+        endLine,
+        scope: [...scope, describeDeclaration(declaration)],
+        signatures: [...signatures, signatureOf(node, declaration)],
+      };
+      commentStart = undefined;
+      blocks.push(...this.expand(declaration, block));
+    }
+    if (commentStart !== undefined) {
+      const last = nodes[nodes.length - 1];
+      run = { startLine: run?.startLine ?? commentStart, endLine: last.endPosition.row + 1 };
+    }
+    flushRun();
+    return blocks;
+  }
+
+  private unwrap(node: SyntaxNode): SyntaxNode | undefined {
+    return unwrapDeclaration(this.grammar, node);
+  }
+
+  /** Splits an oversized container into its members, keeping header and closing lines attached. */
+  private expand(declaration: SyntaxNode, block: SyntaxBlock): SyntaxBlock[] {
+    if (
+      !this.grammar.containers.includes(declaration.type) ||
+      this.fits(block.startLine, block.endLine)
+    ) {
+      return [block];
+    }
+    const members = findBody(declaration);
+    if (!members.some((member) => this.unwrap(member))) {
+      return [block];
+    }
+    const inner = this.collect(members, block.scope, block.signatures);
+    if (inner.length === 0) {
+      return [block];
+    }
+    inner[0] = { ...inner[0], startLine: Math.min(inner[0].startLine, block.startLine) };
+    const last = inner[inner.length - 1];
+    inner[inner.length - 1] = { ...last, endLine: Math.max(last.endLine, block.endLine) };
+    return inner;
+  }
+}
+
+function mergeOverlapping(blocks: SyntaxBlock[]): SyntaxBlock[] {
+  const sorted = blocks.slice().sort((a, b) => a.startLine - b.startLine);
+  const merged: SyntaxBlock[] = [];
+  for (const block of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && block.startLine <= previous.endLine) {
+      previous.endLine = Math.max(previous.endLine, block.endLine);
+      continue;
+    }
+    merged.push({ ...block });
+  }
+  return merged;
+}
+
+/**
+ * Parses a file with its bundled grammar and returns one block per top-level
+ * declaration (descending into classes/modules longer than `limit` lines, or
+ * for which the `limit` predicate returns false), plus
+ * blocks for module-level code between declarations. Leading comments stay
+ * with the declaration they document. Returns undefined when the grammar is
+ * unavailable or the file contains no declarations.
+ */
+export function extractSyntaxBlocks(
+  input: { text: string; path: string; language?: string },
+  limit: number | SyntaxBlockFits,
+): SyntaxBlock[] | undefined {
+  const grammarId = resolveSyntaxGrammar(input.language, input.path);
+  if (!grammarId || !syntaxParserRegistry.isLoaded(grammarId)) {
+    return undefined;
+  }
+  const tree = syntaxParserRegistry.parse(grammarId, input.text);
+  if (!tree) {
+    return undefined;
+  }
+  try {
+    const fits: SyntaxBlockFits =
+      typeof limit === 'number' ? (startLine, endLine) => endLine - startLine + 1 <= limit : limit;
+    const collector = new SyntaxBlockCollector(GRAMMARS[grammarId], fits);
+    const blocks = collector.collect(tree.rootNode.namedChildren, [], []);
+    if (!blocks.some((block) => block.scope.length > 0)) {
+      return undefined;
+    }
+    return mergeOverlapping(blocks);
+  } finally {
+    tree.delete();
+  }
+}
+
+export interface FileSkeleton {
+  /** Declarations and signatures with function bodies elided. */
+  text: string;
+  /** Source line number of each line of `text`. */
+  lineMap: number[];
+  tokenCount: number;
+}
+
+/** Top-level statements kept in skeletons besides declarations. */
+const SKELETON_STATEMENTS = new Set(['package_clause', 'package_declaration', 'package_header']);
+
+const FUNCTION_BODY_TYPES = /^(block|statement_block|compound_statement|body_statement|function_body|constructor_body)$/;
+
+class SkeletonRenderer {
+  readonly lines: Array<{ line: number; text: string }> = [];
+  private readonly source: string[];
+
+  constructor(
+    private readonly grammar: SyntaxGrammar,
+    text: string,
+  ) {
+    this.source = text.split('\n');
+  }
+
+  render(nodes: SyntaxNode[], members: boolean): void {
+    for (const node of nodes) {
+      if (node.type.includes('comment')) {
+        continue;
+      }
+      const declaration = unwrapDeclaration(this.grammar, node);
+      if (!declaration) {
+        if (members) {
+          this.member(node);
+        } else if (SKELETON_STATEMENTS.has(node.type)) {
+          this.emit(node.startPosition.row, node.endPosition.row);
+        }
+      } else if (this.grammar.containers.includes(declaration.type)) {
+        this.container(node, declaration);
+      } else if (/function|method|constructor/.test(declaration.type)) {
+        this.signature(node, this.functionBody(declaration));
+      } else if (declaration.type === 'lexical_declaration' || declaration.type === 'variable_declaration') {
+        this.variable(node, declaration);
+      } else {
+        this.emit(node.startPosition.row, node.endPosition.row);
+      }
+    }
+  }
+
+  /** Header line(s), the members with their bodies elided, then the closing line. */
+  private container(node: SyntaxNode, declaration: SyntaxNode): void {
+    const body =
+      declaration.childForFieldName('body') ??
+      declaration.namedChildren.find((child) => /body$|declaration_list$|^block$/.test(child.type));
+    if (!body || body.startPosition.row === body.endPosition.row) {
+      this.emit(node.startPosition.row, node.endPosition.row);
+      return;
+    }
+    const braced = body.text.startsWith('{');
+    this.emit(node.startPosition.row, body.startPosition.row, body.startPosition.column + (braced ? 1 : 0));
+    this.render(body.namedChildren, true);
+    if (braced) {
+      this.emit(body.endPosition.row, body.endPosition.row);
+    }
+  }
+
+  private signature(node: SyntaxNode, body: SyntaxNode | undefined): void {
+    if (!body) {
+      this.emit(node.startPosition.row, node.endPosition.row);
+      return;
+    }
+    const suffix = body.text.startsWith('{') ? ' { ... }' : ' ...';
+    this.emit(node.startPosition.row, body.startPosition.row, body.startPosition.column, suffix);
+  }
+
+  /** Keeps one-line declarations; longer ones lose their initializer or function body. */
+  private variable(node: SyntaxNode, declaration: SyntaxNode): void {
+    const value = declaration.namedChildren
+      .find((child) => child.type === 'variable_declarator')
+      ?.childForFieldName('value');
+    if (node.startPosition.row === node.endPosition.row || !value) {
+      this.emit(node.startPosition.row, node.endPosition.row);
+      return;
+    }
+    const body = /function|arrow/.test(value.type) ? value.childForFieldName('body') : undefined;
+    if (body) {
+      this.signature(node, body);
+      return;
+    }
+    this.emit(node.startPosition.row, value.startPosition.row, value.startPosition.column, ' ...');
+  }
+
+  /** Fields, enum constants and other non-declaration members; Python docstrings are dropped. */
+  private member(node: SyntaxNode): void {
+    if (node.type === 'expression_statement' && node.firstNamedChild?.type === 'string') {
+      return;
+    }
+    if (node.startPosition.row === node.endPosition.row) {
+      this.emit(node.startPosition.row, node.startPosition.row);
+      return;
+    }
+    this.emit(node.startPosition.row, node.startPosition.row, undefined, ' ...');
+  }
+
+  private functionBody(declaration: SyntaxNode): SyntaxNode | undefined {
+    return (
+      declaration.childForFieldName('body') ??
+      declaration.namedChildren.find((child) => FUNCTION_BODY_TYPES.test(child.type))
+    );
+  }
+
+  /** Copies source rows `from`..`to`, cutting the last one at `column` and appending `suffix`. */
+  private emit(from: number, to: number, column?: number, suffix = ''): void {
+    const emitted = this.lines[this.lines.length - 1]?.line ?? 0;
+    const rows: Array<{ line: number; text: string }> = [];
+    for (let row = Math.max(from, emitted); row <= to; row += 1) {
+      const line = this.source[row] ?? '';
+      rows.push({ line: row + 1, text: (row === to && column !== undefined ? line.slice(0, column) : line).trimEnd() });
+    }
+    while (rows.length > 0 && rows[rows.length - 1].text.trim() === '') {
+      rows.pop();
+    }
+    if (rows.length === 0) {
+      return;
+    }
+    rows[rows.length - 1].text += suffix;
+    this.lines.push(...rows);
+  }
+}
+
+/**
+ * Reduces a file to its declarations: classes and their members, exported
+ * types and function signatures, with function bodies replaced by `{ ... }`
+ * (or `...` in indentation-based languages), long initializers elided and
+ * comments and imports dropped. Each line keeps its source line number.
+ * Returns undefined when the file's grammar is not loaded.
+ */
+export function extractSkeleton(
+  input: { text: string; path: string; language?: string },
+  tokenizer: Tokenizer,
+): FileSkeleton | undefined {
+  const grammarId = resolveSyntaxGrammar(input.language, input.path);
+  if (!grammarId || !syntaxParserRegistry.isLoaded(grammarId)) {
+    return undefined;
+  }
+  const tree = syntaxParserRegistry.parse(grammarId, input.text);
+  if (!tree) {
+    return undefined;
+  }
+  try {
+    const renderer = new SkeletonRenderer(GRAMMARS[grammarId], input.text);
+    renderer.render(tree.rootNode.namedChildren, false);
+    const text = renderer.lines.map((line) => line.text).join('\n');
+    return { text, lineMap: renderer.lines.map((line) => line.line), tokenCount: tokenizer.count(text) };
+  } finally {
+    tree.delete();
+  }
+}
@@ -0,0 +1,493 @@
+import { readFileSync } from 'node:fs';
+import { basename, extname } from 'node:path';
+import { LocalTokenizerOptions, Tokenizer, TokenizerEncodeResult } from '../types';
+import { TokenizerRegistry, tokenizerRegistry } from './registry';
+
+const CONTRACTIONS = "'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])";
+const GPT2_PATTERN = "'(?:[sdmt]|ll|ve|re)| ?\\p{L}+| ?\\p{N}+| ?[^\\s\\p{L}\\p{N}]+|\\s+(?!\\S)|\\s+";
+const UPPER = '[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]';
+const LOWER = '[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]';
+
+/** Pre-tokenization patterns of the tiktoken encodings, keyed by encoding name. */
+const TIKTOKEN_PATTERNS: Record<string, string> = {
+  gpt2: GPT2_PATTERN,
+  r50k_base: GPT2_PATTERN,
+  p50k_base: GPT2_PATTERN,
+  p50k_edit: GPT2_PATTERN,
+  cl100k_base: [
+    CONTRACTIONS,
+    '[^\\r\\n\\p{L}\\p{N}]?\\p{L}+',
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+  o200k_base: [
+    `[^\\r\\n\\p{L}\\p{N}]?${UPPER}*${LOWER}+(?:${CONTRACTIONS})?`,
+    `[^\\r\\n\\p{L}\\p{N}]?${UPPER}+${LOWER}*(?:${CONTRACTIONS})?`,
+    '\\p{N}{1,3}',
+    ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+    '\\s*[\\r\\n]+',
+    '\\s+(?!\\S)',
+    '\\s+',
+  ].join('|'),
+};
+
+const METASPACE = '▁';
+const BYTE_FALLBACK_TOKEN = /^<0x([0-9A-Fa-f]{2})>$/;
+const PIECE_CACHE_LIMIT = 50_000;
+
+interface Piece {
+  text: string;
+  start: number;
+}
+
+interface EncodedPiece {
+  ids: number[];
+  /** Symbols (bytes, or code points for Metaspace models) covered by each id. */
+  lengths: number[];
+}
+
+interface BpeModel {
+  /** Token id per symbol string; byte-level symbols are latin1 strings of raw bytes. */
+  vocab: Map<string, number>;
+  /** Merge rank per pair (see `mergeKey`); tiktoken files rank merges by the merged token id instead. */
+  merges?: Map<string, number>;
+  byteLevel: boolean;
+  pattern?: RegExp;
+  /** Metaspace models replace spaces with `▁`, optionally prefixing the first word. */
+  metaspace?: { prefix: boolean };
+  ignoreMerges?: boolean;
+  byteFallback?: boolean;
+  unknownId?: number;
+}
+
+/**
+ * Rewrites Python-style inline `(?i:...)` groups, which JavaScript regexes
+ * lack, into explicit upper/lower case letter classes.
+ */
+function expandInlineCaseInsensitive(pattern: string): string {
+  let result = '';
+  let index = 0;
+  while (index < pattern.length) {
+    if (pattern.startsWith('(?i:', index)) {
+      let depth = 1;
+      let cursor = index + 4;
+      let inner = '';
+      while (cursor < pattern.length) {
+        const char = pattern[cursor];
+        if (char === '\\') {
+          inner += pattern.slice(cursor, cursor + 2);
+          cursor += 2;
+          continue;
+        }
+        if (char === '(') {
+          depth += 1;
+        } else if (char === ')') {
+          depth -= 1;
+          if (depth === 0) {
+            break;
+          }
+        }
+        inner += char;
+        cursor += 1;
+      }
+      const folded = inner.replace(/\\.|\[[^\]]*\]|[a-zA-Z]/g, (match) =>
+        match.length === 1 ? `[${match.toLowerCase()}${match.toUpperCase()}]` : match,
+      );
+      result += `(?:${folded})`;
+      index = cursor + 1;
+    } else if (pattern[index] === '\\') {
+      result += pattern.slice(index, index + 2);
+      index += 2;
+    } else {
+      result += pattern[index];
+      index += 1;
+    }
+  }
+  return result;
+}
+
+/** Byte-level symbols may contain spaces, so pairs are keyed by the left length rather than a separator. */
+function mergeKey(left: string, right: string): string {
+  return `${left.length}:${left}${right}`;
+}
+
+function compilePattern(pattern: string): RegExp {
+  return new RegExp(expandInlineCaseInsensitive(pattern), 'gu');
+}
+
+/** GPT-2's reversible mapping of bytes to printable characters, as used by byte-level `tokenizer.json` vocabularies. */
+function byteLevelAlphabet(): Map<string, number> {
+  const bytes: number[] = [];
+  for (let byte = 0; byte < 256; byte += 1) {
+    if ((byte >= 33 && byte <= 126) || (byte >= 161 && byte <= 172) || byte >= 174) {
+      bytes.push(byte);
+    }
+  }
+  const alphabet = new Map<string, number>();
+  bytes.forEach((byte) => alphabet.set(String.fromCharCode(byte), byte));
+  let shifted = 0;
+  for (let byte = 0; byte < 256; byte += 1) {
+    if (!bytes.includes(byte)) {
+      alphabet.set(String.fromCharCode(256 + shifted), byte);
+      shifted += 1;
+    }
+  }
+  return alphabet;
+}
+
+/**
+ * Byte-pair encoder over a local vocabulary. Text is split into pieces by the
+ * pre-tokenization regex, each piece is merged independently from single
+ * symbols by lowest rank, and every token keeps the UTF-16 offsets of the text
+ * it covers. Special tokens are not recognised; they encode as ordinary text.
+ */
+export class BpeTokenizer implements Tokenizer {
+  private readonly cache = new Map<string, EncodedPiece>();
+  private readonly decoder = new Map<number, string>();
+
+  constructor(
+    readonly id: string,
+    readonly version: string,
+    private readonly model: BpeModel,
+    readonly maxTokens?: number,
+  ) {
+    for (const [symbol, tokenId] of model.vocab) {
+      this.decoder.set(tokenId, symbol);
+    }
+  }
+
+  count(text: string): number {
+    return this.encode(text).count;
+  }
+
+  encode(text: string): TokenizerEncodeResult {
+    const tokens: number[] = [];
+    const offsets: Array<{ start: number; end: number }> = [];
+    for (const piece of this.pieces(text)) {
+      if (this.model.byteLevel) {
+        this.encodeBytePiece(piece, tokens, offsets);
+      } else {
+        this.encodeMetaspacePiece(piece, tokens, offsets);
+      }
+    }
+    return { tokens, count: tokens.length, offsets };
+  }
+
+  decode(tokens: number[]): string {
+    const bytes: number[] = [];
+    for (const token of tokens) {
+      const symbol = this.decoder.get(token);
+      if (symbol === undefined) {
+        continue;
+      }
+      if (this.model.byteLevel) {
+        bytes.push(...Buffer.from(symbol, 'latin1'));
+        continue;
+      }
+      const fallback = this.model.byteFallback ? BYTE_FALLBACK_TOKEN.exec(symbol) : null;
+      bytes.push(...(fallback ? [parseInt(fallback[1], 16)] : Buffer.from(symbol.split(METASPACE).join(' '), 'utf8')));
+    }
+    const text = Buffer.from(bytes).toString('utf8');
+    return this.model.metaspace?.prefix && text.startsWith(' ') ? text.slice(1) : text;
+  }
+
+  private *pieces(text: string): Generator<Piece> {
+    if (!this.model.pattern) {
+      // Metaspace: every word owns the space before it.
+      for (const match of text.matchAll(/ ?[^ ]+| /g)) {
+        yield { text: match[0], start: match.index ?? 0 };
+      }
+      return;
+    }
+    let cursor = 0;
+    for (const match of text.matchAll(this.model.pattern)) {
+      const start = match.index ?? 0;
+      if (match[0].length === 0) {
+        continue;
+      }
+      if (start > cursor) {
+        yield { text: text.slice(cursor, start), start: cursor };
+      }
+      yield { text: match[0], start };
+      cursor = start + match[0].length;
+    }
+    if (cursor < text.length) {
+      yield { text: text.slice(cursor), start: cursor };
+    }
+  }
+
+  private rank(left: string, right: string): number | undefined {
+    return this.model.merges ? this.model.merges.get(mergeKey(left, right)) : this.model.vocab.get(left + right);
+  }
+
+  /** Repeatedly merges the adjacent pair with the lowest rank until none can merge. */
+  private merge(symbols: string[]): string[] {
+    const parts = symbols.slice();
+    for (;;) {
+      let best = Infinity;
+      let at = -1;
+      for (let index = 0; index < parts.length - 1; index += 1) {
+        const rank = this.rank(parts[index], parts[index + 1]);
+        if (rank !== undefined && rank < best) {
+          best = rank;
+          at = index;
+        }
+      }
+      if (at < 0) {
+        return parts;
+      }
+      parts.splice(at, 2, parts[at] + parts[at + 1]);
+    }
+  }
+
+  private cached(key: string, encode: () => EncodedPiece): EncodedPiece {
+    const hit = this.cache.get(key);
+    if (hit) {
+      return hit;
+    }
+    if (this.cache.size >= PIECE_CACHE_LIMIT) {
+      this.cache.clear();
+    }
+    const encoded = encode();
+    this.cache.set(key, encoded);
+    return encoded;
+  }
+
+  private encodeBytePiece(piece: Piece, tokens: number[], offsets: Array<{ start: number; end: number }>): void {
+    const bytes = Buffer.from(piece.text, 'utf8');
+    const symbols = bytes.toString('latin1');
+    const encoded = this.cached(symbols, () => {
+      const direct = this.model.merges === undefined || this.model.ignoreMerges ? this.model.vocab.get(symbols) : undefined;
+      if (direct !== undefined) {
+        return { ids: [direct], lengths: [symbols.length] };
+      }
+      const ids: number[] = [];
+      const lengths: number[] = [];
+      for (const part of this.merge([...symbols])) {
+        ids.push(this.model.vocab.get(part) ?? this.model.unknownId ?? -1);
+        lengths.push(part.length);
+      }
+      return { ids, lengths };
+    });
+
+    // Map byte positions back to UTF-16 offsets; a token ending mid-character covers the whole character.
+    const charStart: number[] = [];
+    const charEnd: number[] = [];
+    let offset = 0;
+    for (const char of piece.text) {
+      const width = Buffer.byteLength(char, 'utf8');
+      for (let byte = 0; byte < width; byte += 1) {
+        charStart.push(offset);
+        charEnd.push(offset + char.length);
+      }
+      offset += char.length;
+    }
+    let byte = 0;
+    encoded.ids.forEach((id, index) => {
+      const end = byte + encoded.lengths[index];
+      tokens.push(id);
+      offsets.push({ start: piece.start + charStart[byte], end: piece.start + charEnd[end - 1] });
+      byte = end;
+    });
+  }
+
+  private encodeMetaspacePiece(piece: Piece, tokens: number[], offsets: Array<{ start: number; end: number }>): void {
+    const symbols: string[] = [];
+    const spans: Array<{ start: number; end: number }> = [];
+    if (piece.start === 0 && this.model.metaspace?.prefix && !piece.text.startsWith(' ')) {
+      symbols.push(METASPACE);
+      spans.push({ start: 0, end: 0 });
+    }
+    let offset = piece.start;
+    for (const char of piece.text) {
+      symbols.push(char === ' ' ? METASPACE : char);
+      spans.push({ start: offset, end: offset + char.length });
+      offset += char.length;
+    }
+
+    const encoded = this.cached(symbols.join(''), () => {
+      const ids: number[] = [];
+      const lengths: number[] = [];
+      for (const part of this.merge(symbols)) {
+        const width = [...part].length;
+        const id = this.model.vocab.get(part);
+        if (id !== undefined) {
+          ids.push(id);
+          lengths.push(width);
+          continue;
+        }
+        const fallback = this.model.byteFallback
+          ? [...Buffer.from(part, 'utf8')].map((value) =>
+              this.model.vocab.get(`<0x${value.toString(16).toUpperCase().padStart(2, '0')}>`),
+            )
+          : [];
+        if (fallback.length > 0 && fallback.every((value) => value !== undefined)) {
+          // Every byte token covers the whole part; only the first one consumes its symbols.
+          fallback.forEach((value, index) => {
+            ids.push(value as number);
+            lengths.push(index === 0 ? width : 0);
+          });
+        } else {
+          ids.push(this.model.unknownId ?? -1);
+          lengths.push(width);
+        }
+      }
+      return { ids, lengths };
+    });
+
+    let symbol = 0;
+    let partStart = 0;
+    encoded.ids.forEach((id, index) => {
+      const length = encoded.lengths[index];
+      if (length > 0) {
+        partStart = symbol;
+        symbol += length;
+      }
+      tokens.push(id);
+      offsets.push({ start: spans[partStart].start, end: spans[symbol - 1].end });
+    });
+  }
+}
+
+function loadTiktokenModel(path: string, options: LocalTokenizerOptions, encoding: string): BpeModel {
+  const pattern = options.pattern ?? TIKTOKEN_PATTERNS[encoding];
+  if (!pattern) {
+    throw new Error(`Unknown tiktoken encoding "${encoding}"; set "pattern" for tokenizer "${options.id}"`);
+  }
+  const vocab = new Map<string, number>();
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    const [token, rank] = line.trim().split(/\s+/);
+    if (!token || rank === undefined) {
+      continue;
+    }
+    vocab.set(Buffer.from(token, 'base64').toString('latin1'), Number(rank));
+  }
+  return { vocab, byteLevel: true, pattern: compilePattern(pattern) };
+}
+
+interface HuggingFaceComponent {
+  type?: string;
+  pattern?: { Regex?: string; String?: string };
+  use_regex?: boolean;
+  add_prefix_space?: boolean;
+  prepend_scheme?: string;
+  content?: string;
+  prepend?: string;
+  pretokenizers?: HuggingFaceComponent[];
+  normalizers?: HuggingFaceComponent[];
+}
+
+interface HuggingFaceTokenizer {
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    merges?: Array<string | [string, string]>;
+    unk_token?: string | null;
+    byte_fallback?: boolean;
+    ignore_merges?: boolean;
+  };
+  normalizer?: HuggingFaceComponent | null;
+  pre_tokenizer?: HuggingFaceComponent | null;
+  decoder?: HuggingFaceComponent | null;
+}
+
+function flatten(component: HuggingFaceComponent | null | undefined): HuggingFaceComponent[] {
+  if (!component) {
+    return [];
+  }
+  const nested = component.pretokenizers ?? component.normalizers;
+  return nested ? nested.flatMap(flatten) : [component];
+}
+
+function loadHuggingFaceModel(path: string): BpeModel {
+  const json = JSON.parse(readFileSync(path, 'utf8')) as HuggingFaceTokenizer;
+  const model = json.model;
+  if (!model || model.type !== 'BPE' || !model.vocab) {
+    throw new Error(`Unsupported tokenizer.json model "${model?.type ?? 'unknown'}"; only BPE models are supported`);
+  }
+  const preTokenizers = flatten(json.pre_tokenizer);
+  const normalizers = flatten(json.normalizer);
+  const byteLevel =
+    preTokenizers.some((component) => component.type === 'ByteLevel') || json.decoder?.type === 'ByteLevel';
+  const metaspace = preTokenizers.find((component) => component.type === 'Metaspace');
+  const replacesSpaces = normalizers.some((component) => component.type === 'Replace' && component.content === METASPACE);
+  if (!byteLevel && !metaspace && !replacesSpaces) {
+    throw new Error('Unsupported tokenizer.json pre-tokenizer; only byte-level and Metaspace BPE models are supported');
+  }
+
+  // Byte-level vocabularies spell bytes with printable characters; store them as raw latin1 bytes instead.
+  const alphabet = byteLevel ? byteLevelAlphabet() : undefined;
+  const toSymbol = (token: string) =>
+    alphabet
+      ? [...token]
+          .map((char) => {
+            const byte = alphabet.get(char);
+            return byte === undefined ? char : String.fromCharCode(byte);
+          })
+          .join('')
+      : token;
+
+  const vocab = new Map<string, number>();
+  for (const [token, id] of Object.entries(model.vocab)) {
+    vocab.set(toSymbol(token), id);
+  }
+  const merges = new Map<string, number>();
+  (model.merges ?? []).forEach((merge, rank) => {
+    const [left, right] = Array.isArray(merge) ? merge : merge.split(' ');
+    if (left !== undefined && right !== undefined) {
+      merges.set(mergeKey(toSymbol(left), toSymbol(right)), rank);
+    }
+  });
+
+  const split = preTokenizers.find((component) => component.type === 'Split');
+  const splitPattern = split?.pattern?.Regex ?? split?.pattern?.String?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const prefix =
+    metaspace !== undefined
+      ? (metaspace.prepend_scheme ?? (metaspace.add_prefix_space === false ? 'never' : 'always')) !== 'never'
+      : normalizers.some((component) => component.type === 'Prepend' && component.prepend === METASPACE);
+
+  return {
+    vocab,
+    merges,
+    byteLevel,
+    pattern: byteLevel ? compilePattern(splitPattern ?? GPT2_PATTERN) : undefined,
+    metaspace: byteLevel ? undefined : { prefix },
+    ignoreMerges: model.ignore_merges,
+    byteFallback: model.byte_fallback,
+    unknownId: model.unk_token ? model.vocab[model.unk_token] : undefined,
+  };
+}
+
+/**
+ * Loads a BPE tokenizer from a tiktoken `.tiktoken` rank file (encoding named
+ * after the file, e.g. `cl100k_base.tiktoken`) or a HuggingFace
+ * `tokenizer.json`, without any native or optional npm dependency.
+ */
+export function loadBpeTokenizer(options: LocalTokenizerOptions): BpeTokenizer {
+  const path = options.path;
+  if (extname(path).toLowerCase() === '.tiktoken') {
+    const encoding = options.encoding ?? basename(path, extname(path));
+    return new BpeTokenizer(options.id, encoding, loadTiktokenModel(path, options, encoding), options.maxTokens);
+  }
+  return new BpeTokenizer(options.id, options.encoding ?? options.id, loadHuggingFaceModel(path), options.maxTokens);
+}
+
+/**
+ * Registers configured local tokenizers. Vocabulary files are read on first
+ * use, so commands that never tokenize do not pay for loading them.
+ */
+export function registerLocalTokenizers(
+  configs: LocalTokenizerOptions[],
+  registry: TokenizerRegistry = tokenizerRegistry,
+): void {
+  for (const config of configs) {
+    let loaded: BpeTokenizer | undefined;
+    registry.register({
+      id: config.id,
+      create: () => (loaded ??= loadBpeTokenizer(config)),
+    });
+  }
+}
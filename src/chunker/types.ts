@@ -17,6 +17,19 @@ export interface Tokenizer {
   maxTokens?: number;
 }
 
+/** A BPE tokenizer loaded from a local vocabulary file instead of an npm package. */
+export interface LocalTokenizerOptions {
+  /** Registry id, referenced by `indexing.tokenizerId`. */
+  id: string;
+  /** A tiktoken `.tiktoken` rank file or a HuggingFace `tokenizer.json`. */
+  path: string;
+  /** Encoding name reported as the tokenizer version; defaults to the `.tiktoken` file name. */
+  encoding?: string;
+  /** Pre-tokenization regex for `.tiktoken` encodings that are not built in. */
+  pattern?: string;
+  maxTokens?: number;
+}
+
 export interface TokenizerFactory {
   id: string;
   create(): Tokenizer;
@@ -43,6 +56,27 @@ export interface ChunkMetadata {
   chunkIndex: number;
   totalChunks: number;
   section?: string;
+  /** Signatures of the declarations a chunk starts inside of, kept out of `text` (hybrid strategy). */
+  header?: string;
+  /** Notebook cell the chunk was taken from. */
+  cellIndex?: number;
+  cellType?: string;
+  /** JSON pointer of the value a JSON/YAML/TOML chunk covers, e.g. `/paths/~1users/get`. */
+  keyPath?: string;
+  /** Document position within a multi-document YAML file. */
+  documentIndex?: number;
+  /** Token counts keyed by tokenizer id, for the tokenizers listed in `tokenCounts` index options. */
+  tokenCounts?: Record<string, number>;
+  /**
+   * Set with content-defined boundaries: how many earlier chunks of the file
+   * have the same text. It replaces the line range in the chunk id.
+   */
+  occurrence?: number;
+  /** Path, language, line range and scope lines rendered with `contextHeaders`; not part of `text`. */
+  contextHeader?: string;
+  contextHeaderTokens?: number;
+  /** Source line number of each line of `text`, set when the file was compacted. */
+  lineMap?: number[];
 }
 
 export interface Chunk {
@@ -65,6 +99,27 @@ export interface ChunkingOptions {
   adaptive?: AdaptiveChunkingOptions;
   sectionHeuristics?: SectionHeuristicsOptions;
   slidingWindow?: SlidingWindowOptions;
+  markdown?: MarkdownChunkingOptions;
+  /** `content-defined` picks cut points from the content so edits only move nearby boundaries. Defaults to `fixed`. */
+  boundaries?: ChunkBoundaryMode;
+  contentDefined?: ContentDefinedChunkingOptions;
+  /** Render a context header for every chunk and keep header plus text within `maxTokens`. */
+  contextHeaders?: boolean;
+}
+
+export type ChunkBoundaryMode = 'fixed' | 'content-defined';
+
+/**
+ * Sizes are in lines for the `lines` strategy and in tokens for `tokens`,
+ * `sliding-window`, `hybrid` and Markdown sections (lines when they have no token limit).
+ */
+export interface ContentDefinedChunkingOptions {
+  /** Units the rolling hash covers. Defaults to 2 lines or 8 tokens. */
+  window?: number;
+  /** Smallest chunk. Defaults to a quarter of the target size. */
+  minSize?: number;
+  /** Largest chunk. Defaults to `maxLines`/`maxTokens`, else twice the target size. */
+  maxSize?: number;
 }
 
 export interface AdaptiveChunkingOptions {
@@ -87,12 +142,33 @@ export type ChunkingStrategyType =
   | 'lines'
   | 'tokens'
   | 'sliding-window'
-  | 'by-section';
+  | 'by-section'
+  | 'syntax'
+  | 'hybrid';
+
+export interface ChunkingCell {
+  index: number;
+  type: string;
+  startLine: number;
+  endLine: number;
+}
 
 export interface ChunkingInput {
   text: string;
   path: string;
   language?: string;
+  /** Cell line ranges for notebooks; chunks never cross a cell boundary. */
+  cells?: ChunkingCell[];
+  /**
+   * Source line number of each line of `text` when it was compacted before
+   * chunking. Chunk line ranges and ids then refer to the source lines.
+   */
+  lineMap?: number[];
+}
+
+export interface MarkdownChunkingOptions {
+  /** Deepest heading level that starts a new chunk; deeper headings stay inside their parent. Defaults to 6. */
+  maxHeadingDepth?: number;
 }
 
 export interface SlidingWindowOptions {
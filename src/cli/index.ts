@@ -1,13 +1,27 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { writeFile, mkdir, readFile } from 'node:fs/promises';
-import { dirname, resolve } from 'node:path';
-import { createWriteStream, createReadStream } from 'node:fs';
+import { writeFile, mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
 import chokidar from 'chokidar';
-import { createHash, randomUUID } from 'node:crypto';
+import { randomUUID } from 'node:crypto';
 import { performance } from 'node:perf_hooks';
 import { RepoTokenizerConfig, loadConfig } from '../config';
-import { IndexManager, IndexOptions, PullRequestIdentifier, PullRequestIndexOptions } from '../indexer';
+import { registerLocalTokenizers, tokenizerRegistry } from '../chunker';
+import {
+  IndexManager,
+  IndexOptions,
+  PullRequestIdentifier,
+  PullRequestIndexOptions,
+  createIndexStore,
+  DiskChunkCache,
+} from '../indexer';
+import { parseSearchQuery, SearchQuery } from '../indexer/query';
+import { createEmbeddingProvider, DiskEmbeddingCache } from '../embeddings';
 import type { GitProviderKind } from '../integrations';
 import {
   recordIndexMetrics,
@@ -19,9 +33,19 @@ import {
 import { configureLogger, getLogger, LogLevel, LogFormat } from '../common/logger';
 import { buildQualityReport, renderQualityReportHtml, renderQualityReportTui } from '../reports';
 import { exportIndexToJsonl } from '../exporters/jsonl';
+import { isPromptFormat, renderPrompt } from '../exporters/prompt';
 import { exportIndexToSqlite, buildSqliteBuffer } from '../exporters/sqlite';
-import { createEncryptedFileWriter, encryptBuffer } from '../exporters/encryption';
+import { createDecryptedFileReader, createEncryptedFileWriter, encryptBuffer } from '../exporters/encryption';
 import { exportIndexToParquet } from '../exporters/parquet';
+import { importIndexFromFile, ImportFormat } from '../exporters/import';
+import {
+  buildExportManifest,
+  computeFileSha256,
+  defaultManifestPath,
+  signExportManifest,
+  verifyExportManifest,
+  writeExportManifest,
+} from '../exporters/manifest';
 import { buildDeltaSnapshot } from '../exporters/delta';
 import { exportVectors, VectorTarget } from '../exporters/vector';
 import { buildRecommendations } from '../recommendation';
@@ -74,20 +98,35 @@ async function ensureDir(filePath: string) {
 
 async function loadConfigOrExit(path: string, profile?: string): Promise<RepoTokenizerConfig> {
   try {
-    return await loadConfig(path, profile);
+    const config = await loadConfig(path, profile);
+    registerLocalTokenizers(
+      (config.indexing?.tokenizers ?? []).map((tokenizer) => ({ ...tokenizer, path: resolve(tokenizer.path) })),
+    );
+    return config;
   } catch (error) {
     getLogger('cli').error(`Failed to load config: ${(error as Error).message}`);
     process.exit(1);
   }
 }
 
-async function computeSha256(path: string): Promise<string> {
-  const hash = createHash('sha256');
-  return new Promise((resolve, reject) => {
-    const stream = createReadStream(path);
-    stream.on('data', (chunk) => hash.update(chunk));
-    stream.on('error', reject);
-    stream.on('close', () => resolve(hash.digest('hex')));
+function createIndexManager(config: RepoTokenizerConfig): IndexManager {
+  const storeConfig = config.indexing?.store;
+  const chunkCacheConfig = config.indexing?.chunkCache;
+  const embeddingsConfig = config.indexing?.embeddings;
+  return new IndexManager({
+    store: storeConfig ? createIndexStore({ ...storeConfig, path: resolve(storeConfig.path) }) : undefined,
+    chunkCache: chunkCacheConfig
+      ? new DiskChunkCache({
+          ...chunkCacheConfig,
+          path: chunkCacheConfig.path ? resolve(chunkCacheConfig.path) : undefined,
+        })
+      : undefined,
+    embeddings: embeddingsConfig ? createEmbeddingProvider(embeddingsConfig) : undefined,
+    embeddingCache: embeddingsConfig?.cache
+      ? new DiskEmbeddingCache({
+          path: embeddingsConfig.cache.path ? resolve(embeddingsConfig.cache.path) : undefined,
+        })
+      : undefined,
   });
 }
 
@@ -204,7 +243,7 @@ export async function runCli(argv = process.argv) {
     .action(async (options) => {
       const log = getLogger('cli:index');
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const watchEnabled = Boolean(options.watch);
       const intervalSec = options.interval ? Number(options.interval) : undefined;
       const includePathsOverride: string[] | undefined = options.include
@@ -234,6 +273,7 @@ export async function runCli(argv = process.argv) {
           const started = performance.now();
           const incrementalOptions: IndexOptions = {
             ref: options.ref ?? config.indexing?.ref,
+            incremental: config.indexing?.incremental,
             tokenizerId: config.indexing?.tokenizerId,
             excludeGlobs: config.indexing?.excludeGlobs,
             sparsePatterns: config.indexing?.sparsePatterns,
@@ -246,6 +286,10 @@ export async function runCli(argv = process.argv) {
             dryRun: config.indexing?.dryRun,
             domain: config.indexing?.domain,
             languageChunkProfiles: config.indexing?.languageChunkProfiles,
+            notebooks: config.indexing?.notebooks,
+            tokenCounts: config.indexing?.tokenCounts,
+            compaction: config.indexing?.compaction,
+            skeletons: config.indexing?.skeletons,
           };
 
           if (includePathsOverride && includePathsOverride.length > 0) {
@@ -309,6 +353,8 @@ export async function runCli(argv = process.argv) {
               incremental: Boolean(incrementalOptions.incremental),
               includePaths: incrementalOptions.includePaths ?? [],
               repositoryType: config.repository.type,
+              chunkCacheHits: result.cacheStats?.hits,
+              chunkCacheMisses: result.cacheStats?.misses,
             },
           };
           recordIndexMetrics(metricsEvent.metrics);
@@ -478,7 +524,7 @@ export async function runCli(argv = process.argv) {
         const templateOverride = await loadTemplateFromPath(options.template);
         const template = templateOverride ?? workflow?.commentTemplate;
 
-        const manager = new IndexManager();
+        const manager = createIndexManager(config);
         const identifier: PullRequestIdentifier = { provider, id: idNum };
         const prOptions: PullRequestIndexOptions = {
           providers: providerConfigs,
@@ -554,7 +600,7 @@ export async function runCli(argv = process.argv) {
     .action(async (options) => {
       const log = getLogger('cli:report');
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const ref = options.ref ?? config.indexing?.ref;
       const baselineRef = options.baseline ?? config.indexing?.qualityReportBase;
       const indexingOptions: IndexOptions = {
@@ -617,7 +663,7 @@ export async function runCli(argv = process.argv) {
     .option('--limit <number>', 'Maximum diff entries to return', '200')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const paths = options.path ? (Array.isArray(options.path) ? options.path : [options.path]) : undefined;
       const result = await manager.diffChunks(config.repository, {
         baseRef: options.base,
@@ -638,7 +684,7 @@ export async function runCli(argv = process.argv) {
     .option('--ref <ref>', 'Git ref (defaults to HEAD)')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const result = await manager.blameFile(config.repository, { path: options.path, ref: options.ref });
       process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
     });
@@ -651,7 +697,7 @@ export async function runCli(argv = process.argv) {
     .requiredOption('--ref <ref>', 'Reference to resolve')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const commit = await manager.resolveReference(config.repository, options.ref);
       process.stdout.write(`${commit}\n`);
     });
@@ -662,23 +708,186 @@ export async function runCli(argv = process.argv) {
     .requiredOption('--config <path>', 'Config file path')
     .option('--profile <name>', 'Config profile')
     .option('--ref <ref>', 'Target ref')
-    .option('--path <path...>', 'Include only specific paths')
+    .option('--query <text>', 'Rank chunks by the terms of this query')
+    .option('--symbol <name...>', 'Target symbols')
+    .option('--path <path...>', 'Target files or directories')
+    .option('--target <target...>', 'Target paths or symbols')
     .option('--limit <number>', 'Maximum chunks to include', '20')
-    .option('--max-tokens <number>', 'Maximum tokens per chunk')
+    .option('--order <order>', 'Chunk order (score|stable); stable puts rarely changed files first for prompt caching', 'score')
+    .option('--volatile-commits <number>', 'With --order stable, files changed in this many latest commits go last', '10')
+    .option('--max-tokens <number>', 'Token budget for the whole pack')
+    .option('--tokenizer <id>', 'Tokenizer to measure --max-tokens with')
+    .option('--context-headers', 'Return chunks with context headers, counted against --max-tokens')
+    .option('--format <format>', 'Also render the pack as a prompt (markdown|xml|repo); --max-tokens then applies to it')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
-      const paths = options.path ? (Array.isArray(options.path) ? options.path : [options.path]) : undefined;
+      if (options.format && !isPromptFormat(options.format)) {
+        getLogger('cli:context-pack').error(`Unsupported prompt format: ${options.format}`);
+        process.exit(1);
+      }
+      const manager = createIndexManager(config);
+      const list = (value?: string | string[]) => (value ? (Array.isArray(value) ? value : [value]) : undefined);
       const result = await manager.buildContextPack(config.repository, {
         ref: options.ref ?? config.indexing?.ref,
-        paths,
+        query: options.query,
+        symbols: list(options.symbol),
+        paths: list(options.path),
+        targets: list(options.target),
         limit: Number(options.limit ?? '20'),
         maxTokens: options.maxTokens ? Number(options.maxTokens) : undefined,
+        tokenizer: options.tokenizer,
+        contextHeaders: Boolean(options.contextHeaders),
+        order: options.order === 'stable' ? 'stable' : 'score',
+        volatileCommits: Number(options.volatileCommits ?? '10'),
+        format: options.format,
         indexOptions: config.indexing,
       });
       process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
     });
 
+  program
+    .command('pack')
+    .description('Render the most relevant chunks as a prompt that fits a token budget')
+    .requiredOption('--config <path>', 'Config file path')
+    .option('--profile <name>', 'Config profile')
+    .option('--ref <ref>', 'Target ref')
+    .option('--query <text>', 'Rank chunks by the terms of this query')
+    .option('--symbol <name...>', 'Target symbols')
+    .option('--path <path...>', 'Target files or directories')
+    .option('--target <target...>', 'Target paths or symbols')
+    .option('--limit <number>', 'Maximum chunks to include', '20')
+    .option('--order <order>', 'Chunk order (score|stable); stable puts rarely changed files first for prompt caching', 'score')
+    .option('--volatile-commits <number>', 'With --order stable, files changed in this many latest commits go last', '10')
+    .option('--max-tokens <number>', 'Token budget for the rendered prompt')
+    .option('--tokenizer <id>', 'Tokenizer to measure --max-tokens with')
+    .option('--format <format>', 'Prompt format (markdown|xml|repo)', 'markdown')
+    .option('--context-headers', 'Put each chunk\'s context header before its text')
+    .option('--output <path>', 'Output file (use - for stdout)', '-')
+    .action(async (options) => {
+      const log = getLogger('cli:pack');
+      const config = await loadConfigOrExit(options.config, options.profile);
+      const format: string = options.format ?? 'markdown';
+      if (!isPromptFormat(format)) {
+        log.error(`Unsupported prompt format: ${format}`);
+        process.exit(1);
+      }
+      const manager = createIndexManager(config);
+      const list = (value?: string | string[]) => (value ? (Array.isArray(value) ? value : [value]) : undefined);
+      const result = await manager.buildContextPack(config.repository, {
+        ref: options.ref ?? config.indexing?.ref,
+        query: options.query,
+        symbols: list(options.symbol),
+        paths: list(options.path),
+        targets: list(options.target),
+        limit: Number(options.limit ?? '20'),
+        maxTokens: options.maxTokens ? Number(options.maxTokens) : undefined,
+        tokenizer: options.tokenizer,
+        contextHeaders: Boolean(options.contextHeaders),
+        order: options.order === 'stable' ? 'stable' : 'score',
+        volatileCommits: Number(options.volatileCommits ?? '10'),
+        format,
+        indexOptions: config.indexing,
+      });
+      const output: string = options.output ?? '-';
+      if (output === '-') {
+        process.stdout.write(`${result.prompt ?? ''}\n`);
+      } else {
+        const target = resolve(output);
+        await ensureDir(target);
+        await writeFile(target, `${result.prompt ?? ''}\n`);
+        log.info(`Prompt written to ${target}`);
+      }
+      log.info(`Packed ${result.totalChunks} chunks (${result.totalTokens} tokens)`);
+    });
+
+  program
+    .command('repo-map')
+    .description('Print a ranked outline of the repository that fits a token budget')
+    .requiredOption('--config <path>', 'Config file path')
+    .option('--profile <name>', 'Config profile')
+    .option('--ref <ref>', 'Target ref')
+    .option('--max-tokens <number>', 'Token budget for the map', '1024')
+    .option('--tokenizer <id>', 'Tokenizer to measure --max-tokens with')
+    .option('--path-glob <glob>', 'Only include files matching this glob')
+    .option('--format <format>', 'Output format (text|json)', 'text')
+    .action(async (options) => {
+      const config = await loadConfigOrExit(options.config, options.profile);
+      const manager = createIndexManager(config);
+      const result = await manager.buildRepoMap(config.repository, {
+        ref: options.ref ?? config.indexing?.ref,
+        maxTokens: Number(options.maxTokens ?? '1024'),
+        tokenizer: options.tokenizer,
+        pathGlob: options.pathGlob,
+        indexOptions: config.indexing,
+      });
+      if (options.format === 'json') {
+        process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+        return;
+      }
+      process.stdout.write(`${result.text}\n`);
+    });
+
+  program
+    .command('search')
+    .description('Search indexed chunks with the search query syntax')
+    .requiredOption('--config <path>', 'Config file path')
+    .requiredOption('--query <query>', 'Search query, e.g. \'parse "http header" lang:typescript -test:true\'')
+    .option('--profile <name>', 'Config profile')
+    .option('--ref <ref>', 'Target ref')
+    .option('--path-glob <glob>', 'Only search files matching this glob')
+    .option('--offset <number>', 'Matches to skip', '0')
+    .option('--limit <number>', 'Matches to print', '20')
+    .option('--mode <mode>', 'Ranking (lexical|semantic|hybrid); semantic and hybrid need indexing.embeddings', 'lexical')
+    .option('--min-similarity <number>', 'Leave out chunks less similar to the query (semantic and hybrid)')
+    .option('--format <format>', 'Output format (text|json)', 'text')
+    .action(async (options) => {
+      const log = getLogger('cli:search');
+      const mode = options.mode ?? 'lexical';
+      if (mode !== 'lexical' && mode !== 'semantic' && mode !== 'hybrid') {
+        log.error(`Unsupported search mode: ${mode}`);
+        process.exit(1);
+      }
+      let query: SearchQuery;
+      try {
+        query = parseSearchQuery(options.query);
+      } catch (error) {
+        log.error((error as Error).message);
+        process.exit(1);
+      }
+      const config = await loadConfigOrExit(options.config, options.profile);
+      const manager = createIndexManager(config);
+      const ref = options.ref ?? config.indexing?.ref;
+      await manager.indexRepository(config.repository, { ...config.indexing, ref });
+      const params = {
+        ref,
+        pathGlob: options.pathGlob,
+        offset: Number(options.offset ?? '0'),
+        limit: Number(options.limit ?? '20'),
+      };
+      let result;
+      try {
+        result =
+          mode === 'lexical'
+            ? manager.searchText(config.repository, query, params)
+            : await manager.searchSemantic(config.repository, query, {
+                ...params,
+                mode,
+                minSimilarity: options.minSimilarity ? Number(options.minSimilarity) : undefined,
+              });
+      } catch (error) {
+        log.error(`Search failed: ${(error as Error).message}`);
+        process.exit(1);
+      }
+      if (options.format === 'json') {
+        process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+        return;
+      }
+      for (const match of result.matches) {
+        process.stdout.write(`${match.path}:${match.line}\t${match.score}\t${match.excerpt}\n`);
+      }
+      log.info(`Showing ${result.matches.length} of ${result.total} matches`);
+    });
+
   program
     .command('recommend')
     .description('Generate context recommendations based on current index')
@@ -689,7 +898,7 @@ export async function runCli(argv = process.argv) {
     .option('--ref <ref>', 'Ref to analyze')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const index = await manager.indexRepository(config.repository, {
         ...config.indexing,
         ref: options.ref ?? config.indexing?.ref,
@@ -710,7 +919,7 @@ export async function runCli(argv = process.argv) {
     .option('--ref <ref>', 'Target ref')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const index = await manager.indexRepository(config.repository, {
         ...config.indexing,
         ref: options.ref ?? config.indexing?.ref,
@@ -727,7 +936,7 @@ export async function runCli(argv = process.argv) {
     .option('--ref <ref>', 'Target ref')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const index = await manager.indexRepository(config.repository, {
         ...config.indexing,
         ref: options.ref ?? config.indexing?.ref,
@@ -744,7 +953,7 @@ export async function runCli(argv = process.argv) {
     .option('--ref <ref>', 'Target ref')
     .action(async (options) => {
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const index = await manager.indexRepository(config.repository, {
         ...config.indexing,
         ref: options.ref ?? config.indexing?.ref,
@@ -758,19 +967,25 @@ export async function runCli(argv = process.argv) {
     .description('Export index to JSONL or SQLite')
     .requiredOption('--config <path>', 'Config file path')
     .option('--profile <name>', 'Config profile')
-    .option('--format <format>', 'Export format (jsonl|sqlite)', 'jsonl')
+    .option('--format <format>', 'Export format (jsonl|sqlite|markdown|xml|repo)', 'jsonl')
     .option('--output <path>', 'Output file (use - for stdout)')
     .option('--encrypt <password>', 'Encrypt export output with AES-256-GCM')
     .option('--delta-base <ref>', 'Base ref for delta export')
     .option('--vector-collection <name>', 'Collection/table name for vector exports')
     .option('--vector-dimension <number>', 'Embedding dimension for vector exports', '64')
+    .option('--manifest [path]', 'Write a manifest with the artifact SHA-256 (defaults to <output>.manifest.json)')
+    .option('--sign-key <path>', 'Sign the manifest with this Ed25519 private key (PEM)')
+    .option('--context-headers', 'Add each chunk with its context header as contextualText (JSONL) or before its text (prompt formats)')
     .action(async (options) => {
       const log = getLogger('cli:export');
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const result = await manager.indexRepository(config.repository, config.indexing);
       const format = options.format ?? config.export?.format ?? 'jsonl';
       const password: string | undefined = options.encrypt;
+      const jsonlOptions = { contextHeaders: Boolean(options.contextHeaders ?? config.export?.contextHeaders) };
+      let artifact: string | undefined;
+      let encrypted = false;
 
       if (format === 'jsonl') {
         const output = options.output ?? config.export?.output ?? 'index.jsonl';
@@ -779,22 +994,25 @@ export async function runCli(argv = process.argv) {
             log.error('Encryption is not supported when writing JSONL to stdout.');
             process.exit(1);
           }
-          await exportIndexToJsonl(result, process.stdout);
+          await exportIndexToJsonl(result, process.stdout, jsonlOptions);
         } else {
           const target = resolve(output);
           await ensureDir(target);
           if (password) {
             const writer = createEncryptedFileWriter(target, password);
-            await exportIndexToJsonl(result, writer.stream);
+            await exportIndexToJsonl(result, writer.stream, jsonlOptions);
             await writer.finalize();
+            encrypted = true;
             log.info(`Exported encrypted JSONL to ${target}`);
           } else {
             const stream = createWriteStream(target, { encoding: 'utf8' });
-            await exportIndexToJsonl(result, stream);
+            await exportIndexToJsonl(result, stream, jsonlOptions);
             stream.end();
+            await once(stream, 'finish');
             log.info(`Exported JSONL to ${target}`);
           }
-          const digest = await computeSha256(target);
+          artifact = target;
+          const digest = await computeFileSha256(target);
           log.info(`SHA-256: ${digest}`);
         }
       } else if (format === 'sqlite') {
@@ -803,14 +1021,15 @@ export async function runCli(argv = process.argv) {
         await ensureDir(target);
         if (password) {
           const buffer = await buildSqliteBuffer(result);
-          const encrypted = encryptBuffer(buffer, password);
-          await writeFile(target, encrypted);
+          await writeFile(target, encryptBuffer(buffer, password));
+          encrypted = true;
           log.info(`Exported encrypted SQLite to ${target}`);
         } else {
           await exportIndexToSqlite(result, target);
           log.info(`Exported SQLite to ${target}`);
         }
-        const digest = await computeSha256(target);
+        artifact = target;
+        const digest = await computeFileSha256(target);
         log.info(`SHA-256: ${digest}`);
       } else if (format === 'parquet') {
         const output = options.output ?? config.export?.output ?? 'index.parquet';
@@ -818,6 +1037,7 @@ export async function runCli(argv = process.argv) {
         await ensureDir(target);
         await exportIndexToParquet(result, target);
         log.info(`Exported Parquet to ${target}`);
+        artifact = target;
       } else if (format === 'delta') {
         const output = options.output ?? config.export?.output ?? 'index.delta.json';
         const target = resolve(output);
@@ -834,6 +1054,31 @@ export async function runCli(argv = process.argv) {
         const delta = buildDeltaSnapshot(baseResult, result);
         await writeFile(target, JSON.stringify(delta, null, 2));
         log.info(`Delta snapshot written to ${target}`);
+        artifact = target;
+      } else if (isPromptFormat(format)) {
+        const prompt = renderPrompt(result.chunks, {
+          format,
+          languageByHash: result.fileLanguageByHash,
+          contextHeaders: jsonlOptions.contextHeaders,
+        });
+        const tokenizerId = result.chunking?.tokenizer.id ?? config.indexing?.tokenizerId ?? 'basic';
+        const tokens = tokenizerRegistry.resolve(tokenizerId).count(prompt);
+        const output = options.output ?? config.export?.output ?? `index.${format === 'markdown' ? 'md' : format === 'xml' ? 'xml' : 'txt'}`;
+        if (output === '-') {
+          if (password) {
+            log.error('Encryption is not supported when writing a prompt to stdout.');
+            process.exit(1);
+          }
+          process.stdout.write(`${prompt}\n`);
+        } else {
+          const target = resolve(output);
+          await ensureDir(target);
+          await writeFile(target, password ? encryptBuffer(Buffer.from(`${prompt}\n`), password) : `${prompt}\n`);
+          encrypted = Boolean(password);
+          log.info(`Exported ${password ? 'encrypted ' : ''}${format} prompt to ${target}`);
+          artifact = target;
+        }
+        log.info(`Prompt tokens (${tokenizerId}): ${tokens}`);
       } else if (format === 'faiss' || format === 'qdrant' || format === 'pgvector') {
         const output = options.output ?? config.export?.output ?? `index.${format}.json`;
         const target = resolve(output);
@@ -845,9 +1090,140 @@ export async function runCli(argv = process.argv) {
           dimension: Number(options.vectorDimension ?? '64'),
         }, target);
         log.info(`Vector export (${format}) written to ${target}`);
+        artifact = target;
       } else {
         throw new Error(`Unsupported export format: ${format}`);
       }
+
+      const manifestOption: boolean | string | undefined = options.manifest ?? config.export?.manifest;
+      const signingKey: string | undefined = options.signKey ?? config.export?.signingKey;
+      if (manifestOption || signingKey) {
+        if (!artifact) {
+          log.warn('Skipping manifest: the export was not written to a file.');
+          return;
+        }
+        let manifest = await buildExportManifest(result, {
+          artifactPath: artifact,
+          format,
+          encrypted,
+          ref: config.indexing?.ref,
+        });
+        if (signingKey) {
+          manifest = signExportManifest(manifest, await readFile(resolve(signingKey), 'utf8'));
+        }
+        const manifestPath =
+          typeof manifestOption === 'string' ? resolve(manifestOption) : defaultManifestPath(artifact);
+        await ensureDir(manifestPath);
+        await writeExportManifest(manifest, manifestPath);
+        log.info(`${manifest.signature ? 'Signed manifest' : 'Manifest'} written to ${manifestPath}`);
+      }
+    });
+
+  program
+    .command('verify')
+    .description('Verify an export artifact against its manifest')
+    .requiredOption('--manifest <path>', 'Manifest written by export --manifest')
+    .option('--artifact <path>', 'Artifact to check (defaults to the path recorded in the manifest)')
+    .option('--public-key <path>', 'Require a signature from this Ed25519 public key (PEM)')
+    .action(async (options) => {
+      const log = getLogger('cli:verify');
+      const verification = await verifyExportManifest(resolve(options.manifest), {
+        artifactPath: options.artifact ? resolve(options.artifact) : undefined,
+        publicKey: options.publicKey ? await readFile(resolve(options.publicKey), 'utf8') : undefined,
+      });
+      process.stdout.write(`${JSON.stringify(verification, null, 2)}\n`);
+      for (const warning of verification.warnings) {
+        log.warn(warning);
+      }
+      if (!verification.valid) {
+        log.error(`Verification failed for ${verification.artifactPath}: ${verification.errors.join('; ')}`);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('decrypt')
+    .description('Decrypt and authenticate an encrypted JSONL or SQLite export')
+    .requiredOption('--input <path>', 'Encrypted export file')
+    .requiredOption('--password <password>', 'Password used with export --encrypt')
+    .option('--output <path>', 'Output file (use - for stdout)', '-')
+    .option('--verify', 'Only check the password and authentication tag; write nothing')
+    .action(async (options) => {
+      const log = getLogger('cli:decrypt');
+      const input = resolve(options.input);
+      const output: string = options.output ?? '-';
+      let target: string | undefined;
+      let spoolDir: string | undefined;
+      let destination: Writable;
+      if (options.verify) {
+        destination = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+      } else if (output === '-') {
+        // Spooled to a temporary file: stdout cannot take back plaintext whose authentication tag turns out wrong.
+        spoolDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-decrypt-'));
+        target = join(spoolDir, 'plaintext');
+        destination = createWriteStream(target);
+      } else {
+        target = resolve(output);
+        await ensureDir(target);
+        destination = createWriteStream(target);
+      }
+      let failure: Error | undefined;
+      try {
+        const reader = await createDecryptedFileReader(input, options.password);
+        await pipeline(reader, destination);
+        if (spoolDir && target) {
+          await pipeline(createReadStream(target), process.stdout, { end: false });
+        }
+      } catch (error) {
+        failure = error as Error;
+      }
+      if (spoolDir) {
+        await rm(spoolDir, { recursive: true, force: true });
+      } else if (failure && target) {
+        await rm(target, { force: true });
+      }
+      if (failure) {
+        log.error(failure.message);
+        process.exit(1);
+      }
+      if (options.verify) {
+        log.info(`${input} decrypted and authenticated successfully`);
+      } else if (target && !spoolDir) {
+        log.info(`Decrypted ${input} to ${target}`);
+      }
+    });
+
+  program
+    .command('import')
+    .description('Import a JSONL or SQLite export into the index store')
+    .requiredOption('--config <path>', 'Config file path')
+    .option('--profile <name>', 'Config profile')
+    .requiredOption('--input <path>', 'Export file to import')
+    .option('--format <format>', 'Import format (jsonl|sqlite); detected from the file when omitted')
+    .option('--ref <ref>', 'Register the index under this ref instead of the exported one')
+    .option('--password <password>', 'Password for encrypted exports')
+    .action(async (options) => {
+      const log = getLogger('cli:import');
+      const config = await loadConfigOrExit(options.config, options.profile);
+      if (!config.indexing?.store) {
+        log.error('Importing requires indexing.store to be configured so the index outlives this process.');
+        process.exit(1);
+      }
+      const format: string | undefined = options.format;
+      if (format && format !== 'jsonl' && format !== 'sqlite') {
+        log.error(`Unsupported import format: ${format}`);
+        process.exit(1);
+      }
+      const manager = createIndexManager(config);
+      const input = resolve(options.input);
+      const result = await importIndexFromFile(input, {
+        format: format as ImportFormat | undefined,
+        spec: config.repository,
+        ref: options.ref,
+        password: options.password,
+      });
+      await manager.registerIndex(result);
+      log.info(`Imported ${result.files.length} files and ${result.chunks.length} chunks from ${input} (ref ${result.ref ?? 'HEAD'})`);
     });
 
   program
@@ -859,7 +1235,7 @@ export async function runCli(argv = process.argv) {
     .action(async (options) => {
       const log = getLogger('cli:serve');
       const config = await loadConfigOrExit(options.config, options.profile);
-      const manager = new IndexManager();
+      const manager = createIndexManager(config);
       const port = options.port ? Number(options.port) : config.server?.port ?? 4000;
       const host = config.server?.host ?? '0.0.0.0';
       const notifierOptions = config.server?.airGap
@@ -875,6 +1251,12 @@ export async function runCli(argv = process.argv) {
         integrations: config.integrations,
         mcp: config.server?.mcp,
       });
+      const restored = await manager.restoreIndexes(config.repository);
+      const warmIndex = manager.getLatestIndex(config.repository);
+      if (warmIndex) {
+        server.applyBootstrap(warmIndex);
+        log.info(`Restored ${restored} persisted index(es); serving ref ${warmIndex.ref ?? 'HEAD'}`);
+      }
       await server.listen({ port, host });
       log.info(`Server listening on http://${host}:${port}`);
       if (config.indexing) {
@@ -905,6 +1287,8 @@ export async function runCli(argv = process.argv) {
               durationMs,
               incremental: Boolean(config.indexing?.incremental),
               repositoryType: config.repository.type,
+              chunkCacheHits: initial.cacheStats?.hits,
+              chunkCacheMisses: initial.cacheStats?.misses,
             };
             recordIndexMetrics(metrics);
             server.applyBootstrap(initial);
@@ -935,7 +1319,7 @@ export async function runCli(argv = process.argv) {
     .action(() => {
       const script = `#!/bin/bash
 _repo_tokenizer_mcp_completions() {
-  COMPREPLY=( $(compgen -W "init index report pr diff-chunks blame resolve-ref context-pack recommend tests-map deps-graph symbols-index export serve completion" -- "\${COMP_WORDS[COMP_CWORD]}") )
+  COMPREPLY=( $(compgen -W "init index report pr diff-chunks blame resolve-ref context-pack pack repo-map search recommend tests-map deps-graph symbols-index export verify decrypt import serve completion" -- "\${COMP_WORDS[COMP_CWORD]}") )
 }
 complete -F _repo_tokenizer_mcp_completions repo-tokenizer-mcp
 `;
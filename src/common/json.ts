@@ -0,0 +1,22 @@
+/**
+ * Deterministic JSON serialisation: object keys are sorted by UTF-16 code
+ * unit (never by locale, which differs between machines), undefined members
+ * dropped and RegExps written as their source, so equal values always produce
+ * the same string (for hashing and signing).
+ */
+export function stableStringify(value: unknown): string {
+  if (value instanceof RegExp) {
+    return JSON.stringify(value.toString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -1,8 +1,12 @@
 import { RepositorySpec } from '../ingest';
-import { ChunkingOptions } from '../chunker';
-import { SecretPattern } from '../normalization';
+import { ChunkingOptions, LocalTokenizerOptions } from '../chunker';
+import { CompactionOptions, NotebookOptions, SecretPattern } from '../normalization';
 import type { GitProviderKind, GitHubProviderOptions, GitLabProviderOptions } from '../integrations/types';
 import type { DomainConfig } from '../domain';
+import type { IndexStoreOptions } from '../indexer/store';
+import type { ChunkCacheOptions } from '../indexer/chunkCache';
+import type { EmbeddingCacheOptions, HttpEmbeddingProviderOptions } from '../embeddings/types';
+import type { PromptFormat } from '../exporters/prompt';
 
 export type GitHubIntegrationConfig = GitHubProviderOptions;
 export type GitLabIntegrationConfig = GitLabProviderOptions;
@@ -28,9 +32,16 @@ export interface IntegrationsConfig {
   pullRequests?: PullRequestWorkflowConfig;
 }
 
+export interface EmbeddingsConfig extends HttpEmbeddingProviderOptions {
+  /** Keep chunk embeddings on disk between runs. Without it they are kept in memory. */
+  cache?: EmbeddingCacheOptions;
+}
+
 export interface IndexingConfig {
   ref?: string;
   tokenizerId?: string;
+  /** BPE tokenizers loaded from local `.tiktoken` or `tokenizer.json` files. */
+  tokenizers?: LocalTokenizerOptions[];
   chunking?: Partial<ChunkingOptions>;
   includePaths?: string[];
   excludeGlobs?: string[];
@@ -52,12 +63,26 @@ export interface IndexingConfig {
   qualityReportBase?: string;
   domain?: DomainConfig;
   languageChunkProfiles?: Record<string, Partial<ChunkingOptions>>;
+  store?: IndexStoreOptions;
+  chunkCache?: ChunkCacheOptions;
+  notebooks?: NotebookOptions;
+  tokenCounts?: string[];
+  compaction?: CompactionOptions;
+  skeletons?: boolean;
+  /** OpenAI-compatible embeddings endpoint for semantic and hybrid search. */
+  embeddings?: EmbeddingsConfig;
 }
 
 export interface ExportConfig {
-  format?: 'jsonl' | 'sqlite';
+  format?: 'jsonl' | 'sqlite' | PromptFormat;
   output?: string;
   stream?: boolean;
+  /** Write a manifest next to the artifact (`true`) or at the given path. */
+  manifest?: boolean | string;
+  /** Ed25519 private key (PEM) used to sign manifests. */
+  signingKey?: string;
+  /** Add each chunk's context header as `contextualText` (JSONL) or before its text (prompt formats). */
+  contextHeaders?: boolean;
 }
 
 export interface McpRoleTokenConfig {
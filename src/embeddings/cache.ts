@@ -0,0 +1,63 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { EmbeddingCache, EmbeddingCacheOptions } from './types';
+
+/** Cache key for the embedding of `text` by the provider `providerId`. */
+export function embeddingCacheKey(providerId: string, text: string): string {
+  return createHash('sha256').update(providerId).update('\0').update(text).digest('hex');
+}
+
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  private readonly vectors = new Map<string, number[]>();
+
+  async get(key: string): Promise<number[] | undefined> {
+    return this.vectors.get(key);
+  }
+
+  async set(key: string, vector: number[]): Promise<void> {
+    this.vectors.set(key, vector);
+  }
+}
+
+/** One JSON file per vector, shared by every run on the machine. */
+export class DiskEmbeddingCache implements EmbeddingCache {
+  private readonly root: string;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.root = options.path ?? join(homedir(), '.cache', 'repo-tokenizer', 'embeddings');
+  }
+
+  async get(key: string): Promise<number[] | undefined> {
+    const target = this.pathFor(key);
+    let raw: string;
+    try {
+      raw = await readFile(target, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    try {
+      const vector = JSON.parse(raw) as unknown;
+      return Array.isArray(vector) ? (vector as number[]) : undefined;
+    } catch {
+      await rm(target, { force: true });
+      return undefined;
+    }
+  }
+
+  async set(key: string, vector: number[]): Promise<void> {
+    const target = this.pathFor(key);
+    await mkdir(join(this.root, key.slice(0, 2)), { recursive: true });
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temp, JSON.stringify(vector), 'utf8');
+    await rename(temp, target);
+  }
+
+  private pathFor(key: string): string {
+    return join(this.root, key.slice(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,69 @@
+import type { FetchLike } from '../integrations/types';
+import type { EmbeddingProvider, HttpEmbeddingProviderOptions } from './types';
+
+const DEFAULT_BATCH_SIZE = 64;
+
+interface EmbeddingResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+/**
+ * Embeds texts with a self-hosted model behind an OpenAI-compatible
+ * `POST /embeddings` endpoint (llama.cpp, vLLM, Ollama, text-embeddings-inference).
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  private readonly url: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+  private readonly batchSize: number;
+  private readonly dimensions?: number;
+  private readonly fetchImpl: FetchLike;
+
+  constructor(options: HttpEmbeddingProviderOptions, fetchImpl: FetchLike) {
+    if (!options.baseUrl || !options.model) {
+      throw new Error('Embedding provider requires both "baseUrl" and "model" options');
+    }
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/embeddings`;
+    this.model = options.model;
+    this.apiKey = options.apiKey ?? (options.apiKeyEnv ? process.env[options.apiKeyEnv] : undefined);
+    this.batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+    this.dimensions = options.dimensions;
+    this.fetchImpl = fetchImpl;
+    this.id = `http:${this.url}#${this.model}${this.dimensions ? `@${this.dimensions}` : ''}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      vectors.push(...(await this.embedBatch(texts.slice(start, start + this.batchSize))));
+    }
+    return vectors;
+  }
+
+  private async embedBatch(input: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+    const response = await this.fetchImpl(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input, ...(this.dimensions ? { dimensions: this.dimensions } : {}) }),
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`Embedding request failed (${response.status}): ${text.slice(0, 200)}`);
+    }
+    const payload = (await response.json()) as EmbeddingResponse;
+    const data = payload.data ?? [];
+    if (data.length !== input.length || data.some((entry) => !Array.isArray(entry.embedding))) {
+      throw new Error(`Embedding response has ${data.length} embeddings for ${input.length} inputs`);
+    }
+    return data
+      .map((entry, position) => ({ index: entry.index ?? position, embedding: entry.embedding! }))
+      .sort((a, b) => a.index - b.index)
+      .map((entry) => entry.embedding);
+  }
+}
@@ -0,0 +1,57 @@
+import type { FetchLike } from '../integrations/types';
+import { embeddingCacheKey } from './cache';
+import { HttpEmbeddingProvider } from './http';
+import type { EmbeddingCache, EmbeddingProvider, HttpEmbeddingProviderOptions } from './types';
+
+export * from './types';
+export { HttpEmbeddingProvider } from './http';
+export { DiskEmbeddingCache, MemoryEmbeddingCache, embeddingCacheKey } from './cache';
+
+export function createEmbeddingProvider(options: HttpEmbeddingProviderOptions, fetchImpl?: FetchLike): EmbeddingProvider {
+  const effectiveFetch = fetchImpl ?? (typeof globalThis.fetch === 'function' ? globalThis.fetch.bind(globalThis) : undefined);
+  if (!effectiveFetch) {
+    throw new Error('No fetch implementation available for embedding provider');
+  }
+  return new HttpEmbeddingProvider(options, effectiveFetch);
+}
+
+/**
+ * Embeds `texts`, taking vectors from `cache` where present and asking the
+ * provider only for the rest (each distinct text once).
+ */
+export async function embedTexts(provider: EmbeddingProvider, cache: EmbeddingCache, texts: string[]): Promise<number[][]> {
+  const keys = texts.map((text) => embeddingCacheKey(provider.id, text));
+  const vectors = await Promise.all(keys.map((key) => cache.get(key)));
+  const missing = new Map<string, string>();
+  keys.forEach((key, index) => {
+    if (!vectors[index]) {
+      missing.set(key, texts[index]);
+    }
+  });
+  if (missing.size > 0) {
+    const embedded = await provider.embed(Array.from(missing.values()));
+    const byKey = new Map<string, number[]>();
+    Array.from(missing.keys()).forEach((key, index) => byKey.set(key, embedded[index]));
+    await Promise.all(Array.from(byKey.entries()).map(([key, vector]) => cache.set(key, vector)));
+    keys.forEach((key, index) => {
+      vectors[index] ??= byKey.get(key);
+    });
+  }
+  return vectors as number[][];
+}
+
+/** Cosine similarity of two vectors; 0 when either is all zeros or their sizes differ. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    return 0;
+  }
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,29 @@
+/** Turns texts into vectors. Implementations must return one vector per text, in order. */
+export interface EmbeddingProvider {
+  /** Identifies the model and its settings; part of every embedding cache key. */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface HttpEmbeddingProviderOptions {
+  /** Base URL of an OpenAI-compatible API, e.g. `http://localhost:8080/v1`. `/embeddings` is appended. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  apiKeyEnv?: string;
+  /** Texts per request. Defaults to 64. */
+  batchSize?: number;
+  /** Requested vector size, for models that support shortening. */
+  dimensions?: number;
+}
+
+/** Vectors keyed by `embeddingCacheKey`. */
+export interface EmbeddingCache {
+  get(key: string): Promise<number[] | undefined>;
+  set(key: string, vector: number[]): Promise<void>;
+}
+
+export interface EmbeddingCacheOptions {
+  /** Cache directory. Defaults to ~/.cache/repo-tokenizer/embeddings. */
+  path?: string;
+}
@@ -1,9 +1,15 @@
-import { createCipheriv, randomBytes, scryptSync } from 'node:crypto';
-import { createWriteStream } from 'node:fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { open } from 'node:fs/promises';
 import { once } from 'node:events';
-import type { Cipher } from 'node:crypto';
+import { Readable, Transform, pipeline } from 'node:stream';
+import type { Cipher, DecipherGCM } from 'node:crypto';
 
 const MAGIC = Buffer.from('RPTK1');
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = MAGIC.length + SALT_LENGTH + IV_LENGTH;
 
 interface EncryptedWriter {
   stream: Cipher;
@@ -42,3 +48,91 @@ export function encryptBuffer(buffer: Buffer, password: string): Buffer {
   const tag = cipher.getAuthTag();
   return Buffer.concat([MAGIC, salt, iv, encrypted, tag]);
 }
+
+interface EncryptedHeader {
+  salt: Buffer;
+  iv: Buffer;
+}
+
+export function isEncryptedPayload(header: Buffer): boolean {
+  return header.length >= MAGIC.length && header.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+function parseHeader(header: Buffer, totalLength: number, source: string): EncryptedHeader {
+  if (!isEncryptedPayload(header)) {
+    throw new Error(`${source} is not an RPTK1 encrypted export`);
+  }
+  if (totalLength < HEADER_LENGTH + TAG_LENGTH) {
+    throw new Error(`${source} is truncated: missing RPTK1 header or authentication tag`);
+  }
+  return {
+    salt: header.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH),
+    iv: header.subarray(MAGIC.length + SALT_LENGTH, HEADER_LENGTH),
+  };
+}
+
+function createDecipher(header: EncryptedHeader, tag: Buffer, password: string): DecipherGCM {
+  const key = scryptSync(password, header.salt, 32);
+  const decipher = createDecipheriv('aes-256-gcm', key, header.iv);
+  decipher.setAuthTag(tag);
+  return decipher;
+}
+
+function authenticationError(source: string): Error {
+  return new Error(`Failed to decrypt ${source}: wrong password or the file has been tampered with`);
+}
+
+export function decryptBuffer(buffer: Buffer, password: string): Buffer {
+  const header = parseHeader(buffer.subarray(0, HEADER_LENGTH), buffer.length, 'Payload');
+  const decipher = createDecipher(header, buffer.subarray(buffer.length - TAG_LENGTH), password);
+  try {
+    return Buffer.concat([
+      decipher.update(buffer.subarray(HEADER_LENGTH, buffer.length - TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw authenticationError('payload');
+  }
+}
+
+/**
+ * Streams the plaintext of an encrypted export. GCM only authenticates once the
+ * whole ciphertext has been read, so plaintext chunks are emitted before the
+ * check; consumers must treat a stream error as a failed decryption and
+ * discard what they received.
+ */
+export async function createDecryptedFileReader(path: string, password: string): Promise<Readable> {
+  const handle = await open(path, 'r');
+  let header: EncryptedHeader;
+  let tag: Buffer;
+  let size: number;
+  try {
+    size = (await handle.stat()).size;
+    const headerBuffer = Buffer.alloc(HEADER_LENGTH);
+    const { bytesRead } = await handle.read(headerBuffer, 0, HEADER_LENGTH, 0);
+    header = parseHeader(headerBuffer.subarray(0, bytesRead), size, path);
+    tag = Buffer.alloc(TAG_LENGTH);
+    await handle.read(tag, 0, TAG_LENGTH, size - TAG_LENGTH);
+  } finally {
+    await handle.close();
+  }
+
+  const decipher = createDecipher(header, tag, password);
+  const transform = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, decipher.update(chunk));
+    },
+    flush(callback) {
+      try {
+        callback(null, decipher.final());
+      } catch {
+        callback(authenticationError(path));
+      }
+    },
+  });
+  const ciphertext =
+    size > HEADER_LENGTH + TAG_LENGTH
+      ? createReadStream(path, { start: HEADER_LENGTH, end: size - TAG_LENGTH - 1 })
+      : Readable.from([]);
+  return pipeline(ciphertext, transform, () => undefined);
+}
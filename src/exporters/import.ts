@@ -0,0 +1,161 @@
+import { open, readFile } from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { extname } from 'node:path';
+import { Readable } from 'node:stream';
+import { CallEdge, IndexChunk, IndexChunkingSummary, IndexFileMetadata, IndexResult } from '../indexer';
+import type { RepositorySpec } from '../ingest';
+import type { SecretFinding } from '../normalization';
+import { readIndexFromJsonl } from './jsonl';
+import { readIndexFromSqlite } from './sqlite';
+import { decryptBuffer, isEncryptedPayload } from './encryption';
+
+export type ImportFormat = 'jsonl' | 'sqlite';
+
+/**
+ * Raw records recovered from an export. `metadata` is absent for exports
+ * written before the exporters started recording spec/ref/createdAt.
+ */
+export interface ImportedIndexRecords {
+  metadata?: {
+    spec?: RepositorySpec;
+    ref?: string;
+    createdAt?: string;
+    chunking?: IndexChunkingSummary;
+  };
+  files: IndexFileMetadata[];
+  chunks: IndexChunk[];
+  secretFindings: SecretFinding[];
+  /** Call graph edges; empty for exports written before they were recorded. */
+  calls: CallEdge[];
+}
+
+export interface ImportIndexOptions {
+  format?: ImportFormat;
+  /** Repository the index is registered under; defaults to the spec recorded in the export. */
+  spec?: RepositorySpec;
+  /** Ref the index is registered under; defaults to the ref recorded in the export. */
+  ref?: string;
+  /** Password for RPTK1 encrypted exports. */
+  password?: string;
+}
+
+const SQLITE_HEADER = Buffer.from('SQLite format 3\0');
+
+/**
+ * Exports do not carry raw file contents, so they are rebuilt from the chunk
+ * line ranges, or from the line map of compacted chunks. Lines not covered by
+ * any chunk, and lines compaction removed, are left empty.
+ */
+function reconstructFileContents(files: IndexFileMetadata[], chunks: IndexChunk[]): Record<string, string> {
+  const linesByPath = new Map<string, string[]>();
+  files.forEach((file) => linesByPath.set(file.path, []));
+  for (const chunk of chunks) {
+    if (chunk.metadata.origin !== 'file') {
+      continue;
+    }
+    const chunkLines = chunk.text.split('\n');
+    const { lineMap, startLine, endLine } = chunk.metadata;
+    if (chunkLines.length !== (lineMap ? lineMap.length : endLine - startLine + 1)) {
+      continue;
+    }
+    const lines = linesByPath.get(chunk.metadata.path) ?? [];
+    chunkLines.forEach((line, offset) => {
+      lines[(lineMap ? lineMap[offset] : startLine + offset) - 1] = line;
+    });
+    linesByPath.set(chunk.metadata.path, lines);
+  }
+  const contents: Record<string, string> = {};
+  linesByPath.forEach((lines, path) => {
+    contents[path] = Array.from(lines, (line) => line ?? '').join('\n');
+  });
+  return contents;
+}
+
+export function buildIndexFromRecords(records: ImportedIndexRecords, options: ImportIndexOptions = {}): IndexResult {
+  const spec = options.spec ?? records.metadata?.spec;
+  if (!spec) {
+    throw new Error('Export does not record its repository; pass a repository spec to import it.');
+  }
+  const fileLanguageByHash: Record<string, string | undefined> = {};
+  records.files.forEach((file) => {
+    fileLanguageByHash[file.hash] = file.language;
+  });
+  return {
+    spec,
+    ref: options.ref ?? records.metadata?.ref,
+    files: records.files,
+    chunks: records.chunks,
+    createdAt: records.metadata?.createdAt ?? new Date().toISOString(),
+    fileLanguageByHash,
+    fileContents: reconstructFileContents(records.files, records.chunks),
+    secretFindings: records.secretFindings,
+    ...(records.metadata?.chunking ? { chunking: records.metadata.chunking } : {}),
+    ...(records.calls.length > 0 ? { callGraph: records.calls } : {}),
+  };
+}
+
+async function readHeader(path: string): Promise<Buffer> {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(SQLITE_HEADER.length);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function formatFromExtension(path: string): ImportFormat | undefined {
+  const extension = extname(path).toLowerCase();
+  if (extension === '.sqlite' || extension === '.db') {
+    return 'sqlite';
+  }
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return 'jsonl';
+  }
+  return undefined;
+}
+
+function formatFromHeader(header: Buffer): ImportFormat {
+  return header.subarray(0, SQLITE_HEADER.length).equals(SQLITE_HEADER) ? 'sqlite' : 'jsonl';
+}
+
+/**
+ * Imports keep every record in memory anyway, so the payload is authenticated
+ * as a whole before parsing instead of parsing unauthenticated plaintext.
+ */
+async function readEncryptedRecords(
+  path: string,
+  password: string,
+  format: ImportFormat | undefined,
+): Promise<ImportedIndexRecords> {
+  const buffer = decryptBuffer(await readFile(path), password);
+  if ((format ?? formatFromHeader(buffer)) === 'sqlite') {
+    return readIndexFromSqlite(buffer);
+  }
+  return readIndexFromJsonl(Readable.from([buffer.toString('utf8')]));
+}
+
+/**
+ * Reads a JSONL or SQLite export from disk, decrypting it first when it is an
+ * RPTK1 file, and rebuilds the IndexResult it was written from.
+ */
+export async function importIndexFromFile(path: string, options: ImportIndexOptions = {}): Promise<IndexResult> {
+  const header = await readHeader(path);
+  const format = options.format ?? formatFromExtension(path);
+  if (format && format !== 'jsonl' && format !== 'sqlite') {
+    throw new Error(`Unsupported import format: ${String(format)}`);
+  }
+  let records: ImportedIndexRecords;
+  if (isEncryptedPayload(header)) {
+    if (!options.password) {
+      throw new Error(`${path} is encrypted; provide the export password to import it.`);
+    }
+    records = await readEncryptedRecords(path, options.password, format);
+  } else if ((format ?? formatFromHeader(header)) === 'sqlite') {
+    records = await readIndexFromSqlite(await readFile(path));
+  } else {
+    records = await readIndexFromJsonl(createReadStream(path, { encoding: 'utf8' }));
+  }
+  return buildIndexFromRecords(records, options);
+}
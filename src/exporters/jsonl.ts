@@ -1,6 +1,10 @@
-import { Writable } from 'node:stream';
+import { Readable, Writable } from 'node:stream';
 import { once } from 'node:events';
-import { IndexResult } from '../indexer';
+import { createInterface } from 'node:readline';
+import { CallEdge, IndexChunk, IndexFileMetadata, IndexResult } from '../indexer';
+import { withContextualText } from '../chunker';
+import type { SecretFinding } from '../normalization';
+import type { ImportedIndexRecords } from './import';
 
 async function writeLine(stream: Writable, line: string) {
   if (!stream.write(`${line}\n`)) {
@@ -8,14 +12,77 @@ async function writeLine(stream: Writable, line: string) {
   }
 }
 
-export async function exportIndexToJsonl(result: IndexResult, stream: Writable): Promise<void> {
+export interface JsonlExportOptions {
+  /** Add `contextualText` (context header, blank line, text) to every chunk record. */
+  contextHeaders?: boolean;
+}
+
+export async function exportIndexToJsonl(
+  result: IndexResult,
+  stream: Writable,
+  options: JsonlExportOptions = {},
+): Promise<void> {
+  await writeLine(
+    stream,
+    JSON.stringify({
+      type: 'index',
+      data: { spec: result.spec, ref: result.ref, createdAt: result.createdAt, chunking: result.chunking },
+    }),
+  );
   for (const file of result.files) {
     await writeLine(stream, JSON.stringify({ type: 'file', data: file }));
   }
   for (const chunk of result.chunks) {
-    await writeLine(stream, JSON.stringify({ type: 'chunk', data: chunk }));
+    const data = options.contextHeaders
+      ? withContextualText(chunk, result.fileLanguageByHash[chunk.fileHash])
+      : chunk;
+    await writeLine(stream, JSON.stringify({ type: 'chunk', data }));
   }
   for (const finding of result.secretFindings) {
     await writeLine(stream, JSON.stringify({ type: 'secret_finding', data: finding }));
   }
+  for (const call of result.callGraph ?? []) {
+    await writeLine(stream, JSON.stringify({ type: 'call', data: call }));
+  }
+}
+
+export async function readIndexFromJsonl(input: Readable): Promise<ImportedIndexRecords> {
+  const records: ImportedIndexRecords = { files: [], chunks: [], secretFindings: [], calls: [] };
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber += 1;
+    if (!line.trim()) {
+      continue;
+    }
+    let record: { type?: string; data?: unknown };
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid JSONL record at line ${lineNumber}: ${(error as Error).message}`);
+    }
+    switch (record.type) {
+      case 'index':
+        records.metadata = record.data as ImportedIndexRecords['metadata'];
+        break;
+      case 'file':
+        records.files.push(record.data as IndexFileMetadata);
+        break;
+      case 'chunk': {
+        // Exports written with context headers carry a derived `contextualText` that is not part of the index.
+        const { contextualText: _contextualText, ...chunk } = record.data as IndexChunk & { contextualText?: string };
+        records.chunks.push(chunk);
+        break;
+      }
+      case 'secret_finding':
+        records.secretFindings.push(record.data as SecretFinding);
+        break;
+      case 'call':
+        records.calls.push(record.data as CallEdge);
+        break;
+      default:
+        break;
+    }
+  }
+  return records;
 }
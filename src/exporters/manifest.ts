@@ -0,0 +1,216 @@
+import { createHash, createPrivateKey, createPublicKey, sign, verify } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+import type { KeyObject } from 'node:crypto';
+import { IndexChunkingSummary, IndexResult } from '../indexer';
+import { stableStringify } from '../common/json';
+
+const MANIFEST_VERSION = 1;
+
+export interface ExportManifestSignature {
+  algorithm: 'ed25519';
+  /** SPKI PEM of the signing key, so verifiers can pin it. */
+  publicKey: string;
+  /** Base64 signature over the canonical manifest without this field. */
+  value: string;
+}
+
+export interface ExportManifest {
+  version: number;
+  artifact: {
+    /** Artifact file name, resolved relative to the manifest when verifying. */
+    path: string;
+    format: string;
+    sha256: string;
+    size: number;
+    encrypted: boolean;
+  };
+  repository: { type: string; path?: string; url?: string };
+  ref?: string;
+  commit?: string;
+  createdAt: string;
+  counts: {
+    files: number;
+    chunks: number;
+    secretFindings: number;
+  };
+  chunking?: IndexChunkingSummary;
+  signature?: ExportManifestSignature;
+}
+
+export interface BuildExportManifestOptions {
+  artifactPath: string;
+  format: string;
+  encrypted?: boolean;
+  /** Ref the export was requested for; the resolved commit is taken from the index. */
+  ref?: string;
+}
+
+export interface VerifyExportManifestOptions {
+  /** Artifact to check; defaults to the manifest's artifact path next to the manifest. */
+  artifactPath?: string;
+  /** Trusted Ed25519 public key (PEM). When set, the manifest must be signed by it. */
+  publicKey?: string;
+}
+
+export interface ExportManifestVerification {
+  valid: boolean;
+  artifactPath: string;
+  signed: boolean;
+  errors: string[];
+  /** Caveats that do not fail verification, e.g. a signature checked only against the key it ships with. */
+  warnings: string[];
+}
+
+export async function computeFileSha256(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+export function defaultManifestPath(artifactPath: string): string {
+  return `${artifactPath}.manifest.json`;
+}
+
+function canonicalPayload(manifest: ExportManifest): Buffer {
+  const { signature: _signature, ...unsigned } = manifest;
+  return Buffer.from(stableStringify(unsigned), 'utf8');
+}
+
+function loadPrivateKey(pem: string): KeyObject {
+  const key = createPrivateKey(pem);
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Manifest signing requires an Ed25519 key, got ${key.asymmetricKeyType ?? 'unknown'}`);
+  }
+  return key;
+}
+
+export async function buildExportManifest(
+  result: IndexResult,
+  options: BuildExportManifestOptions,
+): Promise<ExportManifest> {
+  const info = await stat(options.artifactPath);
+  return {
+    version: MANIFEST_VERSION,
+    artifact: {
+      path: basename(options.artifactPath),
+      format: options.format,
+      sha256: await computeFileSha256(options.artifactPath),
+      size: info.size,
+      encrypted: Boolean(options.encrypted),
+    },
+    repository: { type: result.spec.type, path: result.spec.path, url: result.spec.url },
+    ref: options.ref ?? result.ref,
+    commit: result.spec.type === 'git' ? result.ref : undefined,
+    createdAt: result.createdAt,
+    counts: {
+      files: result.files.length,
+      chunks: result.chunks.length,
+      secretFindings: result.secretFindings.length,
+    },
+    chunking: result.chunking,
+  };
+}
+
+export function signExportManifest(manifest: ExportManifest, privateKeyPem: string): ExportManifest {
+  const privateKey = loadPrivateKey(privateKeyPem);
+  const publicKey = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+  return {
+    ...manifest,
+    signature: {
+      algorithm: 'ed25519',
+      publicKey,
+      value: sign(null, canonicalPayload(manifest), privateKey).toString('base64'),
+    },
+  };
+}
+
+export async function writeExportManifest(manifest: ExportManifest, manifestPath: string): Promise<void> {
+  await writeFile(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+}
+
+export async function readExportManifest(manifestPath: string): Promise<ExportManifest> {
+  const raw = await readFile(manifestPath, 'utf8');
+  let manifest: ExportManifest;
+  try {
+    manifest = JSON.parse(raw) as ExportManifest;
+  } catch (error) {
+    throw new Error(`Invalid export manifest at ${manifestPath}: ${(error as Error).message}`);
+  }
+  if (manifest.version !== MANIFEST_VERSION || !manifest.artifact?.sha256) {
+    throw new Error(`Unsupported export manifest at ${manifestPath}`);
+  }
+  return manifest;
+}
+
+function checkSignature(manifest: ExportManifest, trustedKeyPem: string | undefined, errors: string[]): void {
+  const signature = manifest.signature;
+  if (!signature) {
+    if (trustedKeyPem) {
+      errors.push('Manifest is not signed');
+    }
+    return;
+  }
+  if (signature.algorithm !== 'ed25519') {
+    errors.push(`Unsupported signature algorithm: ${String(signature.algorithm)}`);
+    return;
+  }
+  let publicKey: KeyObject;
+  try {
+    publicKey = createPublicKey(trustedKeyPem ?? signature.publicKey);
+  } catch (error) {
+    errors.push(`Invalid public key: ${(error as Error).message}`);
+    return;
+  }
+  const valid = verify(null, canonicalPayload(manifest), publicKey, Buffer.from(signature.value, 'base64'));
+  if (!valid) {
+    errors.push(trustedKeyPem ? 'Signature does not match the trusted public key' : 'Signature is invalid');
+  }
+}
+
+/**
+ * Checks an artifact against its manifest: size and SHA-256 must match, and
+ * the Ed25519 signature must verify when present (or when a trusted key is
+ * supplied). All problems are collected rather than failing on the first one.
+ * Without a trusted key the signature is checked against the key embedded in
+ * the manifest, and `warnings` says so.
+ */
+export async function verifyExportManifest(
+  manifestPath: string,
+  options: VerifyExportManifestOptions = {},
+): Promise<ExportManifestVerification> {
+  const manifest = await readExportManifest(manifestPath);
+  const artifactPath = options.artifactPath ?? resolve(dirname(manifestPath), manifest.artifact.path);
+  const errors: string[] = [];
+
+  const info = await stat(artifactPath).catch(() => undefined);
+  if (!info) {
+    errors.push(`Artifact not found: ${artifactPath}`);
+  } else {
+    if (info.size !== manifest.artifact.size) {
+      errors.push(`Size mismatch: expected ${manifest.artifact.size} bytes, found ${info.size}`);
+    }
+    const digest = await computeFileSha256(artifactPath);
+    if (digest !== manifest.artifact.sha256) {
+      errors.push(`SHA-256 mismatch: expected ${manifest.artifact.sha256}, found ${digest}`);
+    }
+  }
+  checkSignature(manifest, options.publicKey, errors);
+  const warnings: string[] = [];
+  if (manifest.signature && !options.publicKey) {
+    warnings.push(
+      'Signature was only checked against the public key embedded in the manifest, which proves integrity but not origin; supply a trusted public key to verify the signer',
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    artifactPath,
+    signed: Boolean(manifest.signature),
+    errors,
+    warnings,
+  };
+}
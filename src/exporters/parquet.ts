@@ -10,6 +10,8 @@ const CHUNK_SCHEMA = new ParquetSchema({
   start_line: { type: 'INT64' },
   end_line: { type: 'INT64' },
   token_count: { type: 'INT64', optional: true },
+  /** JSON object of token counts keyed by tokenizer id. */
+  token_counts: { type: 'UTF8', optional: true },
   language: { type: 'UTF8', optional: true },
 });
 
@@ -24,6 +26,7 @@ export async function exportIndexToParquet(index: IndexResult, filePath: string)
         start_line: chunk.metadata.startLine,
         end_line: chunk.metadata.endLine,
         token_count: chunk.metadata.tokenCount ?? null,
+        token_counts: chunk.metadata.tokenCounts ? JSON.stringify(chunk.metadata.tokenCounts) : null,
         language: index.fileLanguageByHash[chunk.fileHash] ?? null,
       });
     }
@@ -47,6 +50,7 @@ export async function buildParquetBuffer(index: IndexResult): Promise<Buffer> {
         start_line: chunk.metadata.startLine,
         end_line: chunk.metadata.endLine,
         token_count: chunk.metadata.tokenCount ?? null,
+        token_counts: chunk.metadata.tokenCounts ? JSON.stringify(chunk.metadata.tokenCounts) : null,
         language: index.fileLanguageByHash[chunk.fileHash] ?? null,
       });
     }
@@ -0,0 +1,169 @@
+import type { IndexChunk } from '../indexer';
+import { renderContextHeader } from '../chunker';
+
+export type PromptFormat = 'markdown' | 'xml' | 'repo';
+
+export const PROMPT_FORMATS: PromptFormat[] = ['markdown', 'xml', 'repo'];
+
+export interface PromptRenderOptions {
+  format: PromptFormat;
+  /** Language per file hash (`IndexResult.fileLanguageByHash`), used for Markdown fences and context headers. */
+  languageByHash?: Record<string, string | undefined>;
+  /** Put each chunk's context header before its text. */
+  contextHeaders?: boolean;
+}
+
+const FENCE_LANGUAGES: Record<string, string> = {
+  'c++': 'cpp',
+  'c#': 'csharp',
+  'objective-c': 'objectivec',
+};
+const FILE_SEPARATOR = '='.repeat(32);
+
+export function isPromptFormat(value: string): value is PromptFormat {
+  return (PROMPT_FORMATS as string[]).includes(value);
+}
+
+function lineLabel(chunk: IndexChunk): string {
+  const { startLine, endLine } = chunk.metadata;
+  return startLine === endLine ? `line ${startLine}` : `lines ${startLine}-${endLine}`;
+}
+
+function headerOf(chunk: IndexChunk, options: PromptRenderOptions): string | undefined {
+  if (!options.contextHeaders) {
+    return undefined;
+  }
+  return chunk.metadata.contextHeader ?? renderContextHeader(chunk.metadata, options.languageByHash?.[chunk.fileHash]);
+}
+
+/** A backtick fence longer than any backtick run inside `text`. */
+function fenceFor(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function renderMarkdown(chunks: IndexChunk[], options: PromptRenderOptions): string {
+  return chunks
+    .map((chunk) => {
+      const language = options.languageByHash?.[chunk.fileHash]?.toLowerCase() ?? '';
+      const fence = fenceFor(chunk.text);
+      const header = headerOf(chunk, options);
+      return [
+        `## ${chunk.metadata.path} (${lineLabel(chunk)})`,
+        '',
+        ...(header ? [header, ''] : []),
+        `${fence}${FENCE_LANGUAGES[language] ?? language}`,
+        chunk.text,
+        fence,
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+function renderXml(chunks: IndexChunk[], options: PromptRenderOptions): string {
+  if (chunks.length === 0) {
+    return '';
+  }
+  const documents = chunks.map((chunk, index) => {
+    const { path, startLine, endLine } = chunk.metadata;
+    const header = headerOf(chunk, options);
+    return [
+      `<document index="${index + 1}">`,
+      `<source>${path}:${startLine}-${endLine}</source>`,
+      ...(header ? [`<context>\n${header}\n</context>`] : []),
+      '<document_content>',
+      chunk.text,
+      '</document_content>',
+      '</document>',
+    ].join('\n');
+  });
+  return ['<documents>', ...documents, '</documents>'].join('\n');
+}
+
+function renderDirectoryTree(paths: string[]): string {
+  const lines: string[] = [];
+  let previous: string[] = [];
+  for (const path of paths) {
+    const segments = path.split('/');
+    const directories = segments.slice(0, -1);
+    let shared = 0;
+    while (shared < directories.length && shared < previous.length && directories[shared] === previous[shared]) {
+      shared += 1;
+    }
+    for (let depth = shared; depth < directories.length; depth += 1) {
+      lines.push(`${'  '.repeat(depth)}${directories[depth]}/`);
+    }
+    previous = directories;
+    lines.push(`${'  '.repeat(directories.length)}${segments[segments.length - 1]}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The chunks of one file in line order. Lines already covered by an earlier
+ * (overlapping) chunk are dropped and gaps between chunks become `...`.
+ */
+function renderFileBody(chunks: IndexChunk[], options: PromptRenderOptions): string {
+  const parts: string[] = [];
+  let lastLine = 0;
+  for (const chunk of chunks.slice().sort((a, b) => a.metadata.startLine - b.metadata.startLine)) {
+    const lines = chunk.text.split('\n');
+    const sourceLine = (index: number) => chunk.metadata.lineMap?.[index] ?? chunk.metadata.startLine + index;
+    let first = 0;
+    while (first < lines.length && sourceLine(first) <= lastLine) {
+      first += 1;
+    }
+    if (first === lines.length) {
+      continue;
+    }
+    if (lastLine > 0 && sourceLine(first) > lastLine + 1) {
+      parts.push('...');
+    }
+    const header = headerOf(chunk, options);
+    if (header) {
+      parts.push(header, '');
+    }
+    parts.push(lines.slice(first).join('\n'));
+    lastLine = Math.max(lastLine, sourceLine(lines.length - 1));
+  }
+  return parts.join('\n');
+}
+
+function renderRepo(chunks: IndexChunk[], options: PromptRenderOptions): string {
+  if (chunks.length === 0) {
+    return '';
+  }
+  const byPath = new Map<string, IndexChunk[]>();
+  for (const chunk of chunks) {
+    const entries = byPath.get(chunk.metadata.path) ?? [];
+    entries.push(chunk);
+    byPath.set(chunk.metadata.path, entries);
+  }
+  const paths = Array.from(byPath.keys()).sort();
+  const sections = paths.map((path) =>
+    [FILE_SEPARATOR, `File: ${path}`, FILE_SEPARATOR, renderFileBody(byPath.get(path)!, options)].join('\n'),
+  );
+  return ['Directory structure:', renderDirectoryTree(paths), '', ...sections].join('\n');
+}
+
+/**
+ * Renders chunks as prompt text:
+ *
+ * - `markdown`: a `path (lines)` heading and a fenced code block per chunk
+ * - `xml`: `<document>` elements with `<source>` and `<document_content>` inside `<documents>`
+ * - `repo`: a directory tree followed by each file's chunks under a `File:` separator
+ *
+ * Markdown and XML keep the order of `chunks`; `repo` groups them by path.
+ */
+export function renderPrompt(chunks: IndexChunk[], options: PromptRenderOptions): string {
+  switch (options.format) {
+    case 'markdown':
+      return renderMarkdown(chunks, options);
+    case 'xml':
+      return renderXml(chunks, options);
+    case 'repo':
+      return renderRepo(chunks, options);
+    default:
+      throw new Error(`Unsupported prompt format: ${options.format as string}`);
+  }
+}
@@ -1,8 +1,17 @@
 import { writeFile } from 'node:fs/promises';
 import initSqlJs, { Database } from 'sql.js';
-import { IndexResult } from '../indexer';
+import { CallEdge, IndexChunk, IndexFileMetadata, IndexResult } from '../indexer';
+import type { ChunkOrigin } from '../chunker';
+import type { ImportedIndexRecords } from './import';
 
 function createSchema(db: Database) {
+  db.run(`
+    CREATE TABLE metadata (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+  `);
+
   db.run(`
     CREATE TABLE files (
       path TEXT PRIMARY KEY,
@@ -24,7 +33,19 @@ function createSchema(db: Database) {
       chunk_index INTEGER,
       total_chunks INTEGER,
       text TEXT,
-      file_hash TEXT
+      file_hash TEXT,
+      origin TEXT,
+      section TEXT,
+      header TEXT,
+      cell_index INTEGER,
+      cell_type TEXT,
+      key_path TEXT,
+      document_index INTEGER,
+      token_counts TEXT,
+      line_map TEXT,
+      occurrence INTEGER,
+      context_header TEXT,
+      context_header_tokens INTEGER
     );
   `);
 
@@ -39,6 +60,20 @@ function createSchema(db: Database) {
       excerpt TEXT
     );
   `);
+
+  db.run(`
+    CREATE TABLE calls (
+      caller TEXT,
+      caller_container TEXT,
+      callee TEXT,
+      path TEXT,
+      line INTEGER,
+      column INTEGER
+    );
+  `);
+
+  db.run('CREATE INDEX idx_calls_caller ON calls(caller);');
+  db.run('CREATE INDEX idx_calls_callee ON calls(callee);');
 }
 
 export async function buildSqliteBuffer(result: IndexResult): Promise<Buffer> {
@@ -47,11 +82,22 @@ export async function buildSqliteBuffer(result: IndexResult): Promise<Buffer> {
 
   try {
     createSchema(db);
+    const insertMetadata = db.prepare('INSERT INTO metadata(key, value) VALUES (?, ?)');
+    insertMetadata.run(['spec', JSON.stringify(result.spec)]);
+    if (result.ref) {
+      insertMetadata.run(['ref', result.ref]);
+    }
+    insertMetadata.run(['created_at', result.createdAt]);
+    if (result.chunking) {
+      insertMetadata.run(['chunking', JSON.stringify(result.chunking)]);
+    }
+    insertMetadata.free();
+
     const insertFile = db.prepare(
       'INSERT INTO files(path, size, hash, language, executable) VALUES (?, ?, ?, ?, ?)',
     );
     const insertChunk = db.prepare(
-      'INSERT INTO chunks(id, path, start_line, end_line, token_count, char_count, chunk_index, total_chunks, text, file_hash) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      'INSERT INTO chunks(id, path, start_line, end_line, token_count, char_count, chunk_index, total_chunks, text, file_hash, origin, section, header, cell_index, cell_type, key_path, document_index, token_counts, line_map, occurrence, context_header, context_header_tokens) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
     );
     const insertSecret = db.prepare(
       'INSERT INTO secret_findings(path, line, rule_id, excerpt) VALUES (?, ?, ?, ?)',
@@ -80,6 +126,18 @@ export async function buildSqliteBuffer(result: IndexResult): Promise<Buffer> {
         chunk.metadata.totalChunks,
         chunk.text,
         chunk.fileHash,
+        chunk.metadata.origin,
+        chunk.metadata.section ?? null,
+        chunk.metadata.header ?? null,
+        chunk.metadata.cellIndex ?? null,
+        chunk.metadata.cellType ?? null,
+        chunk.metadata.keyPath ?? null,
+        chunk.metadata.documentIndex ?? null,
+        chunk.metadata.tokenCounts ? JSON.stringify(chunk.metadata.tokenCounts) : null,
+        chunk.metadata.lineMap ? JSON.stringify(chunk.metadata.lineMap) : null,
+        chunk.metadata.occurrence ?? null,
+        chunk.metadata.contextHeader ?? null,
+        chunk.metadata.contextHeaderTokens ?? null,
       ]);
     }
     insertChunk.free();
@@ -94,6 +152,14 @@ export async function buildSqliteBuffer(result: IndexResult): Promise<Buffer> {
     }
     insertSecret.free();
 
+    const insertCall = db.prepare(
+      'INSERT INTO calls(caller, caller_container, callee, path, line, column) VALUES (?, ?, ?, ?, ?, ?)',
+    );
+    for (const call of result.callGraph ?? []) {
+      insertCall.run([call.caller, call.callerContainer ?? null, call.callee, call.path, call.line, call.column]);
+    }
+    insertCall.free();
+
     const binary = db.export();
     return Buffer.from(binary);
   } finally {
@@ -105,3 +171,107 @@ export async function exportIndexToSqlite(result: IndexResult, outputPath: strin
   const buffer = await buildSqliteBuffer(result);
   await writeFile(outputPath, buffer);
 }
+
+function selectRows(db: Database, sql: string): Array<Record<string, unknown>> {
+  const statement = db.prepare(sql);
+  const rows: Array<Record<string, unknown>> = [];
+  try {
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as Record<string, unknown>);
+    }
+  } finally {
+    statement.free();
+  }
+  return rows;
+}
+
+function hasTable(db: Database, name: string): boolean {
+  const statement = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?");
+  try {
+    statement.bind([name]);
+    return statement.step();
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * Reads a database written by buildSqliteBuffer. Databases exported before the
+ * metadata and calls tables and the newer chunk columns existed are still
+ * accepted.
+ */
+export async function readIndexFromSqlite(buffer: Buffer): Promise<ImportedIndexRecords> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(buffer);
+
+  try {
+    const records: ImportedIndexRecords = { files: [], chunks: [], secretFindings: [], calls: [] };
+    if (hasTable(db, 'metadata')) {
+      const values = new Map(
+        selectRows(db, 'SELECT key, value FROM metadata').map((row) => [String(row.key), String(row.value)]),
+      );
+      records.metadata = {
+        spec: values.has('spec') ? JSON.parse(values.get('spec')!) : undefined,
+        ref: values.get('ref'),
+        createdAt: values.get('created_at'),
+        chunking: values.has('chunking') ? JSON.parse(values.get('chunking')!) : undefined,
+      };
+    }
+
+    records.files = selectRows(db, 'SELECT * FROM files ORDER BY rowid').map((row): IndexFileMetadata => ({
+      path: String(row.path),
+      size: Number(row.size),
+      hash: String(row.hash),
+      language: row.language === null ? undefined : String(row.language),
+      executable: Number(row.executable) === 1,
+    }));
+
+    records.chunks = selectRows(db, 'SELECT * FROM chunks ORDER BY rowid').map((row): IndexChunk => ({
+      id: String(row.id),
+      text: String(row.text),
+      fileHash: String(row.file_hash),
+      metadata: {
+        origin: (row.origin as ChunkOrigin | null | undefined) ?? 'file',
+        path: String(row.path),
+        startLine: Number(row.start_line),
+        endLine: Number(row.end_line),
+        tokenCount: Number(row.token_count),
+        charCount: Number(row.char_count),
+        chunkIndex: Number(row.chunk_index),
+        totalChunks: Number(row.total_chunks),
+        ...(typeof row.section === 'string' ? { section: row.section } : {}),
+        ...(typeof row.header === 'string' ? { header: row.header } : {}),
+        ...(typeof row.cell_index === 'number' ? { cellIndex: row.cell_index, cellType: String(row.cell_type) } : {}),
+        ...(typeof row.key_path === 'string' ? { keyPath: row.key_path } : {}),
+        ...(typeof row.document_index === 'number' ? { documentIndex: row.document_index } : {}),
+        ...(typeof row.token_counts === 'string' ? { tokenCounts: JSON.parse(row.token_counts) } : {}),
+        ...(typeof row.line_map === 'string' ? { lineMap: JSON.parse(row.line_map) } : {}),
+        ...(typeof row.occurrence === 'number' ? { occurrence: row.occurrence } : {}),
+        ...(typeof row.context_header === 'string' ? { contextHeader: row.context_header } : {}),
+        ...(typeof row.context_header_tokens === 'number' ? { contextHeaderTokens: row.context_header_tokens } : {}),
+      },
+    }));
+
+    records.secretFindings = selectRows(db, 'SELECT * FROM secret_findings ORDER BY rowid').map((row) => ({
+      path: String(row.path),
+      line: Number(row.line),
+      ruleId: String(row.rule_id),
+      excerpt: String(row.excerpt),
+    }));
+
+    if (hasTable(db, 'calls')) {
+      records.calls = selectRows(db, 'SELECT * FROM calls ORDER BY rowid').map((row): CallEdge => ({
+        caller: String(row.caller),
+        ...(typeof row.caller_container === 'string' ? { callerContainer: row.caller_container } : {}),
+        callee: String(row.callee),
+        path: String(row.path),
+        line: Number(row.line),
+        column: Number(row.column),
+      }));
+    }
+
+    return records;
+  } finally {
+    db.close();
+  }
+}
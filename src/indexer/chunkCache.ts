@@ -0,0 +1,210 @@
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { extname, join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { ChunkingOptions, Tokenizer, computeChunkId } from '../chunker';
+import { stableStringify } from '../common/json';
+import type { CompactionOptions } from '../normalization';
+import { IndexChunk } from './types';
+
+const DEFAULT_MAX_SIZE_BYTES = 512 * 1024 * 1024;
+const CACHE_FORMAT_VERSION = 1;
+
+export interface ChunkCacheOptions {
+  /** Cache directory. Defaults to ~/.cache/repo-tokenizer/chunks so every run on the machine shares it. */
+  path?: string;
+  /** Evict least recently used entries once the cache grows beyond this size. */
+  maxSizeBytes?: number;
+}
+
+export interface ChunkCacheStats {
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Content-addressed chunk store shared across branches, worktrees and processes.
+ */
+export interface ChunkCacheStore {
+  /** Cached chunks moved to `path`; `tokenizer` re-counts their context headers and derives their ids. */
+  get(key: string, path: string, tokenizer?: Tokenizer): Promise<IndexChunk[] | undefined>;
+  set(key: string, chunks: IndexChunk[]): Promise<void>;
+}
+
+interface ChunkCacheEntry {
+  version: number;
+  key: string;
+  chunks: IndexChunk[];
+}
+
+/**
+ * Cache key derived from the file content hash, the tokenizer identity, the
+ * effective chunking options, any extra tokenizers chunks are counted with,
+ * the compaction options and the file's language and extension (which pick
+ * the chunker, comment syntax and context header), so a change to any of
+ * them produces a miss.
+ */
+export function computeChunkCacheKey(
+  fileHash: string,
+  options: ChunkingOptions,
+  tokenCounters: Array<[string, Tokenizer]> = [],
+  compaction?: CompactionOptions,
+  file?: { path: string; language?: string },
+): string {
+  const { tokenizer, ...rest } = options;
+  const hash = createHash('sha256')
+    .update(fileHash)
+    .update('\0')
+    .update(tokenizer.id)
+    .update('\0')
+    .update(tokenizer.version ?? '')
+    .update('\0')
+    .update(stableStringify(rest));
+  for (const [id, counter] of tokenCounters) {
+    hash.update('\0').update(id).update('@').update(counter.version ?? '');
+  }
+  if (compaction) {
+    hash.update('\0').update(stableStringify(compaction));
+  }
+  if (file) {
+    hash.update('\0').update(file.language ?? '').update('\0').update(extname(file.path).toLowerCase());
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Rewrites cached chunks for the path they are being reused at, keeping chunk
+ * identifiers consistent with freshly generated ones.
+ */
+function relocateChunks(chunks: IndexChunk[], path: string, tokenizer?: Tokenizer): IndexChunk[] {
+  return chunks.map((chunk) => {
+    if (chunk.metadata.path === path) {
+      return { ...chunk, metadata: { ...chunk.metadata } };
+    }
+    const { contextHeaderTokens: _contextHeaderTokens, ...metadata } = chunk.metadata;
+    const contextHeader = metadata.contextHeader?.replace(/^File: .*$/m, `File: ${path}`);
+    return {
+      ...chunk,
+      id: computeChunkId(path, { ...chunk.metadata, text: chunk.text }, tokenizer?.id),
+      metadata: {
+        ...metadata,
+        path,
+        contextHeader,
+        // Without a tokenizer the count is left out and measured when needed.
+        ...(contextHeader !== undefined && tokenizer ? { contextHeaderTokens: tokenizer.count(contextHeader) } : {}),
+      },
+    };
+  });
+}
+
+export class DiskChunkCache implements ChunkCacheStore {
+  private readonly root: string;
+  private readonly maxSizeBytes: number;
+  private sizeBytes?: number;
+
+  constructor(options: ChunkCacheOptions = {}) {
+    this.root = options.path ?? join(homedir(), '.cache', 'repo-tokenizer', 'chunks');
+    this.maxSizeBytes = options.maxSizeBytes ?? DEFAULT_MAX_SIZE_BYTES;
+  }
+
+  async get(key: string, path: string, tokenizer?: Tokenizer): Promise<IndexChunk[] | undefined> {
+    const target = this.pathFor(key);
+    let raw: string;
+    try {
+      raw = await readFile(target, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    let entry: ChunkCacheEntry;
+    try {
+      entry = JSON.parse(raw) as ChunkCacheEntry;
+    } catch {
+      await rm(target, { force: true });
+      return undefined;
+    }
+    if (entry.version !== CACHE_FORMAT_VERSION || entry.key !== key) {
+      return undefined;
+    }
+    const now = new Date();
+    await utimes(target, now, now).catch(() => undefined);
+    return relocateChunks(entry.chunks, path, tokenizer);
+  }
+
+  async set(key: string, chunks: IndexChunk[]): Promise<void> {
+    const target = this.pathFor(key);
+    const entry: ChunkCacheEntry = { version: CACHE_FORMAT_VERSION, key, chunks };
+    const payload = JSON.stringify(entry);
+    const sizeBefore = await this.currentSize();
+    const previousSize = await stat(target).then((info) => info.size, () => 0);
+    await mkdir(join(this.root, key.slice(0, 2)), { recursive: true });
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(temp, payload, 'utf8');
+    await rename(temp, target);
+
+    this.sizeBytes = sizeBefore - previousSize + Buffer.byteLength(payload);
+    if (this.sizeBytes > this.maxSizeBytes) {
+      await this.evict();
+    }
+  }
+
+  /** Total bytes currently held by the cache directory. */
+  async size(): Promise<number> {
+    const files = await this.listEntries();
+    return files.reduce((sum, file) => sum + file.size, 0);
+  }
+
+  private async currentSize(): Promise<number> {
+    if (this.sizeBytes === undefined) {
+      this.sizeBytes = await this.size();
+    }
+    return this.sizeBytes;
+  }
+
+  private async evict(): Promise<void> {
+    const files = await this.listEntries();
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (total <= this.maxSizeBytes) {
+        break;
+      }
+      await rm(file.path, { force: true });
+      total -= file.size;
+    }
+    this.sizeBytes = total;
+  }
+
+  private async listEntries(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    let buckets: string[];
+    try {
+      buckets = await readdir(this.root);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const entries: Array<{ path: string; size: number; mtimeMs: number }> = [];
+    for (const bucket of buckets) {
+      const names = await readdir(join(this.root, bucket)).catch(() => [] as string[]);
+      for (const name of names) {
+        if (!name.endsWith('.json')) {
+          continue;
+        }
+        const filePath = join(this.root, bucket, name);
+        const info = await stat(filePath).catch(() => undefined);
+        if (info) {
+          entries.push({ path: filePath, size: info.size, mtimeMs: info.mtimeMs });
+        }
+      }
+    }
+    return entries;
+  }
+
+  private pathFor(key: string): string {
+    return join(this.root, key.slice(0, 2), `${key}.json`);
+  }
+}
@@ -0,0 +1,268 @@
+import { createHash } from 'node:crypto';
+import type { GitFileHistory } from '../ingest';
+import { IndexChunk, IndexResult } from './types';
+import { resolveDependencyGraph } from './dependencies';
+import { searchTerms } from './search';
+
+const DEFINITION_SCORE = 10;
+const TARGET_PATH_SCORE = 6;
+const TEST_SCORE = 3;
+const REFERENCE_SCORE = 2;
+/** Score for files one and two imports away from a target file. */
+const PROXIMITY_SCORES = [4, 2];
+const IDENTIFIER = /[A-Za-z_$][A-Za-z0-9_$]*/g;
+
+export interface ContextPackTargets {
+  query?: string;
+  symbols?: string[];
+  paths?: string[];
+}
+
+export interface ScoredChunk {
+  chunk: IndexChunk;
+  score: number;
+  reasons: string[];
+}
+
+interface FileSignal {
+  score: number;
+  reason: string;
+}
+
+function isWithin(path: string, target: string): boolean {
+  const prefix = target.replace(/\/+$/, '');
+  return path === prefix || path.startsWith(`${prefix}/`);
+}
+
+function keepStrongest(signals: Map<string, FileSignal>, path: string, signal: FileSignal): void {
+  const current = signals.get(path);
+  if (!current || signal.score > current.score) {
+    signals.set(path, signal);
+  }
+}
+
+/** Splits `context_pack` targets into indexed paths (files or directories) and symbol names. */
+export function partitionTargets(index: IndexResult, targets: string[]): { paths: string[]; symbols: string[] } {
+  const paths: string[] = [];
+  const symbols: string[] = [];
+  for (const target of targets) {
+    if (index.files.some((file) => isWithin(file.path, target))) {
+      paths.push(target);
+    } else {
+      symbols.push(target);
+    }
+  }
+  return { paths, symbols };
+}
+
+/**
+ * Scores every chunk against the pack targets:
+ *
+ * - query terms it contains, each weighted by inverse document frequency
+ * - definitions of target symbols (from `symbolIndex`) and uses of them
+ * - lying in a target path, or one or two imports away from a target file
+ *   (target paths and files defining target symbols) in the dependency graph
+ * - being a test mapped to a target file in `testCoverage`
+ *
+ * Without any targets every chunk scores zero; otherwise chunks that match
+ * nothing are left out.
+ */
+export function scoreContextChunks(index: IndexResult, targets: ContextPackTargets): ScoredChunk[] {
+  const symbols = Array.from(new Set(targets.symbols ?? []));
+  const paths = targets.paths ?? [];
+  const queryTerms = Array.from(new Set(searchTerms(targets.query ?? '')));
+  if (queryTerms.length === 0 && symbols.length === 0 && paths.length === 0) {
+    return index.chunks.map((chunk) => ({ chunk, score: 0, reasons: [] }));
+  }
+
+  const fileSignals = new Map<string, FileSignal>();
+  const seeds = new Set<string>();
+  for (const file of index.files) {
+    const target = paths.find((candidate) => isWithin(file.path, candidate));
+    if (target) {
+      seeds.add(file.path);
+      fileSignals.set(file.path, { score: TARGET_PATH_SCORE, reason: `in ${target}` });
+    }
+  }
+  const definitions = new Map<string, Array<{ name: string; line: number }>>();
+  for (const name of symbols) {
+    // Own keys only: targets such as `toString` must not reach Object.prototype.
+    const own = index.symbolIndex && Object.prototype.hasOwnProperty.call(index.symbolIndex, name);
+    for (const definition of own ? index.symbolIndex![name] : []) {
+      seeds.add(definition.path);
+      const entries = definitions.get(definition.path) ?? [];
+      entries.push({ name, line: definition.line });
+      definitions.set(definition.path, entries);
+    }
+  }
+
+  // neighbours.get(a).get(b) is how b relates to a.
+  const neighbours = new Map<string, Map<string, string>>();
+  const link = (from: string, to: string, relation: string) => {
+    const entries = neighbours.get(from) ?? new Map<string, string>();
+    if (!entries.has(to)) {
+      entries.set(to, relation);
+    }
+    neighbours.set(from, entries);
+  };
+  for (const [source, imported] of resolveDependencyGraph(index)) {
+    for (const target of imported) {
+      link(source, target, 'imported by');
+      link(target, source, 'imports');
+    }
+  }
+  for (const seed of Array.from(seeds).sort()) {
+    let frontier = [seed];
+    const visited = new Set(frontier);
+    PROXIMITY_SCORES.forEach((score, depth) => {
+      const next: string[] = [];
+      for (const path of frontier) {
+        for (const [neighbour, relation] of neighbours.get(path) ?? []) {
+          if (visited.has(neighbour)) {
+            continue;
+          }
+          visited.add(neighbour);
+          next.push(neighbour);
+          if (!seeds.has(neighbour)) {
+            const reason = depth === 0 ? `${relation} ${seed}` : `${depth + 1} imports from ${seed}`;
+            keepStrongest(fileSignals, neighbour, { score, reason });
+          }
+        }
+      }
+      frontier = next;
+    });
+  }
+  const testSignals = new Map<string, FileSignal>();
+  for (const [testPath, sources] of Object.entries(index.testCoverage ?? {})) {
+    const tested = sources.find((source) => seeds.has(source));
+    if (tested && !seeds.has(testPath)) {
+      testSignals.set(testPath, { score: TEST_SCORE, reason: `tests ${tested}` });
+    }
+  }
+
+  const chunkTerms = index.chunks.map((chunk) => {
+    const counts = new Map<string, number>();
+    searchTerms(chunk.text).forEach((term) => counts.set(term, (counts.get(term) ?? 0) + 1));
+    return counts;
+  });
+  const inverseFrequency = new Map(
+    queryTerms.map((term) => {
+      const frequency = chunkTerms.filter((counts) => counts.has(term)).length;
+      return [term, Math.log(1 + index.chunks.length / Math.max(1, frequency))];
+    }),
+  );
+
+  const scored: ScoredChunk[] = [];
+  index.chunks.forEach((chunk, position) => {
+    let score = 0;
+    const reasons: string[] = [];
+    const matched = queryTerms.filter((term) => chunkTerms[position].has(term));
+    if (matched.length > 0) {
+      matched.forEach((term) => {
+        score += inverseFrequency.get(term)! * (1 + Math.log(chunkTerms[position].get(term)!));
+      });
+      reasons.push(`matches ${matched.join(', ')}`);
+    }
+
+    const { path, startLine, endLine } = chunk.metadata;
+    const defined = new Set<string>();
+    for (const definition of definitions.get(path) ?? []) {
+      if (definition.line >= startLine && definition.line <= endLine && !defined.has(definition.name)) {
+        defined.add(definition.name);
+        score += DEFINITION_SCORE;
+        reasons.push(`defines ${definition.name}`);
+      }
+    }
+    if (symbols.length > 0) {
+      const identifiers = new Set(chunk.text.match(IDENTIFIER) ?? []);
+      for (const name of symbols) {
+        if (!defined.has(name) && identifiers.has(name)) {
+          score += REFERENCE_SCORE;
+          reasons.push(`uses ${name}`);
+        }
+      }
+    }
+
+    for (const signal of [fileSignals.get(path), testSignals.get(path)]) {
+      if (signal) {
+        score += signal.score;
+        reasons.push(signal.reason);
+      }
+    }
+    if (score > 0) {
+      scored.push({ chunk, score: Number(score.toFixed(3)), reasons });
+    }
+  });
+  return scored;
+}
+
+/**
+ * Greedily takes the highest scoring chunks that still fit the remaining
+ * `maxTokens`, skipping chunks that overlap one already taken, until `limit`
+ * chunks are picked.
+ */
+export function selectContextChunks(
+  scored: ScoredChunk[],
+  options: { limit: number; maxTokens: number; countTokens: (chunk: IndexChunk) => number },
+): { selected: ScoredChunk[]; totalTokens: number } {
+  const ordered = scored.slice().sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.chunk.metadata.path.localeCompare(b.chunk.metadata.path) ||
+      a.chunk.metadata.startLine - b.chunk.metadata.startLine,
+  );
+  const selected: ScoredChunk[] = [];
+  let totalTokens = 0;
+  for (const candidate of ordered) {
+    if (selected.length >= options.limit) {
+      break;
+    }
+    const tokens = options.countTokens(candidate.chunk);
+    if (totalTokens + tokens > options.maxTokens) {
+      continue;
+    }
+    const { path, startLine, endLine } = candidate.chunk.metadata;
+    const overlaps = selected.some(
+      ({ chunk }) => chunk.metadata.path === path && chunk.metadata.startLine <= endLine && startLine <= chunk.metadata.endLine,
+    );
+    if (overlaps) {
+      continue;
+    }
+    selected.push(candidate);
+    totalTokens += tokens;
+  }
+  return { selected, totalTokens };
+}
+
+/**
+ * Orders picked chunks for prompt caching: chunks of files changed within the
+ * latest `volatileCommits` commits go last, the rest first. Both parts are
+ * sorted by change frequency tier (powers of two, so one more commit rarely
+ * moves a file) and then by path and line. `prefixLength` counts the leading
+ * non-volatile chunks. Without `history` every chunk is stable and sorted by
+ * path.
+ */
+export function orderForCache(
+  chunks: ScoredChunk[],
+  history: Map<string, GitFileHistory> | undefined,
+  volatileCommits: number,
+): { ordered: ScoredChunk[]; prefixLength: number } {
+  const tier = (path: string) => Math.floor(Math.log2(1 + (history?.get(path)?.changes ?? 0)));
+  const isVolatile = (path: string) => (history?.get(path)?.commitsSince ?? Infinity) < volatileCommits;
+  const compare = (a: ScoredChunk, b: ScoredChunk) =>
+    tier(a.chunk.metadata.path) - tier(b.chunk.metadata.path) ||
+    a.chunk.metadata.path.localeCompare(b.chunk.metadata.path) ||
+    a.chunk.metadata.startLine - b.chunk.metadata.startLine;
+  const stable = chunks.filter((entry) => !isVolatile(entry.chunk.metadata.path)).sort(compare);
+  const volatile = chunks.filter((entry) => isVolatile(entry.chunk.metadata.path)).sort(compare);
+  return { ordered: [...stable, ...volatile], prefixLength: stable.length };
+}
+
+/** SHA-256 over the ids and texts of `chunks`, in order. */
+export function hashChunkPrefix(chunks: IndexChunk[]): string {
+  const hash = createHash('sha256');
+  for (const chunk of chunks) {
+    hash.update(`${chunk.id}\0${chunk.text}\0`);
+  }
+  return hash.digest('hex');
+}
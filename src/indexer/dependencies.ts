@@ -0,0 +1,41 @@
+import { IndexResult } from './types';
+
+/**
+ * Maps extension-less import targets from `dependencyGraph` (e.g.
+ * `src/indexer/types`) to indexed files, including `index.*` files for
+ * directory imports.
+ */
+function buildModuleLookup(paths: string[]): Map<string, string> {
+  const lookup = new Map<string, string>();
+  for (const path of paths) {
+    const withoutExtension = path.replace(/\.[^./]+$/, '');
+    for (const key of [path, withoutExtension, withoutExtension.replace(/\/index$/, '')]) {
+      if (!lookup.has(key)) {
+        lookup.set(key, path);
+      }
+    }
+  }
+  return lookup;
+}
+
+/** The indexed files each indexed file imports, resolved from `dependencyGraph`. */
+export function resolveDependencyGraph(index: IndexResult): Map<string, Set<string>> {
+  const paths = index.files.map((file) => file.path);
+  const indexed = new Set(paths);
+  const lookup = buildModuleLookup(paths);
+  const graph = new Map<string, Set<string>>();
+  for (const [source, dependencies] of Object.entries(index.dependencyGraph ?? {})) {
+    if (!indexed.has(source)) {
+      continue;
+    }
+    for (const dependency of dependencies) {
+      const target = lookup.get(dependency);
+      if (target && target !== source) {
+        const targets = graph.get(source) ?? new Set<string>();
+        targets.add(target);
+        graph.set(source, targets);
+      }
+    }
+  }
+  return graph;
+}
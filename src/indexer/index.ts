@@ -1,2 +1,4 @@
 export * from './indexer';
 export * from './types';
+export * from './store';
+export * from './chunkCache';
@@ -2,11 +2,29 @@ import { join, dirname, normalize } from 'node:path';
 import { readFile } from 'node:fs/promises';
 import { createHash } from 'node:crypto';
 import { minimatch } from 'minimatch';
-import { openRepository, GitRepository, FilesystemRepository } from '../ingest';
-import { Chunker, tokenizerRegistry, ChunkingOptions, Chunk } from '../chunker';
+import { openRepository, GitRepository, FilesystemRepository, GitFileHistory } from '../ingest';
+import {
+  Chunker,
+  tokenizerRegistry,
+  ChunkingOptions,
+  Chunk,
+  ChunkingCell,
+  ChunkingInput,
+  Tokenizer,
+  renderContextHeader,
+  withContextualText,
+  extractSkeleton,
+  resolveSyntaxGrammar,
+  syntaxParserRegistry,
+  FileSkeleton,
+  FileSymbols,
+  extractFileSymbols,
+} from '../chunker';
 import {
   ContentFilterOptions,
   ContentNormalizer,
+  ContentCompactor,
+  compactedLineRange,
   ContentSanitizer,
   ContentDeduplicator,
   SanitizationRule,
@@ -14,14 +32,27 @@ import {
   SecretScanner,
   mergeSecretPatterns,
   SecretFinding,
+  extractNotebook,
+  isNotebookPath,
+  NotebookExtraction,
 } from '../normalization';
 import { detectLanguageFromPath } from './language';
 import {
   IndexResult,
   IndexOptions,
   IndexChunk,
+  IndexChunkingSummary,
   IndexFileMetadata,
-  SearchResult,
+  SearchTextOptions,
+  SearchTextResult,
+  SemanticSearchOptions,
+  SemanticSearchResult,
+  CallEdge,
+  CallGraphOptions,
+  CallGraphResult,
+  SymbolDefinition,
+  SymbolReference,
+  SymbolReferencesResult,
   SymbolSearchResult,
   PullRequestIdentifier,
   PullRequestIndexOptions,
@@ -33,10 +64,29 @@ import {
   BlameResult,
   ContextPackOptions,
   ContextPackResult,
+  ContextualIndexChunk,
+  RepoMapOptions,
+  RepoMapResult,
 } from './types';
+import { IndexStore, IndexStoreEntry } from './store';
+import { ChunkCacheStats, ChunkCacheStore, computeChunkCacheKey } from './chunkCache';
+import { buildRepoMap } from './repoMap';
+import { SearchIndex } from './search';
+import { parseSearchQuery, queryText, SearchQuery, SearchQueryContext } from './query';
+import { cosineSimilarity, embedTexts, EmbeddingCache, EmbeddingProvider, MemoryEmbeddingCache } from '../embeddings';
+import {
+  ScoredChunk,
+  hashChunkPrefix,
+  orderForCache,
+  partitionTargets,
+  scoreContextChunks,
+  selectContextChunks,
+} from './contextPack';
+import { renderPrompt } from '../exporters/prompt';
 import { createGitProvider } from '../integrations';
 import type { CommitStatusPayload, GitProvider, PullRequestDetails } from '../integrations';
 import { DomainPolicyEngine, DomainFinding } from '../domain';
+import { stableStringify } from '../common/json';
 
 const DEFAULT_SANITIZATION_RULES: SanitizationRule[] = [
   {
@@ -87,14 +137,18 @@ const DEFAULT_LANGUAGE_CHUNK_PROFILES: Record<string, Partial<ChunkingOptions>>
   },
 };
 
-const SYMBOL_REGEXES = [
-  /function\s+([A-Za-z0-9_]+)/,
-  /class\s+([A-Za-z0-9_]+)/,
-  /def\s+([A-Za-z0-9_]+)/,
-  /(const|let|var)\s+([A-Za-z0-9_]+)\s*=\s*\(/,
-  /([A-Za-z0-9_]+)\s*:\s*function\s*\(/,
-  /export\s+(?:const|let|var)\s+([A-Za-z0-9_]+)/,
-];
+const DEFAULT_REFERENCE_LIMIT = 100;
+const DEFAULT_MAX_INDEXES_IN_MEMORY = 8;
+const DEFAULT_CALL_GRAPH_DEPTH = 2;
+const MAX_CALL_GRAPH_DEPTH = 5;
+
+function summarizeChunking(options: ChunkingOptions): IndexChunkingSummary {
+  const { tokenizer, ...rest } = options;
+  return {
+    tokenizer: { id: tokenizer.id, version: tokenizer.version },
+    options: JSON.parse(stableStringify(rest)) as Record<string, unknown>,
+  };
+}
 
 function makeIndexKey(spec: { type: string; path: string }, ref?: string) {
   return `${spec.type}:${spec.path}:${ref ?? 'HEAD'}`;
@@ -107,6 +161,60 @@ function chunkToIndexChunk(chunk: Chunk, fileHash: string): IndexChunk {
   };
 }
 
+function withTokenCounts(chunk: Chunk, counters: Array<[string, Tokenizer]>): Chunk {
+  if (counters.length === 0) {
+    return chunk;
+  }
+  const tokenCounts = Object.fromEntries(counters.map(([id, tokenizer]) => [id, tokenizer.count(chunk.text)]));
+  return { ...chunk, metadata: { ...chunk.metadata, tokenCounts } };
+}
+
+/**
+ * Measures chunks with the given tokenizer, preferring counts stored at index
+ * time and falling back to counting the text. Without an id the chunking
+ * tokenizer's `tokenCount` is used.
+ */
+function chunkTokenCounter(tokenizerId?: string): (chunk: IndexChunk) => number {
+  if (!tokenizerId) {
+    return (chunk) => chunk.metadata.tokenCount ?? chunk.text.length;
+  }
+  let tokenizer: Tokenizer | undefined;
+  return (chunk) =>
+    chunk.metadata.tokenCounts?.[tokenizerId] ?? (tokenizer ??= tokenizerRegistry.resolve(tokenizerId)).count(chunk.text);
+}
+
+/**
+ * Measures the context header of chunks, reusing the count stored at index
+ * time when it was made with the same tokenizer.
+ */
+function contextHeaderTokenCounter(index: IndexResult, tokenizerId?: string): (chunk: IndexChunk) => number {
+  const indexTokenizerId = index.chunking?.tokenizer.id;
+  const id = tokenizerId ?? indexTokenizerId ?? DEFAULT_CHUNKING.tokenizer.id;
+  let tokenizer: Tokenizer | undefined;
+  return (chunk) => {
+    if (chunk.metadata.contextHeaderTokens !== undefined && id === indexTokenizerId) {
+      return chunk.metadata.contextHeaderTokens;
+    }
+    const header =
+      chunk.metadata.contextHeader ?? renderContextHeader(chunk.metadata, index.fileLanguageByHash[chunk.fileHash]);
+    return (tokenizer ??= tokenizerRegistry.resolve(id)).count(header);
+  };
+}
+
+/** Loads the file's grammar and builds its skeleton; undefined for languages without syntax support. */
+async function buildFileSkeleton(
+  path: string,
+  text: string,
+  language: string | undefined,
+  tokenizer: Tokenizer,
+): Promise<FileSkeleton | undefined> {
+  const grammar = resolveSyntaxGrammar(language, path);
+  if (!grammar || !(await syntaxParserRegistry.load(grammar))) {
+    return undefined;
+  }
+  return extractSkeleton({ text, path, language }, tokenizer);
+}
+
 function cloneChunk(chunk: IndexChunk): IndexChunk {
   return {
     ...chunk,
@@ -114,9 +222,32 @@ function cloneChunk(chunk: IndexChunk): IndexChunk {
   };
 }
 
+export interface IndexManagerOptions {
+  store?: IndexStore;
+  chunkCache?: ChunkCacheStore;
+  /** Embeds chunks and queries for `searchSemantic`. */
+  embeddings?: EmbeddingProvider;
+  /** Where chunk embeddings are kept between searches. Defaults to memory. */
+  embeddingCache?: EmbeddingCache;
+  /**
+   * Most indexes held in memory (default 8). The least recently stored are
+   * dropped first; with a `store`, loadIndex reads them back when asked for.
+   */
+  maxIndexesInMemory?: number;
+}
+
 export class IndexManager {
   private readonly indexes = new Map<string, IndexResult>();
+  /** BM25 indexes for `searchText`, built when an index is stored or on its first search. */
+  private readonly searchIndexes = new WeakMap<IndexResult, SearchIndex>();
+  private readonly store?: IndexStore;
+  private readonly chunkStore?: ChunkCacheStore;
+  private readonly embeddings?: EmbeddingProvider;
+  private readonly embeddingCache: EmbeddingCache;
+  private readonly maxIndexesInMemory: number;
+  private readonly restoredSpecs = new Set<string>();
   private readonly chunker = new Chunker();
+  /** Chunks of the last indexed version of each path. */
   private readonly chunkCache = new Map<
     string,
     {
@@ -129,6 +260,18 @@ export class IndexManager {
       domainFindings: DomainFinding[];
     }
   >();
+  /** Symbols of the last version of each path they were extracted from. */
+  private readonly symbolCache = new Map<string, { hash: string; symbols: FileSymbols }>();
+  /** File history of the last commit read for each repository. */
+  private readonly historyCache = new Map<string, { ref: string; history: Map<string, GitFileHistory> }>();
+
+  constructor(options: IndexManagerOptions = {}) {
+    this.store = options.store;
+    this.chunkStore = options.chunkCache;
+    this.embeddings = options.embeddings;
+    this.embeddingCache = options.embeddingCache ?? new MemoryEmbeddingCache();
+    this.maxIndexesInMemory = Math.max(1, options.maxIndexesInMemory ?? DEFAULT_MAX_INDEXES_IN_MEMORY);
+  }
 
   async indexRepository(spec: IndexResult['spec'], options: IndexOptions = {}): Promise<IndexResult> {
     const repositoryHandle = await openRepository(spec);
@@ -166,6 +309,7 @@ export class IndexManager {
       let deletedPathsSet: Set<string> | undefined;
 
       if (incremental) {
+        await this.restoreIndexes(spec);
         if (repositoryHandle.type === 'git') {
           const repo = repositoryHandle.repository as GitRepository;
           if (options.baseRef) {
@@ -179,7 +323,7 @@ export class IndexManager {
             }
           }
           if (!baseIndex && baseCommit) {
-            baseIndex = this.getIndex(spec, baseCommit);
+            baseIndex = await this.loadIndex(spec, baseCommit);
           }
           if (!baseIndex) {
             baseIndex = this.findLatestIndex(spec);
@@ -219,6 +363,7 @@ export class IndexManager {
       });
       const sanitizer = new ContentSanitizer({ rules: DEFAULT_SANITIZATION_RULES });
       const deduplicator = new ContentDeduplicator();
+      const compactor = options.compaction ? new ContentCompactor(options.compaction) : undefined;
 
       const tokenizer = options.chunking?.tokenizer ??
         (options.tokenizerId ? tokenizerRegistry.resolve(options.tokenizerId) : DEFAULT_CHUNKING.tokenizer);
@@ -228,11 +373,15 @@ export class IndexManager {
         ...options.chunking,
         tokenizer,
       };
+      const tokenCounters = (options.tokenCounts ?? []).map(
+        (id): [string, Tokenizer] => [id, tokenizerRegistry.resolve(id)],
+      );
 
       const files: IndexFileMetadata[] = [];
       const chunks: IndexChunk[] = [];
       const fileLanguageByHash = new Map<string, string | undefined>();
       const fileContents = new Map<string, string>();
+      const skeletons = new Map<string, FileSkeleton>();
       const secretFindings: SecretFinding[] = [];
       const domainFindings: DomainFinding[] = [];
       const scanSecrets = options.scanSecrets !== false;
@@ -240,6 +389,7 @@ export class IndexManager {
       const domainEngine = options.domain ? new DomainPolicyEngine(options.domain) : undefined;
       const testCoverage = new Map<string, Set<string>>();
       const dependencyGraph = new Map<string, Set<string>>();
+      const cacheStats: ChunkCacheStats = { hits: 0, misses: 0 };
 
       if (baseIndex) {
         const baseChunksByPath = new Map<string, IndexChunk[]>();
@@ -262,6 +412,10 @@ export class IndexManager {
           if (existingContent !== undefined) {
             fileContents.set(file.path, existingContent);
           }
+          const existingSkeleton = baseIndex.skeletons?.[file.path];
+          if (existingSkeleton) {
+            skeletons.set(file.path, existingSkeleton);
+          }
           const previousChunks = baseChunksByPath.get(file.path);
           if (previousChunks) {
             previousChunks.forEach((chunk) => chunks.push(cloneChunk(chunk)));
@@ -378,11 +532,22 @@ export class IndexManager {
           } catch (error) {
             return;
           }
+          let cells: ChunkingCell[] | undefined;
+          let notebook: NotebookExtraction | undefined;
+          if (isNotebookPath(file.path)) {
+            try {
+              notebook = extractNotebook(raw, options.notebooks);
+              raw = notebook.text;
+              cells = notebook.cells;
+            } catch (error) {
+              console.warn(`Failed to parse notebook ${file.path}, indexing it as text: ${(error as Error).message}`);
+            }
+          }
+          const language = detectLanguageFromPath(file.path, notebook);
           const normalized = normalizer.normalize(raw);
           const textForScan = normalized.normalized;
           const sanitized = sanitizer.sanitize(textForScan);
           let processedContent = sanitized.sanitized;
-          const language = detectLanguageFromPath(file.path);
           const domainFindingsForFile: DomainFinding[] = [];
 
           if (domainEngine) {
@@ -396,9 +561,16 @@ export class IndexManager {
           }
 
           const fileHash = createHash('sha256').update(processedContent).digest('hex');
+          if (options.skeletons) {
+            const skeleton = await buildFileSkeleton(file.path, processedContent, language, chunkingOptions.tokenizer);
+            if (skeleton) {
+              skeletons.set(file.path, skeleton);
+            }
+          }
 
-          const cached = this.chunkCache.get(fileHash);
-          if (cached && cached.path === file.path) {
+          const cached = this.chunkCache.get(file.path);
+          if (cached && cached.file.hash === fileHash) {
+            cacheStats.hits += 1;
             const clonedChunks = cached.chunks.map((chunk) => cloneChunk(chunk));
             chunks.push(...clonedChunks);
             files.push({
@@ -418,11 +590,21 @@ export class IndexManager {
             return;
           }
 
-          const chunkInput = {
+          const chunkInput: ChunkingInput = {
             text: processedContent,
             path: file.path,
             language,
+            cells,
           };
+          if (compactor) {
+            const compaction = compactor.compact(processedContent, language);
+            chunkInput.text = compaction.compacted;
+            chunkInput.lineMap = compaction.lineMap;
+            chunkInput.cells = cells?.flatMap((cell) => {
+              const range = compactedLineRange(compaction.lineMap, cell.startLine, cell.endLine);
+              return range ? [{ ...cell, ...range }] : [];
+            });
+          }
 
           fileContents.set(file.path, processedContent);
           files.push({
@@ -451,9 +633,29 @@ export class IndexManager {
               }
             : chunkingOptions;
 
-          const generatedChunks = this.chunker.generate(chunkInput, effectiveChunking).map((chunk) =>
-            chunkToIndexChunk(chunk, fileHash),
-          );
+          const cacheKey = this.chunkStore
+            ? computeChunkCacheKey(fileHash, effectiveChunking, tokenCounters, options.compaction, {
+                path: file.path,
+                language,
+              })
+            : undefined;
+          let generatedChunks = cacheKey
+            ? await this.chunkStore!.get(cacheKey, file.path, effectiveChunking.tokenizer).catch(() => undefined)
+            : undefined;
+          if (generatedChunks) {
+            cacheStats.hits += 1;
+          } else {
+            cacheStats.misses += 1;
+            await this.chunker.prepare(chunkInput, effectiveChunking);
+            generatedChunks = this.chunker.generate(chunkInput, effectiveChunking).map((chunk) =>
+              chunkToIndexChunk(withTokenCounts(chunk, tokenCounters), fileHash),
+            );
+            if (cacheKey && !options.dryRun) {
+              await this.chunkStore!.set(cacheKey, generatedChunks).catch((error: Error) => {
+                console.warn(`Failed to write chunk cache entry for ${file.path}: ${error.message}`);
+              });
+            }
+          }
 
           const filteredChunks: IndexChunk[] = [];
           for (const chunk of generatedChunks) {
@@ -466,7 +668,7 @@ export class IndexManager {
           }
 
         if (!options.dryRun) {
-          this.chunkCache.set(fileHash, {
+          this.chunkCache.set(file.path, {
             path: file.path,
             chunks: filteredChunks.map((chunk) => cloneChunk(chunk)),
             file: {
@@ -548,7 +750,7 @@ export class IndexManager {
 
       const testCoverageRecord = this.mapSetRecord(testCoverage);
       const dependencyGraphRecord = this.mapSetRecord(dependencyGraph);
-      const symbolIndex = this.buildSymbolIndex(chunks);
+      const { symbolIndex, symbolReferences, callGraph } = await this.buildSymbolIndex(files, fileContents);
 
       const result: IndexResult = {
         spec,
@@ -559,6 +761,8 @@ export class IndexManager {
         fileLanguageByHash: Object.fromEntries(fileLanguageByHash.entries()),
         fileContents: Object.fromEntries(fileContents.entries()),
         secretFindings,
+        cacheStats,
+        chunking: summarizeChunking(chunkingOptions),
       };
       if (shards && shards.length > 0) {
         result.shards = shards;
@@ -578,10 +782,29 @@ export class IndexManager {
       if (Object.keys(symbolIndex).length > 0) {
         result.symbolIndex = symbolIndex;
       }
+      if (Object.keys(symbolReferences).length > 0) {
+        result.symbolReferences = symbolReferences;
+      }
+      if (callGraph.length > 0) {
+        result.callGraph = callGraph;
+      }
+      if (skeletons.size > 0) {
+        result.skeletons = Object.fromEntries(skeletons.entries());
+      }
 
       if (!options.dryRun) {
         const key = makeIndexKey(spec, ref);
-        this.indexes.set(key, result);
+        const previous = this.indexes.get(key);
+        const baseSearch = (baseIndex && this.searchIndexes.get(baseIndex)) ?? (previous && this.searchIndexes.get(previous));
+        this.searchIndexes.set(result, SearchIndex.build(chunks, baseSearch));
+        this.retainIndex(key, result);
+        if (this.store) {
+          try {
+            await this.store.save(key, result);
+          } catch (error) {
+            console.warn(`Failed to persist index ${key}: ${(error as Error).message}`);
+          }
+        }
       }
       return result;
     } finally {
@@ -602,6 +825,82 @@ export class IndexManager {
     return this.indexes.get(key);
   }
 
+  /**
+   * Like getIndex, but falls back to the configured index store when the
+   * index is not held in memory.
+   */
+  async loadIndex(spec: IndexResult['spec'], ref?: string): Promise<IndexResult | undefined> {
+    const existing = this.getIndex(spec, ref);
+    if (existing || !this.store) {
+      return existing;
+    }
+    const key = makeIndexKey(spec, ref);
+    const stored = await this.store.load(key);
+    if (stored) {
+      this.retainIndex(key, stored);
+    }
+    return stored;
+  }
+
+  /**
+   * Loads `ref`, or else the most recent persisted index of the repository,
+   * from the store. It is ordered by creation time among the indexes in
+   * memory, so findLatestIndex keeps returning the most recent run. Other
+   * refs are only read when loadIndex asks for them.
+   */
+  async restoreIndexes(spec: IndexResult['spec'], ref?: string): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+    if (ref !== undefined) {
+      return !this.getIndex(spec, ref) && (await this.loadIndex(spec, ref)) ? 1 : 0;
+    }
+    const specKey = `${spec.type}:${spec.path}`;
+    if (this.restoredSpecs.has(specKey)) {
+      return 0;
+    }
+    this.restoredSpecs.add(specKey);
+    const latest = (await this.store.list())
+      .filter((entry) => entry.spec.type === spec.type && entry.spec.path === spec.path)
+      .reduce<IndexStoreEntry | undefined>(
+        (best, entry) => (!best || entry.createdAt.localeCompare(best.createdAt) > 0 ? entry : best),
+        undefined,
+      );
+    if (!latest || this.indexes.has(latest.key)) {
+      return 0;
+    }
+    const result = await this.store.load(latest.key);
+    if (!result) {
+      return 0;
+    }
+    const ordered = [...this.indexes.entries(), [latest.key, result] as const].sort(([, a], [, b]) =>
+      a.createdAt.localeCompare(b.createdAt),
+    );
+    this.indexes.clear();
+    ordered.forEach(([key, index]) => this.retainIndex(key, index));
+    return 1;
+  }
+
+  getLatestIndex(spec: IndexResult['spec']): IndexResult | undefined {
+    return this.findLatestIndex(spec);
+  }
+
+  /**
+   * Registers an index built elsewhere (e.g. imported from an export) as the
+   * latest index for its repository and persists it to the configured store.
+   * Exports carry files and chunks but not the symbol index, call graph,
+   * dependency graph or test coverage, so missing ones are rebuilt from
+   * `fileContents` first.
+   */
+  async registerIndex(result: IndexResult): Promise<void> {
+    const index = await this.withFileRelations(result);
+    const key = makeIndexKey(index.spec, index.ref);
+    this.retainIndex(key, index);
+    if (this.store) {
+      await this.store.save(key, index);
+    }
+  }
+
   listFiles(spec: IndexResult['spec'], params: { ref?: string; include?: string[]; exclude?: string[] } = {}) {
     const index = this.getIndex(spec, params.ref);
     if (!index) {
@@ -617,7 +916,10 @@ export class IndexManager {
     return files;
   }
 
-  listChunks(spec: IndexResult['spec'], params: { ref?: string; path?: string; lang?: string; maxTokens?: number } = {}) {
+  listChunks(
+    spec: IndexResult['spec'],
+    params: { ref?: string; path?: string; lang?: string; maxTokens?: number; tokenizer?: string } = {},
+  ) {
     const index = this.getIndex(spec, params.ref);
     if (!index) {
       throw new Error('Index not found. Run indexRepository first.');
@@ -633,12 +935,18 @@ export class IndexManager {
       });
     }
     if (params.maxTokens) {
-      chunks = chunks.filter((chunk) => chunk.metadata.tokenCount <= params.maxTokens!);
+      const countTokens = chunkTokenCounter(params.tokenizer);
+      chunks = chunks.filter((chunk) => countTokens(chunk) <= params.maxTokens!);
     }
     return chunks;
   }
 
-  getChunk(spec: IndexResult['spec'], id: string, ref?: string) {
+  getChunk(
+    spec: IndexResult['spec'],
+    id: string,
+    ref?: string,
+    options: { contextHeaders?: boolean } = {},
+  ): IndexChunk | ContextualIndexChunk {
     const index = this.getIndex(spec, ref);
     if (!index) {
       throw new Error('Index not found. Run indexRepository first.');
@@ -647,7 +955,7 @@ export class IndexManager {
     if (!chunk) {
       throw new Error(`Chunk ${id} not found`);
     }
-    return chunk;
+    return options.contextHeaders ? withContextualText(chunk, index.fileLanguageByHash[chunk.fileHash]) : chunk;
   }
 
   getFile(spec: IndexResult['spec'], path: string, ref?: string) {
@@ -666,63 +974,193 @@ export class IndexManager {
     };
   }
 
-  searchText(spec: IndexResult['spec'], query: string, params: { ref?: string; pathGlob?: string } = {}): SearchResult[] {
-    const index = this.getIndex(spec, params.ref);
+  /**
+   * A file reduced to its declarations. Uses the skeleton stored at indexing
+   * time, or builds one from the indexed content. `skeleton` is undefined for
+   * languages without syntax support.
+   */
+  async getFileSkeleton(spec: IndexResult['spec'], path: string, ref?: string) {
+    const index = this.getIndex(spec, ref);
     if (!index) {
       throw new Error('Index not found. Run indexRepository first.');
     }
-    const results: SearchResult[] = [];
-    const matcher = params.pathGlob ? (path: string) => minimatch(path, params.pathGlob!) : () => true;
+    const file = index.files.find((entry) => entry.path === path);
+    if (!file) {
+      throw new Error(`File ${path} not found`);
+    }
+    const content = index.fileContents[path];
+    let skeleton = index.skeletons?.[path];
+    if (!skeleton && content !== undefined) {
+      const tokenizer = tokenizerRegistry.resolve(index.chunking?.tokenizer.id ?? DEFAULT_CHUNKING.tokenizer.id);
+      skeleton = await buildFileSkeleton(path, content, file.language, tokenizer);
+    }
+    return { ...file, skeleton };
+  }
 
-    for (const chunk of index.chunks) {
-      const path = chunk.metadata.path;
-      if (!matcher(path)) {
-        continue;
-      }
-      const lines = chunk.text.split(/\r?\n/);
-      lines.forEach((line, idx) => {
-        if (line.toLowerCase().includes(query.toLowerCase())) {
-          const absoluteLine = chunk.metadata.startLine + idx;
-          const excerpt = line.trim().slice(0, 200);
-          results.push({ path, line: absoluteLine, excerpt });
-        }
-      });
+  /**
+   * Chunks matching a search query (see `parseSearchQuery`), ranked by BM25
+   * over code-aware terms, one page at a time. Query strings that do not
+   * parse throw before the index is looked up.
+   */
+  searchText(spec: IndexResult['spec'], query: string | SearchQuery, params: SearchTextOptions = {}): SearchTextResult {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const index = this.getIndex(spec, params.ref);
+    if (!index) {
+      throw new Error('Index not found. Run indexRepository first.');
     }
+    return this.searchIndexFor(index).search(parsed, {
+      pathGlob: params.pathGlob,
+      offset: params.offset,
+      limit: params.limit,
+      context: this.searchContext(index),
+    });
+  }
 
-    return results.slice(0, 2000);
+  /**
+   * Chunks ranked by embedding similarity to the words and phrases of a
+   * search query, alone or fused with BM25 (`mode`). The query's filters and
+   * exclusions apply as in `searchText`. Chunk embeddings are cached by
+   * content, so only new and changed chunks are sent to the provider.
+   */
+  async searchSemantic(
+    spec: IndexResult['spec'],
+    query: string | SearchQuery,
+    params: SemanticSearchOptions = {},
+  ): Promise<SemanticSearchResult> {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    if (!this.embeddings) {
+      throw new Error('No embedding provider configured. Set indexing.embeddings in the config.');
+    }
+    const text = queryText(parsed.root);
+    if (!text) {
+      throw new Error('Semantic search needs words or phrases to embed.');
+    }
+    const index = this.getIndex(spec, params.ref);
+    if (!index) {
+      throw new Error('Index not found. Run indexRepository first.');
+    }
+    const search = this.searchIndexFor(index);
+    const context = this.searchContext(index);
+    const candidates = search.filter(parsed, { pathGlob: params.pathGlob, context });
+    const [queryVector, ...vectors] = await embedTexts(this.embeddings, this.embeddingCache, [
+      text,
+      ...candidates.map((chunk) => chunk.text),
+    ]);
+    const similarities = new Map(candidates.map((chunk, position) => [chunk.id, cosineSimilarity(queryVector, vectors[position])]));
+    return search.searchSemantic(parsed, similarities, {
+      mode: params.mode,
+      minSimilarity: params.minSimilarity,
+      pathGlob: params.pathGlob,
+      offset: params.offset,
+      limit: params.limit,
+      context,
+    });
   }
 
+  /** Definitions whose name contains `query` (case-insensitive), by path and line; at most 500. */
   searchSymbols(spec: IndexResult['spec'], query?: string, params: { ref?: string } = {}): SymbolSearchResult[] {
     const index = this.getIndex(spec, params.ref);
     if (!index) {
       throw new Error('Index not found. Run indexRepository first.');
     }
+    const needle = query?.toLowerCase();
     const results: SymbolSearchResult[] = [];
-    for (const chunk of index.chunks) {
-      const lines = chunk.text.split(/\r?\n/);
-      lines.forEach((line, idx) => {
-        for (const regex of SYMBOL_REGEXES) {
-          const match = line.match(regex);
-          if (!match) {
-            continue;
-          }
-          const symbol = match[1] ?? match[2];
-          if (!symbol) {
-            continue;
-          }
-          if (query && !symbol.toLowerCase().includes(query.toLowerCase())) {
-            continue;
+    for (const [symbol, definitions] of Object.entries(index.symbolIndex ?? {})) {
+      if (!needle || symbol.toLowerCase().includes(needle)) {
+        definitions.forEach((definition) => results.push({ symbol, ...definition }));
+      }
+    }
+    results.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line || a.symbol.localeCompare(b.symbol));
+    const lineAt = this.lineReader(index);
+    return results.slice(0, 500).map((result) => ({ ...result, context: lineAt(result.path, result.line) }));
+  }
+
+  /**
+   * Definitions of `name` and the places it is used, by path and position.
+   * Names are matched exactly; an unknown name has no definitions and no
+   * references. Uses are found by identifier, so a method shares its
+   * references with every other symbol of the same name.
+   */
+  findReferences(
+    spec: IndexResult['spec'],
+    name: string,
+    params: { ref?: string; offset?: number; limit?: number } = {},
+  ): SymbolReferencesResult {
+    const index = this.getIndex(spec, params.ref);
+    if (!index) {
+      throw new Error('Index not found. Run indexRepository first.');
+    }
+    const offset = Math.max(0, params.offset ?? 0);
+    const limit = Math.max(0, params.limit ?? DEFAULT_REFERENCE_LIMIT);
+    const own = <T>(record: Record<string, T[]> | undefined): T[] =>
+      record && Object.prototype.hasOwnProperty.call(record, name) ? record[name] : [];
+    const references = own(index.symbolReferences);
+    const lineAt = this.lineReader(index);
+    return {
+      symbol: name,
+      definitions: own(index.symbolIndex),
+      references: references.slice(offset, offset + limit).map((reference) => ({
+        ...reference,
+        context: lineAt(reference.path, reference.line),
+      })),
+      total: references.length,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * The functions and methods `name` calls (`callees`, the default) or that
+   * call it (`callers`), followed breadth-first up to `depth` call levels.
+   * Like references, calls are resolved by name. Every edge of the
+   * traversal is returned with its call site.
+   */
+  getCallGraph(spec: IndexResult['spec'], name: string, params: CallGraphOptions = {}): CallGraphResult {
+    const direction = params.direction ?? 'callees';
+    if (direction !== 'callers' && direction !== 'callees') {
+      throw new Error(`Unsupported call graph direction: ${String(direction)}`);
+    }
+    const depth = params.depth ?? DEFAULT_CALL_GRAPH_DEPTH;
+    if (!Number.isInteger(depth) || depth < 1 || depth > MAX_CALL_GRAPH_DEPTH) {
+      throw new Error(`Call graph depth must be an integer from 1 to ${MAX_CALL_GRAPH_DEPTH}`);
+    }
+    const index = this.getIndex(spec, params.ref);
+    if (!index) {
+      throw new Error('Index not found. Run indexRepository first.');
+    }
+    const from = direction === 'callees' ? 'caller' : 'callee';
+    const to = direction === 'callees' ? 'callee' : 'caller';
+    const edgesFrom = new Map<string, CallEdge[]>();
+    for (const edge of index.callGraph ?? []) {
+      const list = edgesFrom.get(edge[from]);
+      if (list) {
+        list.push(edge);
+      } else {
+        edgesFrom.set(edge[from], [edge]);
+      }
+    }
+    const definitionsOf = (symbol: string) =>
+      index.symbolIndex && Object.prototype.hasOwnProperty.call(index.symbolIndex, symbol) ? index.symbolIndex[symbol] : [];
+
+    const nodes = [{ symbol: name, depth: 0, definitions: definitionsOf(name) }];
+    const edges: CallEdge[] = [];
+    const visited = new Set([name]);
+    let frontier = [name];
+    for (let level = 1; level <= depth && frontier.length > 0; level += 1) {
+      const next: string[] = [];
+      for (const symbol of frontier) {
+        for (const edge of edgesFrom.get(symbol) ?? []) {
+          edges.push(edge);
+          if (!visited.has(edge[to])) {
+            visited.add(edge[to]);
+            next.push(edge[to]);
+            nodes.push({ symbol: edge[to], depth: level, definitions: definitionsOf(edge[to]) });
           }
-          results.push({
-            symbol,
-            path: chunk.metadata.path,
-            line: chunk.metadata.startLine + idx,
-            context: line.trim().slice(0, 200),
-          });
         }
-      });
+      }
+      frontier = next;
     }
-    return results.slice(0, 500);
+    return { symbol: name, direction, depth, nodes, edges };
   }
 
   async indexPullRequest(
@@ -957,6 +1395,36 @@ export class IndexManager {
     map.set(normalizedPath, set);
   }
 
+  private searchIndexFor(index: IndexResult): SearchIndex {
+    let search = this.searchIndexes.get(index);
+    if (!search) {
+      search = SearchIndex.build(index.chunks);
+      this.searchIndexes.set(index, search);
+    }
+    return search;
+  }
+
+  private searchContext(index: IndexResult): SearchQueryContext {
+    let definitions: Map<string, Array<{ path: string; line: number }>> | undefined;
+    return {
+      language: (chunk) => index.fileLanguageByHash[chunk.fileHash],
+      isTest: (path) => this.isTestFile(path),
+      defines: (chunk, symbol) => {
+        if (!definitions) {
+          definitions = new Map();
+          for (const [name, entries] of Object.entries(index.symbolIndex ?? {})) {
+            const key = name.toLowerCase();
+            definitions.set(key, [...(definitions.get(key) ?? []), ...entries]);
+          }
+        }
+        const { path, startLine, endLine } = chunk.metadata;
+        return (definitions.get(symbol.toLowerCase()) ?? []).some(
+          (definition) => definition.path === path && definition.line >= startLine && definition.line <= endLine,
+        );
+      },
+    };
+  }
+
   private isTestFile(filePath: string): boolean {
     const normalizedPath = filePath.replace(/\\/g, '/');
     return /(__tests__|\.test\.|\.spec\.|\/tests\/)/i.test(normalizedPath);
@@ -1022,28 +1490,112 @@ export class IndexManager {
     return resolved;
   }
 
-  private buildSymbolIndex(chunks: IndexChunk[]): Record<string, Array<{ path: string; line: number }>> {
-    const map = new Map<string, Array<{ path: string; line: number }>>();
-    chunks.forEach((chunk) => {
-      const lines = chunk.text.split(/\r?\n/);
-      lines.forEach((line, idx) => {
-        SYMBOL_REGEXES.forEach((regex) => {
-          const match = line.match(regex);
-          const symbol = match?.[1] ?? match?.[2];
-          if (!symbol) {
-            return;
-          }
-          const list = map.get(symbol) ?? [];
-          list.push({ path: chunk.metadata.path, line: chunk.metadata.startLine + idx });
-          map.set(symbol, list);
-        });
+  private async withFileRelations(result: IndexResult): Promise<IndexResult> {
+    const fileContents = new Map(Object.entries(result.fileContents));
+    const derived: Partial<IndexResult> = {};
+    if (!result.symbolIndex) {
+      const { symbolIndex, symbolReferences, callGraph } = await this.buildSymbolIndex(result.files, fileContents);
+      if (Object.keys(symbolIndex).length > 0) {
+        derived.symbolIndex = symbolIndex;
+      }
+      if (Object.keys(symbolReferences).length > 0) {
+        derived.symbolReferences = symbolReferences;
+      }
+      if (!result.callGraph && callGraph.length > 0) {
+        derived.callGraph = callGraph;
+      }
+    }
+    if (!result.dependencyGraph || !result.testCoverage) {
+      const testCoverage = new Map<string, Set<string>>();
+      const dependencyGraph = new Map<string, Set<string>>();
+      fileContents.forEach((content, path) => {
+        this.updateTestCoverage(testCoverage, path, content);
+        this.updateDependencyGraph(dependencyGraph, path, content);
       });
-    });
-    const record: Record<string, Array<{ path: string; line: number }>> = {};
-    map.forEach((entries, symbol) => {
-      record[symbol] = entries;
-    });
-    return record;
+      const testCoverageRecord = this.mapSetRecord(testCoverage);
+      const dependencyGraphRecord = this.mapSetRecord(dependencyGraph);
+      if (!result.testCoverage && Object.keys(testCoverageRecord).length > 0) {
+        derived.testCoverage = testCoverageRecord;
+      }
+      if (!result.dependencyGraph && Object.keys(dependencyGraphRecord).length > 0) {
+        derived.dependencyGraph = dependencyGraphRecord;
+      }
+    }
+    return { ...result, ...derived };
+  }
+
+  private async buildSymbolIndex(
+    files: IndexFileMetadata[],
+    fileContents: Map<string, string>,
+  ): Promise<{
+    symbolIndex: Record<string, SymbolDefinition[]>;
+    symbolReferences: Record<string, SymbolReference[]>;
+    callGraph: CallEdge[];
+  }> {
+    const definitions = new Map<string, SymbolDefinition[]>();
+    const uses: Array<{ name: string; reference: SymbolReference }> = [];
+    const calls: CallEdge[] = [];
+    for (const file of files) {
+      const text = fileContents.get(file.path);
+      if (text === undefined) {
+        continue;
+      }
+      const cached = this.symbolCache.get(file.path);
+      let symbols = cached?.hash === file.hash ? cached.symbols : undefined;
+      if (!symbols) {
+        symbols = await extractFileSymbols({ text, path: file.path, language: file.language });
+        this.symbolCache.set(file.path, { hash: file.hash, symbols });
+      }
+      for (const { name, ...definition } of symbols.definitions) {
+        const list = definitions.get(name) ?? [];
+        list.push({ path: file.path, ...definition });
+        definitions.set(name, list);
+      }
+      for (const { name, line, column } of symbols.references) {
+        uses.push({ name, reference: { path: file.path, line, column } });
+      }
+      for (const { caller, callerContainer, callee, line, column } of symbols.calls) {
+        calls.push({ caller, ...(callerContainer ? { callerContainer } : {}), callee, path: file.path, line, column });
+      }
+    }
+    const references = new Map<string, SymbolReference[]>();
+    for (const { name, reference } of uses) {
+      if (definitions.has(name)) {
+        const list = references.get(name) ?? [];
+        list.push(reference);
+        references.set(name, list);
+      }
+    }
+    return {
+      symbolIndex: Object.fromEntries(definitions),
+      symbolReferences: Object.fromEntries(references),
+      callGraph: calls.filter((call) => definitions.has(call.callee)),
+    };
+  }
+
+  /** Reads lines of indexed files, trimmed and cut to 200 characters; each file is split once. */
+  private lineReader(index: IndexResult): (path: string, line: number) => string {
+    const lines = new Map<string, string[]>();
+    return (path, line) => {
+      let fileLines = lines.get(path);
+      if (!fileLines) {
+        fileLines = (index.fileContents[path] ?? '').split(/\r?\n/);
+        lines.set(path, fileLines);
+      }
+      return (fileLines[line - 1] ?? '').trim().slice(0, 200);
+    };
+  }
+
+  /** Stores an index as the most recent one, dropping the oldest beyond `maxIndexesInMemory`. */
+  private retainIndex(key: string, result: IndexResult): void {
+    this.indexes.delete(key);
+    this.indexes.set(key, result);
+    for (const oldest of this.indexes.keys()) {
+      if (this.indexes.size <= this.maxIndexesInMemory) {
+        break;
+      }
+      this.indexes.delete(oldest);
+    }
   }
 
   private findLatestIndex(spec: IndexResult['spec']): IndexResult | undefined {
@@ -1169,41 +1721,127 @@ export class IndexManager {
   }
 
   async buildContextPack(spec: IndexResult['spec'], options: ContextPackOptions = {}): Promise<ContextPackResult> {
-    const limit = options.limit ?? 20;
-    const maxTokens = options.maxTokens ?? Infinity;
-    const includePaths = options.paths && options.paths.length > 0 ? options.paths : options.indexOptions?.includePaths;
     const index = this.getIndex(spec, options.ref) ?? await this.indexRepository(spec, {
       ...options.indexOptions,
       ref: options.ref,
-      includePaths,
       dryRun: true,
     });
 
-    const pathFilter = options.paths && options.paths.length > 0 ? new Set(options.paths) : undefined;
-    const filtered = index.chunks.filter((chunk) => {
-      if (pathFilter && !pathFilter.has(chunk.metadata.path)) {
-        return false;
-      }
-      return (chunk.metadata.tokenCount ?? chunk.text.length) <= maxTokens;
-    });
-
-    const sorted = filtered.sort((a, b) => {
-      const tokenA = a.metadata.tokenCount ?? a.text.length;
-      const tokenB = b.metadata.tokenCount ?? b.text.length;
-      return tokenB - tokenA;
+    const targets = partitionTargets(index, options.targets ?? []);
+    const scored = scoreContextChunks(index, {
+      query: options.query,
+      symbols: [...(options.symbols ?? []), ...targets.symbols],
+      paths: [...(options.paths ?? []), ...targets.paths],
     });
+    const limit = options.limit ?? 20;
+    const maxTokens = options.maxTokens ?? Infinity;
+    const history = options.order === 'stable' ? await this.loadFileHistory(spec, index.ref) : undefined;
+    const arrange = (entries: ScoredChunk[]) =>
+      options.order === 'stable'
+        ? orderForCache(entries, history, options.volatileCommits ?? 10)
+        : { ordered: entries, prefixLength: 0 };
+    let selected: ScoredChunk[];
+    let totalTokens: number;
+    let prompt: string | undefined;
+    if (options.format) {
+      const tokenizer = tokenizerRegistry.resolve(
+        options.tokenizer ?? index.chunking?.tokenizer.id ?? DEFAULT_CHUNKING.tokenizer.id,
+      );
+      const renderOptions = {
+        format: options.format,
+        languageByHash: index.fileLanguageByHash,
+        contextHeaders: options.contextHeaders,
+      };
+      const render = (entries: ScoredChunk[]) =>
+        renderPrompt(arrange(entries).ordered.map((entry) => entry.chunk), renderOptions);
+      // Chunks are picked by the tokens their rendering adds; the exact total is checked on the whole prompt.
+      const frame = tokenizer.count(render([]));
+      ({ selected } = selectContextChunks(scored, {
+        limit,
+        maxTokens: maxTokens - frame,
+        countTokens: (chunk) => tokenizer.count(renderPrompt([chunk], renderOptions)) - frame,
+      }));
+      prompt = render(selected);
+      totalTokens = tokenizer.count(prompt);
+      while (totalTokens > maxTokens && selected.length > 0) {
+        selected = selected.slice(0, -1);
+        prompt = render(selected);
+        totalTokens = tokenizer.count(prompt);
+      }
+    } else {
+      const countTextTokens = chunkTokenCounter(options.tokenizer);
+      const countHeaderTokens = options.contextHeaders
+        ? contextHeaderTokenCounter(index, options.tokenizer)
+        : () => 0;
+      ({ selected, totalTokens } = selectContextChunks(scored, {
+        limit,
+        maxTokens,
+        countTokens: (chunk) => countTextTokens(chunk) + countHeaderTokens(chunk),
+      }));
+    }
 
-    const selected = sorted.slice(0, limit);
-    const totalChunks = selected.length;
-    const totalTokens = selected.reduce(
-      (sum, chunk) => sum + (chunk.metadata.tokenCount ?? chunk.text.length),
-      0,
-    );
-
+    const { ordered, prefixLength } = arrange(selected);
     return {
-      chunks: selected,
-      totalChunks,
+      chunks: ordered.map(({ chunk, score, reasons }) => ({
+        ...(options.contextHeaders ? withContextualText(chunk, index.fileLanguageByHash[chunk.fileHash]) : chunk),
+        score,
+        reasons,
+      })),
+      totalChunks: ordered.length,
       totalTokens,
+      ...(prompt !== undefined ? { prompt } : {}),
+      ...(options.order === 'stable'
+        ? { prefixHash: hashChunkPrefix(ordered.slice(0, prefixLength).map((entry) => entry.chunk)), prefixChunks: prefixLength }
+        : {}),
     };
   }
+
+  async buildRepoMap(spec: IndexResult['spec'], options: RepoMapOptions = {}): Promise<RepoMapResult> {
+    const index = this.getIndex(spec, options.ref) ?? await this.indexRepository(spec, {
+      ...options.indexOptions,
+      ref: options.ref,
+      dryRun: true,
+    });
+    const tokenizer = tokenizerRegistry.resolve(
+      options.tokenizer ?? index.chunking?.tokenizer.id ?? DEFAULT_CHUNKING.tokenizer.id,
+    );
+    return buildRepoMap(index, tokenizer, { maxTokens: options.maxTokens ?? 1024, pathGlob: options.pathGlob });
+  }
+
+  /**
+   * Git change history per path for stable context pack ordering, cached for
+   * the last commit read of each repository. Undefined for other repository types and when the history
+   * cannot be read (an imported index whose repository is not on this
+   * machine, a failed clone), so chunks fall back to path order.
+   */
+  private async loadFileHistory(spec: IndexResult['spec'], ref?: string): Promise<Map<string, GitFileHistory> | undefined> {
+    if (spec.type !== 'git') {
+      return undefined;
+    }
+    const key = `${spec.type}:${spec.path}`;
+    const cached = this.historyCache.get(key);
+    if (ref && cached?.ref === ref) {
+      return cached.history;
+    }
+    let cleanup: (() => Promise<void>) | undefined;
+    try {
+      const handle = await openRepository(spec);
+      cleanup = handle.cleanup;
+      if (handle.type !== 'git') {
+        return undefined;
+      }
+      const history = await (handle.repository as GitRepository).fileChangeHistory({ ref });
+      if (ref) {
+        this.historyCache.set(key, { ref, history });
+      }
+      return history;
+    } catch (error) {
+      console.warn(`Failed to read git history of ${spec.path}, ordering context by path: ${(error as Error).message}`);
+      return undefined;
+    } finally {
+      if (cleanup) {
+        await cleanup();
+      }
+    }
+  }
 }
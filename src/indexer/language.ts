@@ -1,3 +1,5 @@
+import { isNotebookPath, NotebookExtraction } from '../normalization';
+
 const EXTENSION_LANGUAGE_MAP: Record<string, string> = {
   '.ts': 'TypeScript',
   '.tsx': 'TypeScript',
@@ -43,10 +45,49 @@ const EXTENSION_LANGUAGE_MAP: Record<string, string> = {
   '.gradle': 'Groovy',
   '.groovy': 'Groovy',
   '.lua': 'Lua',
+  '.ipynb': 'Jupyter Notebook',
+};
+
+const KERNEL_LANGUAGE_MAP: Record<string, string> = {
+  python: 'Python',
+  python3: 'Python',
+  r: 'R',
+  julia: 'Julia',
+  scala: 'Scala',
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  'c#': 'C#',
+  csharp: 'C#',
+  'c++': 'C++',
+  cpp: 'C++',
+  go: 'Go',
+  rust: 'Rust',
+  java: 'Java',
+  kotlin: 'Kotlin',
+  ruby: 'Ruby',
+  bash: 'Shell',
+  sh: 'Shell',
+  powershell: 'PowerShell',
+  sql: 'SQL',
+  lua: 'Lua',
 };
 
-export function detectLanguageFromPath(path: string): string | undefined {
+/**
+ * Detects a file's language from its extension. Notebooks are tagged with
+ * their kernel language when their `notebook` extraction is given and
+ * declares one.
+ */
+export function detectLanguageFromPath(
+  path: string,
+  notebook?: Pick<NotebookExtraction, 'language'>,
+): string | undefined {
   const lower = path.toLowerCase();
+  if (notebook && isNotebookPath(lower)) {
+    const kernel = notebook.language?.toLowerCase();
+    if (kernel) {
+      return KERNEL_LANGUAGE_MAP[kernel] ?? kernel.charAt(0).toUpperCase() + kernel.slice(1);
+    }
+  }
   if (lower === 'dockerfile' || lower.endsWith('/dockerfile')) {
     return 'Dockerfile';
   }
@@ -0,0 +1,370 @@
+import { minimatch } from 'minimatch';
+import { IndexChunk } from './types';
+
+export type SearchField = 'path' | 'lang' | 'ext' | 'symbol' | 'test';
+
+export type SearchQueryNode =
+  | { type: 'and' | 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  | { type: 'word'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'regex'; pattern: RegExp }
+  | { type: 'field'; field: SearchField; value: string };
+
+/** A parsed `search_text` query. */
+export interface SearchQuery {
+  source: string;
+  root: SearchQueryNode;
+}
+
+/** What field filters need to know about a chunk beyond its text and path. */
+export interface SearchQueryContext {
+  language(chunk: IndexChunk): string | undefined;
+  isTest(path: string): boolean;
+  defines(chunk: IndexChunk, symbol: string): boolean;
+}
+
+type Token =
+  | { kind: 'open' | 'close' | 'and' | 'or' | 'not'; column: number }
+  | { kind: 'node'; node: SearchQueryNode; column: number };
+
+const FIELDS: SearchField[] = ['path', 'lang', 'ext', 'symbol', 'test'];
+const REGEX_FLAGS = /^[imsu]*$/;
+const GLOB_CHARS = /[*?[\]{}]/;
+const MAX_REGEX_LENGTH = 256;
+const BRACE_QUANTIFIER = /^\{\d+(,\d*)?\}/;
+
+function queryError(message: string, column: number): Error {
+  return new Error(`Invalid search query at column ${column}: ${message}`);
+}
+
+/** Reads a `"..."` string starting at `start`; `\"` and `\\` are escapes. */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = '';
+  let index = start + 1;
+  while (index < input.length && input[index] !== '"') {
+    if (input[index] === '\\' && index + 1 < input.length) {
+      index += 1;
+    }
+    value += input[index];
+    index += 1;
+  }
+  if (index >= input.length) {
+    throw queryError('unterminated phrase', start + 1);
+  }
+  return { value, end: index + 1 };
+}
+
+/**
+ * Whether a group that repeats something is itself repeated, as in `(a+)+`
+ * or `(\w*\s?)*`. Such patterns can backtrack exponentially on text that
+ * almost matches, and a regular expression runs on the request thread.
+ */
+function hasNestedQuantifier(source: string): boolean {
+  // Whether each open group contains a quantifier.
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const repeats = groups.pop() ?? false;
+      const next = source[index + 1];
+      if (repeats && (next === '*' || next === '+' || BRACE_QUANTIFIER.test(source.slice(index + 1)))) {
+        return true;
+      }
+      if (repeats && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if (
+      groups.length > 0 &&
+      (char === '*' || char === '+' || (char === '{' && BRACE_QUANTIFIER.test(source.slice(index))))
+    ) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+function readRegex(input: string, start: number): { node: SearchQueryNode; end: number } {
+  let index = start + 1;
+  while (index < input.length && input[index] !== '/') {
+    index += input[index] === '\\' ? 2 : 1;
+  }
+  if (index >= input.length) {
+    throw queryError('unterminated regular expression', start + 1);
+  }
+  const source = input.slice(start + 1, index);
+  let end = index + 1;
+  while (end < input.length && /[a-z]/i.test(input[end])) {
+    end += 1;
+  }
+  const flags = input.slice(index + 1, end);
+  if (!REGEX_FLAGS.test(flags)) {
+    throw queryError(`unsupported regular expression flags "${flags}" (use i, m, s or u)`, index + 2);
+  }
+  if (source === '') {
+    throw queryError('empty regular expression', start + 1);
+  }
+  if (source.length > MAX_REGEX_LENGTH) {
+    throw queryError(`regular expression longer than ${MAX_REGEX_LENGTH} characters`, start + 1);
+  }
+  if (hasNestedQuantifier(source)) {
+    throw queryError(`regular expression /${source}/ repeats a group that contains a repeat`, start + 1);
+  }
+  try {
+    return { node: { type: 'regex', pattern: new RegExp(source, flags) }, end };
+  } catch (error) {
+    throw queryError(`invalid regular expression /${source}/: ${(error as Error).message}`, start + 1);
+  }
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < input.length) {
+    const char = input[index];
+    const column = index + 1;
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'open' : 'close', column });
+      index += 1;
+    } else if (char === '-' && index + 1 < input.length && !/[\s)]/.test(input[index + 1])) {
+      tokens.push({ kind: 'not', column });
+      index += 1;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, index);
+      if (value.trim() === '') {
+        throw queryError('empty phrase', column);
+      }
+      tokens.push({ kind: 'node', node: { type: 'phrase', value }, column });
+      index = end;
+    } else if (char === '/') {
+      const { node, end } = readRegex(input, index);
+      tokens.push({ kind: 'node', node, column });
+      index = end;
+    } else {
+      let end = index;
+      while (end < input.length && !/[\s()]/.test(input[end]) && input[end] !== '"') {
+        end += 1;
+      }
+      const word = input.slice(index, end);
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not', column });
+        index = end;
+        continue;
+      }
+      const field = /^([a-z]+):/.exec(word);
+      // `std::move` or `http://host` are words, not fields.
+      if (field && !/^[:/]/.test(input.slice(index + field[0].length))) {
+        const name = field[1] as SearchField;
+        if (!FIELDS.includes(name)) {
+          throw queryError(`unknown field "${field[1]}" (expected ${FIELDS.join(', ')})`, column);
+        }
+        let value = word.slice(field[0].length);
+        if (input[end] === '"' && value === '') {
+          const quoted = readQuoted(input, end);
+          value = quoted.value;
+          end = quoted.end;
+        }
+        if (value === '') {
+          throw queryError(`missing value for ${name}:`, column);
+        }
+        if (name === 'test' && value !== 'true' && value !== 'false') {
+          throw queryError(`test: expects true or false, got "${value}"`, column);
+        }
+        tokens.push({ kind: 'node', node: { type: 'field', field: name, value }, column });
+      } else {
+        tokens.push({ kind: 'node', node: { type: 'word', value: word }, column });
+      }
+      index = end;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses a search query. Terms next to each other must all match; `OR`
+ * binds looser than `AND`, `NOT`/`-` negate the next term and parentheses
+ * group. Terms are words, `"exact phrases"`, `/regular expressions/flags`
+ * and the field filters `path:`, `lang:`, `ext:`, `symbol:` and `test:`.
+ * Invalid queries throw an error naming the column of the problem.
+ */
+export function parseSearchQuery(source: string): SearchQuery {
+  const tokens = tokenize(source);
+  if (tokens.length === 0) {
+    throw new Error('Invalid search query: the query is empty');
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const endColumn = source.length + 1;
+
+  const parseOr = (): SearchQueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position += 1;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+  const parseAnd = (): SearchQueryNode => {
+    const children = [parseUnary()];
+    for (let token = peek(); token && token.kind !== 'or' && token.kind !== 'close'; token = peek()) {
+      if (token.kind === 'and') {
+        position += 1;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+  const parseUnary = (): SearchQueryNode => {
+    const token = peek();
+    if (!token) {
+      const previous = tokens[position - 1];
+      throw queryError(`expected a term after ${describe(previous)}`, endColumn);
+    }
+    position += 1;
+    switch (token.kind) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case 'open': {
+        const inner = parseOr();
+        if (peek()?.kind !== 'close') {
+          throw queryError('missing closing parenthesis', token.column);
+        }
+        position += 1;
+        return inner;
+      }
+      case 'node':
+        return token.node;
+      default:
+        throw queryError(`unexpected ${describe(token)}`, token.column);
+    }
+  };
+
+  const root = parseOr();
+  const rest = peek();
+  if (rest) {
+    throw queryError(`unexpected ${describe(rest)}`, rest.column);
+  }
+  return { source, root };
+}
+
+function describe(token: Token | undefined): string {
+  switch (token?.kind) {
+    case 'open':
+      return '"("';
+    case 'close':
+      return '")"';
+    case 'and':
+    case 'or':
+    case 'not':
+      return token.kind.toUpperCase();
+    default:
+      return 'the start of the query';
+  }
+}
+
+/** The words and phrases of a query that are not negated, joined by spaces: the text semantic search embeds. */
+export function queryText(node: SearchQueryNode, negated = false): string {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return node.children
+        .map((child) => queryText(child, negated))
+        .filter(Boolean)
+        .join(' ');
+    case 'not':
+      return queryText(node.child, !negated);
+    case 'word':
+    case 'phrase':
+      return negated ? '' : node.value;
+    default:
+      return '';
+  }
+}
+
+/**
+ * The filtering part of a query: everything except words and phrases that
+ * are not negated, which semantic search matches by meaning instead.
+ * `undefined` when nothing is left to filter by.
+ */
+export function filterQuery(node: SearchQueryNode): SearchQueryNode | undefined {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(filterQuery).filter((child): child is SearchQueryNode => !!child);
+      if (children.length <= 1) {
+        return children[0];
+      }
+      return { type: 'and', children };
+    }
+    case 'or': {
+      const children = node.children.map(filterQuery);
+      return children.every((child): child is SearchQueryNode => !!child) ? { type: 'or', children } : undefined;
+    }
+    case 'word':
+    case 'phrase':
+      return undefined;
+    default:
+      return node;
+  }
+}
+
+/**
+ * Reads `offset` and `limit` from REST query strings or MCP tool arguments,
+ * so both reject the same values. Absent and empty values are left
+ * undefined; anything but a non-negative integer throws.
+ */
+export function parsePaging(params: { offset?: unknown; limit?: unknown }): { offset?: number; limit?: number } {
+  const paging: { offset?: number; limit?: number } = {};
+  for (const key of ['offset', 'limit'] as const) {
+    const value = params[key];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const number = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isSafeInteger(number) || number < 0) {
+      throw new Error(`${key} must be a non-negative integer`);
+    }
+    paging[key] = number;
+  }
+  return paging;
+}
+
+/** Whether a path filter value matches: globs with minimatch, plain values as a substring. */
+export function matchesPath(path: string, value: string): boolean {
+  return GLOB_CHARS.test(value) ? minimatch(path, value, { dot: true }) : path.includes(value);
+}
+
+export function matchesField(
+  chunk: IndexChunk,
+  field: SearchField,
+  value: string,
+  context: SearchQueryContext,
+): boolean {
+  const path = chunk.metadata.path;
+  switch (field) {
+    case 'path':
+      return matchesPath(path, value);
+    case 'lang':
+      return context.language(chunk)?.toLowerCase() === value.toLowerCase();
+    case 'ext': {
+      const extension = /\.([^./]+)$/.exec(path)?.[1];
+      return extension?.toLowerCase() === value.replace(/^\./, '').toLowerCase();
+    }
+    case 'symbol':
+      return context.defines(chunk, value);
+    case 'test':
+      return context.isTest(path) === (value === 'true');
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,190 @@
+import { minimatch } from 'minimatch';
+import { Tokenizer } from '../chunker';
+import { IndexResult, RepoMapFile, RepoMapResult, RepoMapSymbol } from './types';
+import { resolveDependencyGraph } from './dependencies';
+
+const DAMPING = 0.85;
+const ITERATIONS = 30;
+const MAX_SIGNATURE_CHARS = 120;
+
+interface RepoMapItem {
+  path: string;
+  score: number;
+  symbol?: RepoMapSymbol;
+}
+
+function signatureAt(lines: string[], line: number, fallback: string): string {
+  const text = lines[line - 1]?.trim().replace(/\s*[{:]$/, '');
+  if (!text) {
+    return fallback;
+  }
+  return text.length > MAX_SIGNATURE_CHARS ? `${text.slice(0, MAX_SIGNATURE_CHARS)}...` : text;
+}
+
+/** Weighted PageRank; edges point from a file to the files it imports or whose symbols it uses. */
+function rankFiles(paths: string[], edges: Map<string, Map<string, number>>): Map<string, number> {
+  const count = paths.length;
+  let ranks = new Map(paths.map((path) => [path, 1 / count]));
+  for (let iteration = 0; iteration < ITERATIONS; iteration += 1) {
+    const next = new Map(paths.map((path) => [path, (1 - DAMPING) / count]));
+    let dangling = 0;
+    for (const path of paths) {
+      const targets = edges.get(path);
+      const rank = ranks.get(path)!;
+      const total = targets ? Array.from(targets.values()).reduce((sum, weight) => sum + weight, 0) : 0;
+      if (!targets || total === 0) {
+        dangling += rank;
+        continue;
+      }
+      for (const [target, weight] of targets) {
+        next.set(target, next.get(target)! + (DAMPING * rank * weight) / total);
+      }
+    }
+    for (const path of paths) {
+      next.set(path, next.get(path)! + (DAMPING * dangling) / count);
+    }
+    ranks = next;
+  }
+  return ranks;
+}
+
+function renderTree(files: Map<string, RepoMapSymbol[]>): string {
+  const lines: string[] = [];
+  let previous: string[] = [];
+  for (const path of Array.from(files.keys()).sort()) {
+    const segments = path.split('/');
+    const directories = segments.slice(0, -1);
+    let shared = 0;
+    while (shared < directories.length && shared < previous.length && directories[shared] === previous[shared]) {
+      shared += 1;
+    }
+    for (let depth = shared; depth < directories.length; depth += 1) {
+      lines.push(`${'  '.repeat(depth)}${directories[depth]}/`);
+    }
+    previous = directories;
+    lines.push(`${'  '.repeat(directories.length)}${segments[segments.length - 1]}`);
+    const indent = '  '.repeat(directories.length + 1);
+    for (const symbol of files.get(path)!.slice().sort((a, b) => a.line - b.line)) {
+      lines.push(`${indent}${symbol.line}: ${symbol.signature}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderItems(items: RepoMapItem[]): { text: string; files: Map<string, RepoMapSymbol[]> } {
+  const files = new Map<string, RepoMapSymbol[]>();
+  for (const item of items) {
+    const symbols = files.get(item.path) ?? [];
+    if (item.symbol) {
+      symbols.push(item.symbol);
+    }
+    files.set(item.path, symbols);
+  }
+  return { text: renderTree(files), files };
+}
+
+/**
+ * Builds a directory tree of the most important files and their symbols that
+ * fits `maxTokens`. Files are ranked with PageRank over the references between
+ * them: relative imports from `dependencyGraph` and uses of the symbols in
+ * `symbolIndex` by other files, as recorded in `symbolReferences`. A file's rank is shared among its symbols by
+ * how many files use each one, and the highest scoring files and symbols are
+ * kept.
+ */
+export function buildRepoMap(
+  index: IndexResult,
+  tokenizer: Tokenizer,
+  options: { maxTokens: number; pathGlob?: string },
+): RepoMapResult {
+  const paths = index.files.map((file) => file.path);
+  const linesByPath = new Map<string, string[]>();
+  const linesOf = (path: string) => {
+    let lines = linesByPath.get(path);
+    if (!lines) {
+      lines = index.fileContents[path]?.split('\n') ?? [];
+      linesByPath.set(path, lines);
+    }
+    return lines;
+  };
+  const edges = new Map<string, Map<string, number>>();
+  const addEdge = (from: string, to: string, weight: number) => {
+    if (from === to) {
+      return;
+    }
+    const targets = edges.get(from) ?? new Map<string, number>();
+    targets.set(to, (targets.get(to) ?? 0) + weight);
+    edges.set(from, targets);
+  };
+
+  for (const [source, targets] of resolveDependencyGraph(index)) {
+    targets.forEach((target) => addEdge(source, target, 1));
+  }
+
+  const usedIn = new Map<string, Set<string>>();
+  for (const [name, references] of Object.entries(index.symbolReferences ?? {})) {
+    usedIn.set(name, new Set(references.map((reference) => reference.path)));
+  }
+
+  const symbolsByPath = new Map<string, RepoMapSymbol[]>();
+  for (const [name, definitions] of Object.entries(index.symbolIndex ?? {})) {
+    const definedIn = new Set(definitions.map((definition) => definition.path));
+    const users = Array.from(usedIn.get(name) ?? []).filter((path) => !definedIn.has(path));
+    for (const definition of definitions) {
+      const symbols = symbolsByPath.get(definition.path) ?? [];
+      if (symbols.some((symbol) => symbol.line === definition.line)) {
+        continue;
+      }
+      symbols.push({
+        name,
+        line: definition.line,
+        signature: signatureAt(linesOf(definition.path), definition.line, name),
+        references: users.length,
+      });
+      symbolsByPath.set(definition.path, symbols);
+      users.forEach((user) => addEdge(user, definition.path, 1 / definedIn.size));
+    }
+  }
+
+  const ranks = rankFiles(paths, edges);
+  const matches = options.pathGlob ? (path: string) => minimatch(path, options.pathGlob!) : () => true;
+  const items: RepoMapItem[] = [];
+  for (const path of paths.filter(matches)) {
+    const rank = ranks.get(path) ?? 0;
+    items.push({ path, score: rank });
+    const symbols = symbolsByPath.get(path) ?? [];
+    const weight = symbols.reduce((sum, symbol) => sum + 1 + symbol.references, 0);
+    for (const symbol of symbols) {
+      items.push({ path, score: (rank * (1 + symbol.references)) / weight, symbol });
+    }
+  }
+  items.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.path.localeCompare(b.path) ||
+      Number(Boolean(a.symbol)) - Number(Boolean(b.symbol)) ||
+      (a.symbol?.line ?? 0) - (b.symbol?.line ?? 0),
+  );
+
+  // The longest prefix of the ranked items whose rendering fits the budget.
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (tokenizer.count(renderItems(items.slice(0, middle)).text) <= options.maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  const { text, files } = renderItems(items.slice(0, low));
+  const included: RepoMapFile[] = Array.from(files.entries())
+    .map(([path, symbols]) => ({ path, rank: ranks.get(path) ?? 0, symbols }))
+    .sort((a, b) => b.rank - a.rank || a.path.localeCompare(b.path));
+  return {
+    text,
+    files: included,
+    totalTokens: text ? tokenizer.count(text) : 0,
+    totalFiles: items.filter((item) => !item.symbol).length,
+  };
+}
@@ -0,0 +1,356 @@
+import { minimatch } from 'minimatch';
+import {
+  IndexChunk,
+  SearchResult,
+  SearchTextResult,
+  SemanticSearchMatch,
+  SemanticSearchMode,
+  SemanticSearchResult,
+} from './types';
+import { filterQuery, matchesField, parseSearchQuery, SearchQuery, SearchQueryContext, SearchQueryNode } from './query';
+
+const K1 = 1.2;
+const B = 0.75;
+const DEFAULT_LIMIT = 50;
+const MAX_EXCERPT_CHARS = 200;
+/** Reciprocal rank fusion constant; damps the weight of the very top ranks. */
+const RRF_K = 60;
+const NO_CONTEXT: SearchQueryContext = {
+  language: () => undefined,
+  isTest: () => false,
+  defines: () => false,
+};
+
+interface SearchDocument {
+  chunk: IndexChunk;
+  length: number;
+  terms: Map<string, number>;
+}
+
+export interface SearchIndexOptions {
+  pathGlob?: string;
+  offset?: number;
+  limit?: number;
+  /** Languages, test files and symbol definitions for `lang:`, `test:` and `symbol:` filters. */
+  context?: SearchQueryContext;
+}
+
+/**
+ * Lower-cased words of `text`. Identifiers are also split at camelCase and
+ * snake_case boundaries, so `parseHttpHeader` matches `parse`, `http` and
+ * `header` as well as `parsehttpheader`.
+ */
+export function searchTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9_]+/g) ?? []) {
+    terms.push(word.toLowerCase());
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_]+/)
+      .filter(Boolean);
+    if (parts.length > 1) {
+      parts.forEach((part) => terms.push(part.toLowerCase()));
+    }
+  }
+  return terms.filter((term) => term.length > 1);
+}
+
+function countTerms(text: string): { length: number; terms: Map<string, number> } {
+  const terms = new Map<string, number>();
+  const all = searchTerms(text);
+  all.forEach((term) => terms.set(term, (terms.get(term) ?? 0) + 1));
+  return { length: all.length, terms };
+}
+
+function compareChunks(a: IndexChunk, b: IndexChunk): number {
+  return a.metadata.path.localeCompare(b.metadata.path) || a.metadata.startLine - b.metadata.startLine;
+}
+
+function compareRanked(a: { chunk: IndexChunk; score: number }, b: { chunk: IndexChunk; score: number }): number {
+  return b.score - a.score || compareChunks(a.chunk, b.chunk);
+}
+
+/**
+ * The terms a word must contain to match: the camelCase and snake_case parts
+ * of identifiers, or the word itself when it has none.
+ */
+function requiredTerms(text: string): string[] {
+  const terms = (text.match(/[A-Za-z0-9_]+/g) ?? []).flatMap((word) => {
+    const all = searchTerms(word);
+    return all.length > 1 ? all.slice(1) : all;
+  });
+  return Array.from(new Set(terms));
+}
+
+/** Words and phrases that are not negated, which rank hits and pick the line to show. */
+function positiveTerms(node: SearchQueryNode, negated = false): { terms: string[]; patterns: Array<(line: string) => boolean> } {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const children = node.children.map((child) => positiveTerms(child, negated));
+      return { terms: children.flatMap((child) => child.terms), patterns: children.flatMap((child) => child.patterns) };
+    }
+    case 'not':
+      return positiveTerms(node.child, !negated);
+    case 'word':
+      return { terms: negated ? [] : searchTerms(node.value), patterns: [] };
+    case 'phrase': {
+      const phrase = node.value.toLowerCase();
+      return { terms: negated ? [] : searchTerms(node.value), patterns: negated ? [] : [(line) => line.toLowerCase().includes(phrase)] };
+    }
+    case 'regex':
+      return { terms: [], patterns: negated ? [] : [(line) => node.pattern.test(line)] };
+    default:
+      return { terms: [], patterns: [] };
+  }
+}
+
+/**
+ * The line of a chunk to show for a hit: the first line matching a phrase or
+ * regular expression of the query, else the first line with the most
+ * distinct query terms.
+ */
+function bestLine(chunk: IndexChunk, patterns: Array<(line: string) => boolean>, queryTerms: string[]): number {
+  const lines = chunk.text.split(/\r?\n/);
+  const exact = lines.findIndex((line) => patterns.some((pattern) => pattern(line)));
+  if (exact !== -1) {
+    return exact;
+  }
+  let best = 0;
+  let bestCount = 0;
+  lines.forEach((line, index) => {
+    const terms = new Set(searchTerms(line));
+    const count = queryTerms.filter((term) => terms.has(term)).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/** Inverted index over chunk text, ranked with BM25. */
+export class SearchIndex {
+  private readonly documents = new Map<string, SearchDocument>();
+  private readonly postings = new Map<string, string[]>();
+  private totalLength = 0;
+  /** Chunks whose term counts were taken over from the base index instead of tokenizing their text again. */
+  reusedDocuments = 0;
+
+  /** Indexes `chunks`, reusing the term counts `base` holds for the same chunk ids. */
+  static build(chunks: IndexChunk[], base?: SearchIndex): SearchIndex {
+    const index = new SearchIndex();
+    for (const chunk of chunks) {
+      const previous = base?.documents.get(chunk.id);
+      if (previous && previous.chunk.text === chunk.text) {
+        index.add({ ...previous, chunk });
+        index.reusedDocuments += 1;
+      } else {
+        index.add({ chunk, ...countTerms(chunk.text) });
+      }
+    }
+    return index;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Chunks matching `query` (a query string is parsed first), ranked by the
+   * BM25 score of its words and phrases that are not negated. Queries made up
+   * only of filters, regular expressions and exclusions score every hit zero
+   * and list them by path.
+   */
+  search(query: SearchQuery | string, options: SearchIndexOptions = {}): SearchTextResult {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const offset = Math.max(0, options.offset ?? 0);
+    const limit = Math.max(0, options.limit ?? DEFAULT_LIMIT);
+    const ranked = this.rank(parsed.root, options);
+    const describe = this.describer(parsed);
+    const matches = ranked.slice(offset, offset + limit).map(({ chunk, score }) => describe(chunk, score));
+    return { matches, total: ranked.length, offset, limit };
+  }
+
+  /** Chunks passing the filters of `query` (see `filterQuery`), in path order. */
+  filter(query: SearchQuery, options: SearchIndexOptions = {}): IndexChunk[] {
+    const filters = filterQuery(query.root);
+    const context = options.context ?? NO_CONTEXT;
+    const matcher = options.pathGlob ? (path: string) => minimatch(path, options.pathGlob!) : () => true;
+    return Array.from(this.documents.values())
+      .filter((document) => matcher(document.chunk.metadata.path) && (!filters || this.matches(filters, document, context)))
+      .map((document) => document.chunk)
+      .sort(compareChunks);
+  }
+
+  /**
+   * Ranks chunks by embedding similarity to the query (`similarities`, per
+   * chunk id, over the chunks passing its filters). In `hybrid` mode the
+   * similarity ranking is fused with the BM25 ranking of `search` by
+   * reciprocal rank, so chunks near the top of either list rank high.
+   */
+  searchSemantic(
+    query: SearchQuery,
+    similarities: Map<string, number>,
+    options: SearchIndexOptions & { mode?: SemanticSearchMode; minSimilarity?: number } = {},
+  ): SemanticSearchResult {
+    const mode = options.mode ?? 'hybrid';
+    const offset = Math.max(0, options.offset ?? 0);
+    const limit = Math.max(0, options.limit ?? DEFAULT_LIMIT);
+    const minSimilarity = options.minSimilarity ?? 0;
+    const semantic = Array.from(similarities.entries())
+      .filter(([id, similarity]) => similarity >= minSimilarity && this.documents.has(id))
+      .map(([id, similarity]) => ({ chunk: this.documents.get(id)!.chunk, score: similarity }))
+      .sort(compareRanked);
+    const lexical = mode === 'hybrid' ? this.rank(query.root, options) : [];
+    const lexicalScores = new Map(lexical.map(({ chunk, score }) => [chunk.id, score]));
+
+    let ranked = semantic;
+    if (mode === 'hybrid') {
+      const fused = new Map<string, { chunk: IndexChunk; score: number }>();
+      for (const list of [semantic, lexical]) {
+        list.forEach(({ chunk }, rank) => {
+          const entry = fused.get(chunk.id) ?? { chunk, score: 0 };
+          entry.score += 1 / (RRF_K + rank + 1);
+          fused.set(chunk.id, entry);
+        });
+      }
+      ranked = Array.from(fused.values()).sort(compareRanked);
+    }
+
+    const describe = this.describer(query);
+    const matches: SemanticSearchMatch[] = ranked.slice(offset, offset + limit).map(({ chunk, score }) => {
+      const similarity = similarities.get(chunk.id);
+      const lexicalScore = lexicalScores.get(chunk.id);
+      return {
+        ...describe(chunk, score),
+        ...(similarity !== undefined ? { similarity: Number(similarity.toFixed(4)) } : {}),
+        ...(lexicalScore !== undefined ? { lexicalScore: Number(lexicalScore.toFixed(4)) } : {}),
+      };
+    });
+    return { matches, total: ranked.length, offset, limit, mode };
+  }
+
+  /** Every chunk matching `node`, with its BM25 score, best first. */
+  private rank(node: SearchQueryNode, options: SearchIndexOptions): Array<{ chunk: IndexChunk; score: number }> {
+    const context = options.context ?? NO_CONTEXT;
+    const queryTerms = Array.from(new Set(positiveTerms(node).terms));
+    const matcher = options.pathGlob ? (path: string) => minimatch(path, options.pathGlob!) : () => true;
+    const count = this.documents.size;
+    const averageLength = count > 0 ? this.totalLength / count : 0;
+    const inverseFrequency = new Map(
+      queryTerms.map((term) => {
+        const frequency = this.postings.get(term)?.length ?? 0;
+        return [term, Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5))];
+      }),
+    );
+
+    const ranked: Array<{ chunk: IndexChunk; score: number }> = [];
+    for (const id of this.candidates(node) ?? this.documents.keys()) {
+      const document = this.documents.get(id)!;
+      if (!matcher(document.chunk.metadata.path) || !this.matches(node, document, context)) {
+        continue;
+      }
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = document.terms.get(term) ?? 0;
+        if (frequency > 0) {
+          const norm = frequency + K1 * (1 - B + (B * document.length) / (averageLength || 1));
+          score += (inverseFrequency.get(term)! * frequency * (K1 + 1)) / norm;
+        }
+      }
+      ranked.push({ chunk: document.chunk, score });
+    }
+    return ranked.sort(compareRanked);
+  }
+
+  /** Turns a ranked chunk into a match pointing at its best line for `query`. */
+  private describer(query: SearchQuery): (chunk: IndexChunk, score: number) => SearchResult {
+    const positive = positiveTerms(query.root);
+    const queryTerms = Array.from(new Set(positive.terms));
+    return (chunk, score) => {
+      const index = bestLine(chunk, positive.patterns, queryTerms);
+      return {
+        path: chunk.metadata.path,
+        line: chunk.metadata.lineMap?.[index] ?? chunk.metadata.startLine + index,
+        excerpt: chunk.text.split(/\r?\n/)[index].trim().slice(0, MAX_EXCERPT_CHARS),
+        score: Number(score.toFixed(4)),
+        chunkId: chunk.id,
+      };
+    };
+  }
+
+  /**
+   * Ids that can match `node`, narrowed with the postings of its words, or
+   * `undefined` when every chunk has to be checked.
+   */
+  private candidates(node: SearchQueryNode): Set<string> | undefined {
+    switch (node.type) {
+      case 'word': {
+        const terms = requiredTerms(node.value);
+        if (terms.length === 0) {
+          return undefined;
+        }
+        return terms
+          .map((term) => new Set(this.postings.get(term) ?? []))
+          .reduce((result, ids) => new Set(Array.from(result).filter((id) => ids.has(id))));
+      }
+      case 'and': {
+        const sets = node.children.map((child) => this.candidates(child)).filter((ids): ids is Set<string> => !!ids);
+        return sets.length === 0
+          ? undefined
+          : sets.reduce((result, ids) => new Set(Array.from(result).filter((id) => ids.has(id))));
+      }
+      case 'or': {
+        const sets = node.children.map((child) => this.candidates(child));
+        return sets.every((ids): ids is Set<string> => !!ids)
+          ? new Set(sets.flatMap((ids) => Array.from(ids)))
+          : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private matches(node: SearchQueryNode, document: SearchDocument, context: SearchQueryContext): boolean {
+    const { chunk } = document;
+    switch (node.type) {
+      case 'and':
+        return node.children.every((child) => this.matches(child, document, context));
+      case 'or':
+        return node.children.some((child) => this.matches(child, document, context));
+      case 'not':
+        return !this.matches(node.child, document, context);
+      case 'word': {
+        const terms = requiredTerms(node.value);
+        return terms.length > 0
+          ? terms.every((term) => document.terms.has(term))
+          : chunk.text.toLowerCase().includes(node.value.toLowerCase());
+      }
+      case 'phrase':
+        return chunk.text.toLowerCase().includes(node.value.toLowerCase());
+      case 'regex':
+        return node.pattern.test(chunk.text);
+      case 'field':
+        return matchesField(chunk, node.field, node.value, context);
+    }
+  }
+
+  private add(document: SearchDocument): void {
+    const id = document.chunk.id;
+    if (this.documents.has(id)) {
+      return;
+    }
+    this.documents.set(id, document);
+    this.totalLength += document.length;
+    for (const term of document.terms.keys()) {
+      const ids = this.postings.get(term);
+      if (ids) {
+        ids.push(id);
+      } else {
+        this.postings.set(term, [id]);
+      }
+    }
+  }
+}
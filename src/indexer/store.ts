@@ -0,0 +1,244 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { createHash } from 'node:crypto';
+import initSqlJs, { Database } from 'sql.js';
+import { IndexResult } from './types';
+
+export type IndexStoreType = 'directory' | 'sqlite';
+
+export interface IndexStoreOptions {
+  type: IndexStoreType;
+  path: string;
+}
+
+export interface IndexStoreEntry {
+  key: string;
+  spec: IndexResult['spec'];
+  ref?: string;
+  createdAt: string;
+}
+
+/**
+ * Persistence backend for IndexManager. Entries are keyed by the same
+ * `type:path:ref` key the manager uses for its in-memory map.
+ */
+export interface IndexStore {
+  list(): Promise<IndexStoreEntry[]>;
+  load(key: string): Promise<IndexResult | undefined>;
+  save(key: string, result: IndexResult): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface StoredIndexDocument {
+  key: string;
+  savedAt: string;
+  result: IndexResult;
+}
+
+function toEntry(key: string, result: IndexResult): IndexStoreEntry {
+  return {
+    key,
+    spec: result.spec,
+    ref: result.ref,
+    createdAt: result.createdAt,
+  };
+}
+
+export class DirectoryIndexStore implements IndexStore {
+  constructor(private readonly root: string) {}
+
+  async list(): Promise<IndexStoreEntry[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.root);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const entries: IndexStoreEntry[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      const document = await this.readDocument(join(this.root, name));
+      if (document) {
+        entries.push(toEntry(document.key, document.result));
+      }
+    }
+    return entries;
+  }
+
+  async load(key: string): Promise<IndexResult | undefined> {
+    const document = await this.readDocument(this.pathFor(key));
+    return document?.key === key ? document.result : undefined;
+  }
+
+  async save(key: string, result: IndexResult): Promise<void> {
+    const target = this.pathFor(key);
+    await mkdir(dirname(target), { recursive: true });
+    const document: StoredIndexDocument = { key, savedAt: new Date().toISOString(), result };
+    const temp = `${target}.${process.pid}.tmp`;
+    await writeFile(temp, JSON.stringify(document), 'utf8');
+    await rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    const digest = createHash('sha256').update(key).digest('hex');
+    return join(this.root, `${digest}.json`);
+  }
+
+  private async readDocument(path: string): Promise<StoredIndexDocument | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+    try {
+      return JSON.parse(raw) as StoredIndexDocument;
+    } catch (error) {
+      throw new Error(`Corrupted index store entry at ${path}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/** Tail of the pending writes per database file, shared by every store instance in the process. */
+const sqliteWriteQueues = new Map<string, Promise<void>>();
+
+/**
+ * Keeps every index in one sql.js database file. sql.js works in memory, so
+ * each write loads the file, applies the change and writes the whole database
+ * back through a temporary file and a rename. Writes to the same file are
+ * queued so that concurrent saves in this process never overwrite each
+ * other; separate processes sharing the file should use a DirectoryIndexStore.
+ */
+export class SqliteIndexStore implements IndexStore {
+  constructor(private readonly filePath: string) {}
+
+  async list(): Promise<IndexStoreEntry[]> {
+    return this.withDatabase(false, (db) => {
+      const statement = db.prepare('SELECT key, spec, ref, created_at FROM indexes ORDER BY created_at');
+      const entries: IndexStoreEntry[] = [];
+      try {
+        while (statement.step()) {
+          const row = statement.getAsObject() as { key: string; spec: string; ref: string | null; created_at: string };
+          entries.push({
+            key: row.key,
+            spec: JSON.parse(row.spec) as IndexResult['spec'],
+            ref: row.ref ?? undefined,
+            createdAt: row.created_at,
+          });
+        }
+      } finally {
+        statement.free();
+      }
+      return entries;
+    });
+  }
+
+  async load(key: string): Promise<IndexResult | undefined> {
+    return this.withDatabase(false, (db) => {
+      const statement = db.prepare('SELECT payload FROM indexes WHERE key = ?');
+      try {
+        statement.bind([key]);
+        if (!statement.step()) {
+          return undefined;
+        }
+        const row = statement.getAsObject() as { payload: string };
+        return JSON.parse(row.payload) as IndexResult;
+      } finally {
+        statement.free();
+      }
+    });
+  }
+
+  async save(key: string, result: IndexResult): Promise<void> {
+    await this.withDatabase(true, (db) => {
+      db.run(
+        'INSERT OR REPLACE INTO indexes(key, spec, ref, created_at, saved_at, payload) VALUES (?, ?, ?, ?, ?, ?)',
+        [key, JSON.stringify(result.spec), result.ref ?? null, result.createdAt, new Date().toISOString(), JSON.stringify(result)],
+      );
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withDatabase(true, (db) => {
+      db.run('DELETE FROM indexes WHERE key = ?', [key]);
+    });
+  }
+
+  private async withDatabase<T>(write: boolean, fn: (db: Database) => T): Promise<T> {
+    if (!write) {
+      return this.openDatabase(false, fn);
+    }
+    const queueKey = resolve(this.filePath);
+    const run = (sqliteWriteQueues.get(queueKey) ?? Promise.resolve()).then(() => this.openDatabase(true, fn));
+    const tail = run.then(
+      () => undefined,
+      () => undefined,
+    );
+    sqliteWriteQueues.set(queueKey, tail);
+    try {
+      return await run;
+    } finally {
+      if (sqliteWriteQueues.get(queueKey) === tail) {
+        sqliteWriteQueues.delete(queueKey);
+      }
+    }
+  }
+
+  private async openDatabase<T>(write: boolean, fn: (db: Database) => T): Promise<T> {
+    const SQL = await initSqlJs();
+    let existing: Buffer | undefined;
+    try {
+      existing = await readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const db = existing ? new SQL.Database(existing) : new SQL.Database();
+    try {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS indexes (
+          key TEXT PRIMARY KEY,
+          spec TEXT,
+          ref TEXT,
+          created_at TEXT,
+          saved_at TEXT,
+          payload TEXT
+        );
+      `);
+      const value = fn(db);
+      if (write) {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const temp = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(temp, Buffer.from(db.export()));
+        await rename(temp, this.filePath);
+      }
+      return value;
+    } finally {
+      db.close();
+    }
+  }
+}
+
+export function createIndexStore(options: IndexStoreOptions): IndexStore {
+  switch (options.type) {
+    case 'directory':
+      return new DirectoryIndexStore(options.path);
+    case 'sqlite':
+      return new SqliteIndexStore(options.path);
+    default:
+      throw new Error(`Unsupported index store type: ${String((options as IndexStoreOptions).type)}`);
+  }
+}
@@ -1,7 +1,8 @@
 import { RepositorySpec } from '../ingest';
-import { Chunk, ChunkingOptions } from '../chunker';
-import { SecretFinding, SecretPattern } from '../normalization';
+import { Chunk, ChunkingOptions, FileSkeleton, SymbolKind } from '../chunker';
+import { CompactionOptions, NotebookOptions, SecretFinding, SecretPattern } from '../normalization';
 import type { DomainConfig, DomainFinding } from '../domain';
+import type { PromptFormat } from '../exporters/prompt';
 import type {
   CommitStatusPayload,
   FetchLike,
@@ -37,6 +38,17 @@ export interface IndexChunk extends Chunk {
   fileHash: string;
 }
 
+/** A chunk as returned with context headers: `contextualText` is the header, a blank line and `text`. */
+export interface ContextualIndexChunk extends IndexChunk {
+  contextualText: string;
+}
+
+/** Tokenizer and JSON-safe chunking options an index was built with. */
+export interface IndexChunkingSummary {
+  tokenizer: { id: string; version?: string };
+  options: Record<string, unknown>;
+}
+
 export interface IndexResult {
   spec: RepositorySpec;
   ref?: string;
@@ -51,7 +63,15 @@ export interface IndexResult {
   domainFindings?: DomainFinding[];
   testCoverage?: Record<string, string[]>;
   dependencyGraph?: Record<string, string[]>;
-  symbolIndex?: Record<string, Array<{ path: string; line: number }>>;
+  symbolIndex?: Record<string, SymbolDefinition[]>;
+  /** Where each name in `symbolIndex` is used, outside its own definitions. */
+  symbolReferences?: Record<string, SymbolReference[]>;
+  /** Calls from functions and methods to names defined in `symbolIndex`, one edge per call site. */
+  callGraph?: CallEdge[];
+  cacheStats?: { hits: number; misses: number };
+  chunking?: IndexChunkingSummary;
+  /** Signature-only views keyed by path, built with the `skeletons` index option. */
+  skeletons?: Record<string, FileSkeleton>;
 }
 
 export interface IndexOptions {
@@ -78,21 +98,139 @@ export interface IndexOptions {
   dryRun?: boolean;
   domain?: DomainConfig;
   languageChunkProfiles?: Record<string, Partial<ChunkingOptions>>;
+  notebooks?: NotebookOptions;
+  /** Tokenizer ids to count every chunk with, stored in `metadata.tokenCounts`. */
+  tokenCounts?: string[];
+  /** Compact file text before chunking; chunk line ranges keep pointing at source lines. */
+  compaction?: CompactionOptions;
+  /** Store a signature-only skeleton of every file with syntax support. */
+  skeletons?: boolean;
 }
 
 export interface SearchResult {
   path: string;
   line: number;
   excerpt: string;
+  /** BM25 score of the chunk the line is in. */
+  score: number;
+  chunkId: string;
+}
+
+export interface SearchTextOptions {
+  ref?: string;
+  pathGlob?: string;
+  /** Matches to skip, for paging. */
+  offset?: number;
+  /** Page size. Defaults to 50. */
+  limit?: number;
+}
+
+/** One page of ranked matches; `total` counts all matching chunks. */
+export interface SearchTextResult {
+  matches: SearchResult[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export type SemanticSearchMode = 'semantic' | 'hybrid';
+
+export interface SemanticSearchOptions extends SearchTextOptions {
+  /** `semantic` ranks by embedding similarity only; `hybrid` (default) fuses it with BM25. */
+  mode?: SemanticSearchMode;
+  /** Leave out chunks less similar to the query than this (cosine, -1 to 1). Defaults to 0. */
+  minSimilarity?: number;
+}
+
+export interface SemanticSearchMatch extends SearchResult {
+  /** Cosine similarity between the chunk and query embeddings. */
+  similarity?: number;
+  /** BM25 score, for chunks the lexical query matches. */
+  lexicalScore?: number;
+}
+
+export interface SemanticSearchResult {
+  matches: SemanticSearchMatch[];
+  total: number;
+  offset: number;
+  limit: number;
+  mode: SemanticSearchMode;
+}
+
+export interface SymbolDefinition {
+  path: string;
+  line: number;
+  endLine?: number;
+  kind?: SymbolKind;
+  /** Enclosing class, impl, trait or namespace, e.g. `Server.Router`. */
+  container?: string;
+  exported?: boolean;
+}
+
+export interface SymbolReference {
+  path: string;
+  line: number;
+  column: number;
 }
 
 export interface SymbolSearchResult {
   symbol: string;
   path: string;
   line: number;
+  endLine?: number;
+  kind?: SymbolKind;
+  container?: string;
+  exported?: boolean;
   context?: string;
 }
 
+export interface SymbolReferenceMatch extends SymbolReference {
+  context: string;
+}
+
+export interface CallEdge {
+  caller: string;
+  callerContainer?: string;
+  callee: string;
+  /** The call site. */
+  path: string;
+  line: number;
+  column: number;
+}
+
+export type CallGraphDirection = 'callers' | 'callees';
+
+export interface CallGraphOptions {
+  ref?: string;
+  direction?: CallGraphDirection;
+  /** Call levels to follow from the symbol, 1 to 5. */
+  depth?: number;
+}
+
+export interface CallGraphNode {
+  symbol: string;
+  /** Call levels from the requested symbol; 0 for the symbol itself. */
+  depth: number;
+  definitions: SymbolDefinition[];
+}
+
+export interface CallGraphResult {
+  symbol: string;
+  direction: CallGraphDirection;
+  depth: number;
+  nodes: CallGraphNode[];
+  edges: CallEdge[];
+}
+
+export interface SymbolReferencesResult {
+  symbol: string;
+  definitions: SymbolDefinition[];
+  references: SymbolReferenceMatch[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
 export interface PullRequestIdentifier {
   provider: GitProviderKind;
   id: number;
@@ -167,14 +305,89 @@ export interface BlameResult {
 
 export interface ContextPackOptions {
   ref?: string;
+  /** Free text; chunks score by the query terms they contain, rarer terms counting more. */
+  query?: string;
+  /** Symbols to gather context for; chunks defining them score highest, then chunks using them. */
+  symbols?: string[];
+  /** Target files or directories; their chunks, their dependency graph neighbours and their tests score. */
   paths?: string[];
+  /** Paths or symbols, as in the `context_pack({ targets })` contract: indexed paths join `paths`, the rest `symbols`. */
+  targets?: string[];
+  /** Maximum number of chunks. Defaults to 20. */
   limit?: number;
+  /** Token budget for the whole pack. */
   maxTokens?: number;
+  /** Tokenizer id `maxTokens` and `totalTokens` are measured with; defaults to the chunking tokenizer. */
+  tokenizer?: string;
+  /** Return chunks with `contextualText` and count their context headers against `maxTokens`. */
+  contextHeaders?: boolean;
+  /**
+   * Also render the pack as `prompt` in this format. `maxTokens` and
+   * `totalTokens` then measure the rendered prompt.
+   */
+  format?: PromptFormat;
+  /**
+   * `score` (default) lists chunks by relevance. `stable` lists rarely changed
+   * files first so the start of the pack can be served from a prompt cache.
+   */
+  order?: ContextPackOrder;
+  /** With `order: 'stable'`, files changed in this many latest commits are volatile and go last. Defaults to 10. */
+  volatileCommits?: number;
   indexOptions?: IndexOptions;
 }
 
+export type ContextPackOrder = 'score' | 'stable';
+
+/** A chunk picked for a context pack, with its relevance score and what contributed to it. */
+export interface ContextPackChunk extends IndexChunk {
+  score: number;
+  reasons: string[];
+  contextualText?: string;
+}
+
 export interface ContextPackResult {
-  chunks: IndexChunk[];
+  chunks: ContextPackChunk[];
   totalChunks: number;
   totalTokens: number;
+  /** The chunks rendered in the requested `format`. */
+  prompt?: string;
+  /** With `order: 'stable'`: SHA-256 of the leading chunks that are not volatile, and how many they are. */
+  prefixHash?: string;
+  prefixChunks?: number;
+}
+
+export interface RepoMapOptions {
+  ref?: string;
+  /** Token budget for the rendered map. Defaults to 1024. */
+  maxTokens?: number;
+  /** Tokenizer id `maxTokens` is measured with; defaults to the chunking tokenizer. */
+  tokenizer?: string;
+  /** Only map files matching this glob; references from other files still count towards ranks. */
+  pathGlob?: string;
+  indexOptions?: IndexOptions;
+}
+
+export interface RepoMapSymbol {
+  name: string;
+  line: number;
+  /** The definition's source line, e.g. `export class IndexManager`. */
+  signature: string;
+  /** Number of other files that use the symbol. */
+  references: number;
+}
+
+export interface RepoMapFile {
+  path: string;
+  rank: number;
+  symbols: RepoMapSymbol[];
+}
+
+export interface RepoMapResult {
+  /** Directory tree with the kept symbols under each file. */
+  text: string;
+  /** Files in the map, highest ranked first. */
+  files: RepoMapFile[];
+  totalTokens: number;
+  /** Files that matched `pathGlob`, whether or not they fit the budget. */
+  totalFiles: number;
 }
@@ -22,6 +22,13 @@ export interface GitBlameLine {
   timestamp: number;
 }
 
+export interface GitFileHistory {
+  /** Commits that changed the path. */
+  changes: number;
+  /** Commits made after the latest one that changed the path. */
+  commitsSince: number;
+}
+
 export interface GitRepositoryConfig {
   /**
    * Local filesystem path to the repository.
@@ -172,6 +179,40 @@ export class GitRepository {
     return result;
   }
 
+  /** Change counts per path over the latest `maxCommits` commits (default 500) reachable from `ref`. */
+  async fileChangeHistory(options: { ref?: string; maxCommits?: number } = {}): Promise<Map<string, GitFileHistory>> {
+    const cwd = await this.ensureLocalPath();
+    const args = ['log', '-z', '--format=%x00', '--name-only', '--no-renames'];
+    args.push(`--max-count=${options.maxCommits ?? 500}`);
+    if (options.ref) {
+      args.push(options.ref);
+    }
+    args.push('--');
+    const { stdout } = await runCommand('git', args, {
+      cwd,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+
+    const history = new Map<string, GitFileHistory>();
+    // With -z each commit is the NUL of the format plus a NUL terminator, then a
+    // newline and its NUL-terminated paths when it changed any. Paths are never
+    // quoted or trimmed, so names with spaces or newlines survive.
+    let commitIndex = 0;
+    for (const [, names] of stdout.matchAll(/\0\0(?:\n((?:[^\0]+\0)+))?/g)) {
+      const paths = new Set(names ? names.slice(0, -1).split('\0') : []);
+      for (const path of paths) {
+        const entry = history.get(path);
+        if (entry) {
+          entry.changes += 1;
+        } else {
+          history.set(path, { changes: 1, commitsSince: commitIndex });
+        }
+      }
+      commitIndex += 1;
+    }
+    return history;
+  }
+
   async getDefaultBranch(): Promise<string | undefined> {
     const cwd = await this.ensureLocalPath();
     const { stdout } = await runCommand('git', ['symbolic-ref', 'refs/remotes/origin/HEAD'], {
@@ -2,11 +2,21 @@ import { performance } from 'node:perf_hooks';
 import { PassThrough } from 'node:stream';
 import { once } from 'node:events';
 import { randomUUID } from 'node:crypto';
-import { IndexManager, IndexOptions, IndexResult, PullRequestIdentifier, PullRequestIndexOptions } from '../indexer';
+import {
+  CallGraphDirection,
+  ContextPackOrder,
+  IndexManager,
+  IndexOptions,
+  IndexResult,
+  PullRequestIdentifier,
+  PullRequestIndexOptions,
+} from '../indexer';
+import { parsePaging } from '../indexer/query';
 import { RepositorySpec } from '../ingest';
 import { recordIndexMetrics, withSpan, captureCpuProfile, captureHeapSnapshot } from '../observability';
 import { IndexNotifier } from '../api/notifier';
 import { exportIndexToJsonl } from '../exporters/jsonl';
+import type { PromptFormat } from '../exporters/prompt';
 import { buildSqliteBuffer } from '../exporters/sqlite';
 import { buildRecommendations } from '../recommendation';
 import type { IntegrationsConfig } from '../config';
@@ -79,17 +89,32 @@ export class McpToolAdapter {
       },
     });
 
+    this.addTool({
+      name: 'get_file_skeleton',
+      description: 'Retrieve a file reduced to its declarations and signatures, with function bodies elided.',
+      roles: ['reader'],
+      handler: async (raw) => {
+        const params = (raw ?? {}) as { path?: string; ref?: string };
+        if (!params.path || typeof params.path !== 'string') {
+          throw new Error('Parameter "path" is required.');
+        }
+        const file = await this.options.indexManager.getFileSkeleton(this.options.spec, params.path, params.ref);
+        return { file };
+      },
+    });
+
     this.addTool({
       name: 'list_chunks',
       description: 'List chunks for the indexed repository, optionally filtered by path or language.',
       roles: ['reader'],
       handler: async (raw) => {
-        const params = (raw ?? {}) as { ref?: string; path?: string; lang?: string; maxTokens?: number };
+        const params = (raw ?? {}) as { ref?: string; path?: string; lang?: string; maxTokens?: number; tokenizer?: string };
         const chunks = this.options.indexManager.listChunks(this.options.spec, {
           ref: params.ref,
           path: params.path,
           lang: params.lang,
           maxTokens: params.maxTokens,
+          tokenizer: params.tokenizer,
         });
         return { chunks };
       },
@@ -100,29 +125,63 @@ export class McpToolAdapter {
       description: 'Retrieve a specific chunk by chunk identifier.',
       roles: ['reader'],
       handler: async (raw) => {
-        const params = (raw ?? {}) as { id?: string; ref?: string };
+        const params = (raw ?? {}) as { id?: string; ref?: string; contextHeaders?: boolean };
         if (!params.id || typeof params.id !== 'string') {
           throw new Error('Parameter "id" is required.');
         }
-        const chunk = this.options.indexManager.getChunk(this.options.spec, params.id, params.ref);
+        const chunk = this.options.indexManager.getChunk(this.options.spec, params.id, params.ref, {
+          contextHeaders: params.contextHeaders === true,
+        });
         return { chunk };
       },
     });
 
     this.addTool({
       name: 'search_text',
-      description: 'Full-text search within indexed chunks.',
+      description:
+        'Search indexed chunks with words, "phrases", /regex/, AND/OR/NOT, -exclusions and path:, lang:, ext:, symbol:, test: filters, ranked with BM25 one page at a time.',
       roles: ['reader'],
       handler: async (raw) => {
-        const params = (raw ?? {}) as { q?: string; pathGlob?: string; ref?: string };
+        const params = (raw ?? {}) as { q?: string; pathGlob?: string; ref?: string; offset?: number; limit?: number };
         if (!params.q || typeof params.q !== 'string') {
           throw new Error('Parameter "q" is required.');
         }
-        const matches = this.options.indexManager.searchText(this.options.spec, params.q, {
+        return this.options.indexManager.searchText(this.options.spec, params.q, {
           ref: params.ref,
           pathGlob: params.pathGlob,
+          ...parsePaging(params),
+        });
+      },
+    });
+
+    this.addTool({
+      name: 'search_semantic',
+      description:
+        'Rank indexed chunks by embedding similarity to the query, or fused with BM25 (mode "hybrid", the default). Takes the search_text query syntax; its filters apply.',
+      roles: ['reader'],
+      handler: async (raw) => {
+        const params = (raw ?? {}) as {
+          q?: string;
+          mode?: string;
+          minSimilarity?: number;
+          pathGlob?: string;
+          ref?: string;
+          offset?: number;
+          limit?: number;
+        };
+        if (!params.q || typeof params.q !== 'string') {
+          throw new Error('Parameter "q" is required.');
+        }
+        if (params.mode !== undefined && params.mode !== 'semantic' && params.mode !== 'hybrid') {
+          throw new Error(`Unsupported search mode: ${params.mode}`);
+        }
+        return this.options.indexManager.searchSemantic(this.options.spec, params.q, {
+          ref: params.ref,
+          mode: params.mode,
+          minSimilarity: params.minSimilarity,
+          pathGlob: params.pathGlob,
+          ...parsePaging(params),
         });
-        return { matches };
       },
     });
 
@@ -137,6 +196,41 @@ export class McpToolAdapter {
       },
     });
 
+    this.addTool({
+      name: 'find_references',
+      description:
+        'List the definitions of a symbol (kind, container, export status, line range) and the places that use it.',
+      roles: ['reader'],
+      handler: async (raw) => {
+        const params = (raw ?? {}) as { name?: string; ref?: string; offset?: number; limit?: number };
+        if (!params.name) {
+          throw new Error('Parameter "name" is required.');
+        }
+        return this.options.indexManager.findReferences(this.options.spec, params.name, {
+          ref: params.ref,
+          ...parsePaging(params),
+        });
+      },
+    });
+
+    this.addTool({
+      name: 'get_call_graph',
+      description:
+        'Follow calls from a function or method: what it calls (direction "callees", the default) or what calls it ("callers"), up to depth levels (default 2, at most 5), with the call site of every edge.',
+      roles: ['reader'],
+      handler: async (raw) => {
+        const params = (raw ?? {}) as { name?: string; direction?: string; depth?: number; ref?: string };
+        if (!params.name) {
+          throw new Error('Parameter "name" is required.');
+        }
+        return this.options.indexManager.getCallGraph(this.options.spec, params.name, {
+          ref: params.ref,
+          direction: params.direction as CallGraphDirection | undefined,
+          depth: params.depth,
+        });
+      },
+    });
+
     this.addTool({
       name: 'diff_chunks',
       description: 'Diff chunks between two refs, returning added/removed chunks.',
@@ -186,21 +280,58 @@ export class McpToolAdapter {
 
     this.addTool({
       name: 'context_pack',
-      description: 'Build a curated set of chunks for contextual responses.',
+      description: 'Pick the chunks most relevant to a query, symbols or paths within a total token budget.',
       roles: ['reader', 'integrator'],
       handler: async (raw) => {
-        const params = (raw ?? {}) as { ref?: string; paths?: string[]; limit?: number; maxTokens?: number };
+        const params = (raw ?? {}) as {
+          ref?: string;
+          query?: string;
+          targets?: string[];
+          symbols?: string[];
+          paths?: string[];
+          limit?: number;
+          maxTokens?: number;
+          tokenizer?: string;
+          contextHeaders?: boolean;
+          format?: PromptFormat;
+          order?: ContextPackOrder;
+          volatileCommits?: number;
+        };
         const pack = await this.options.indexManager.buildContextPack(this.options.spec, {
           ref: params.ref,
+          query: typeof params.query === 'string' ? params.query : undefined,
+          targets: Array.isArray(params.targets) ? params.targets : undefined,
+          symbols: Array.isArray(params.symbols) ? params.symbols : undefined,
           paths: Array.isArray(params.paths) ? params.paths : undefined,
           limit: params.limit,
           maxTokens: params.maxTokens,
+          tokenizer: params.tokenizer,
+          contextHeaders: params.contextHeaders === true,
+          format: params.format,
+          order: params.order,
+          volatileCommits: params.volatileCommits,
           indexOptions: this.options.indexOptions,
         });
         return pack;
       },
     });
 
+    this.addTool({
+      name: 'repo_map',
+      description: 'Outline the repository as a directory tree with its most referenced files and symbols, within a token budget.',
+      roles: ['reader', 'integrator'],
+      handler: async (raw) => {
+        const params = (raw ?? {}) as { ref?: string; maxTokens?: number; tokenizer?: string; pathGlob?: string };
+        return this.options.indexManager.buildRepoMap(this.options.spec, {
+          ref: params.ref,
+          maxTokens: params.maxTokens,
+          tokenizer: params.tokenizer,
+          pathGlob: params.pathGlob,
+          indexOptions: this.options.indexOptions,
+        });
+      },
+    });
+
     this.addTool({
       name: 'recommend_context',
       description: 'Suggest high-signal chunks for assistants or IDE integrations.',
@@ -282,9 +413,9 @@ export class McpToolAdapter {
       description: 'Export the current index as a JSONL payload encoded as base64.',
       roles: ['maintainer'],
       handler: async (raw) => {
-        const params = (raw ?? {}) as { ref?: string };
+        const params = (raw ?? {}) as { ref?: string; contextHeaders?: boolean };
         const index = this.requireIndex(params.ref);
-        const buffer = await this.exportJsonlToBuffer(index);
+        const buffer = await this.exportJsonlToBuffer(index, params.contextHeaders === true);
         return {
           encoding: 'base64',
           filename: `index-${index.ref ?? params.ref ?? 'HEAD'}.jsonl`,
@@ -386,6 +517,8 @@ export class McpToolAdapter {
             durationMs,
             incremental: Boolean(optionsForRun.incremental),
             repositoryType: this.options.spec.type,
+            chunkCacheHits: result.cacheStats?.hits,
+            chunkCacheMisses: result.cacheStats?.misses,
           };
           recordIndexMetrics(metrics);
           this.options.onIndexCompleted?.(result);
@@ -581,13 +714,13 @@ export class McpToolAdapter {
     return index;
   }
 
-  private async exportJsonlToBuffer(index: IndexResult): Promise<Buffer> {
+  private async exportJsonlToBuffer(index: IndexResult, contextHeaders = false): Promise<Buffer> {
     const stream = new PassThrough();
     const chunks: Buffer[] = [];
     stream.on('data', (chunk) => {
       chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
     });
-    await exportIndexToJsonl(index, stream);
+    await exportIndexToJsonl(index, stream, { contextHeaders });
     stream.end();
     await once(stream, 'end');
     return Buffer.concat(chunks);
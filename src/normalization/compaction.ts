@@ -0,0 +1,363 @@
+import { CompactionOptions, CompactionResult } from './types';
+
+interface CommentSyntax {
+  line: string[];
+  block: Array<[string, string]>;
+  quotes: string[];
+  /** `#`-style markers only start a comment at the start of a line or after whitespace. */
+  lineAfterSpace?: boolean;
+  /** Python triple-quoted strings; the ones used as docstrings are stripped with comments. */
+  tripleQuotes?: boolean;
+}
+
+interface LexedLine {
+  text: string;
+  /** Original line number, 1-based. */
+  line: number;
+  /** Part of the line was a comment or docstring. */
+  commented: boolean;
+  /** The line starts inside a multi-line string, so its whitespace is content. */
+  literal: boolean;
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], quotes: ['"', "'", '`'] };
+const HASH_STYLE: CommentSyntax = { line: ['#'], block: [], quotes: ['"', "'"], lineAfterSpace: true };
+const CSS_STYLE: CommentSyntax = { line: [], block: [['/*', '*/']], quotes: ['"', "'"] };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: [['<!--', '-->']], quotes: [] };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  typescript: C_STYLE,
+  javascript: C_STYLE,
+  java: C_STYLE,
+  kotlin: C_STYLE,
+  scala: C_STYLE,
+  groovy: C_STYLE,
+  swift: C_STYLE,
+  go: C_STYLE,
+  c: C_STYLE,
+  'c++': C_STYLE,
+  'c#': C_STYLE,
+  // `'` also starts lifetimes, so only double-quoted strings are tracked.
+  rust: { ...C_STYLE, quotes: ['"'] },
+  php: { ...C_STYLE, line: ['//', '#'] },
+  css: CSS_STYLE,
+  scss: { ...CSS_STYLE, line: ['//'] },
+  less: { ...CSS_STYLE, line: ['//'] },
+  python: { ...HASH_STYLE, tripleQuotes: true },
+  ruby: HASH_STYLE,
+  shell: HASH_STYLE,
+  r: HASH_STYLE,
+  julia: HASH_STYLE,
+  yaml: HASH_STYLE,
+  toml: HASH_STYLE,
+  dockerfile: HASH_STYLE,
+  powershell: { ...HASH_STYLE, block: [['<#', '#>']] },
+  sql: { line: ['--'], block: [['/*', '*/']], quotes: ["'", '"'] },
+  lua: { line: ['--'], block: [['--[[', ']]']], quotes: ['"', "'"] },
+  html: MARKUP_STYLE,
+  markdown: MARKUP_STYLE,
+};
+
+const JS_IMPORTS = [/^import\b(?!\s*\()/, /^(?:const|let|var)\s+[\w{}\s,:]+=\s*require\(/];
+const JVM_IMPORTS = [/^import\s/];
+
+/** Statements elided with `elideImports`; a statement continues while its brackets are open. */
+const IMPORT_PATTERNS: Record<string, RegExp[]> = {
+  typescript: JS_IMPORTS,
+  javascript: JS_IMPORTS,
+  java: JVM_IMPORTS,
+  kotlin: JVM_IMPORTS,
+  scala: JVM_IMPORTS,
+  groovy: JVM_IMPORTS,
+  swift: JVM_IMPORTS,
+  go: [/^import\b/],
+  python: [/^import\s/, /^from\s+\S+\s+import\b/],
+  rust: [/^(?:pub(?:\([\w\s:]+\))?\s+)?use\s/, /^extern\s+crate\s/],
+  c: [/^#\s*include\b/],
+  'c++': [/^#\s*include\b/, /^import\s/],
+  'c#': [/^(?:global\s+)?using\s+(?:static\s+)?[\w.]+(?:\s*=\s*[\w.<>, ]+)?\s*;/],
+  php: [/^(?:use|require|require_once|include|include_once)\b/],
+  ruby: [/^require(?:_relative)?\b/],
+  r: [/^(?:library|require)\(/],
+  lua: [/^local\s+\w+\s*=\s*require\b/],
+};
+
+/**
+ * Opt-in transforms that shrink source text before it is chunked for prompts:
+ * comment and docstring stripping, indentation collapsing, import elision and
+ * blank line removal. Lines are only ever dropped or shortened, never merged,
+ * so `lineMap` can point every output line back at its source line.
+ */
+export class ContentCompactor {
+  constructor(private readonly options: CompactionOptions = {}) {}
+
+  compact(text: string, language?: string): CompactionResult {
+    const key = language?.toLowerCase() ?? '';
+    const syntax = COMMENT_SYNTAX[key];
+    let lines = syntax
+      ? lexLines(text, syntax, this.options.stripComments === true)
+      : text.split('\n').map((line, index) => ({ text: line, line: index + 1, commented: false, literal: false }));
+
+    if (this.options.stripComments && syntax) {
+      lines = dropCommentLines(lines);
+    }
+    const importPatterns = IMPORT_PATTERNS[key];
+    if (this.options.elideImports && importPatterns) {
+      lines = elideImports(lines, importPatterns);
+    }
+    if (this.options.collapseIndentation) {
+      lines = collapseIndentation(lines, Math.max(0, this.options.indentWidth ?? 1));
+    }
+    if (this.options.removeBlankLines) {
+      lines = lines.filter((line) => line.literal || line.text.trim() !== '');
+    }
+
+    const compacted = lines.map((line) => line.text).join('\n');
+    return {
+      compacted,
+      lineMap: lines.map((line) => line.line),
+      originalLength: text.length,
+      compactedLength: compacted.length,
+      removedLines: text.split('\n').length - lines.length,
+    };
+  }
+}
+
+/**
+ * The compacted line range covering original lines `startLine`..`endLine`,
+ * or undefined when all of them were removed.
+ */
+export function compactedLineRange(
+  lineMap: number[],
+  startLine: number,
+  endLine: number,
+): { startLine: number; endLine: number } | undefined {
+  const first = lineMap.findIndex((line) => line >= startLine && line <= endLine);
+  if (first === -1) {
+    return undefined;
+  }
+  let last = first;
+  while (last + 1 < lineMap.length && lineMap[last + 1] <= endLine) {
+    last += 1;
+  }
+  return { startLine: first + 1, endLine: last + 1 };
+}
+
+/** Splits text into lines, removing comments when `strip` is set and tracking lines inside strings. */
+function lexLines(text: string, syntax: CommentSyntax, strip: boolean): LexedLine[] {
+  const lines: LexedLine[] = [];
+  let current = '';
+  let commented = false;
+  let literal = false;
+  const endLine = (nextLiteral: boolean) => {
+    lines.push({ text: current, line: lines.length + 1, commented, literal });
+    current = '';
+    commented = false;
+    literal = nextLiteral;
+  };
+  const copy = (segment: string, inside: boolean) => {
+    const parts = segment.split('\n');
+    current += parts[0];
+    for (const part of parts.slice(1)) {
+      endLine(inside);
+      current += part;
+    }
+  };
+  const skip = (segment: string) => {
+    commented = true;
+    for (let count = segment.split('\n').length - 1; count > 0; count -= 1) {
+      endLine(false);
+      commented = true;
+    }
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === '\n') {
+      endLine(false);
+      index += 1;
+      continue;
+    }
+
+    const block = syntax.block.find(([open]) => text.startsWith(open, index));
+    if (block) {
+      const close = text.indexOf(block[1], index + block[0].length);
+      const stop = close === -1 ? text.length : close + block[1].length;
+      const segment = text.slice(index, stop);
+      if (strip) {
+        skip(segment);
+      } else {
+        copy(segment, false);
+      }
+      index = stop;
+      continue;
+    }
+
+    const marker = syntax.line.find(
+      (candidate) =>
+        text.startsWith(candidate, index) && (!syntax.lineAfterSpace || index === 0 || /\s/.test(text[index - 1])),
+    );
+    if (marker) {
+      const newline = text.indexOf('\n', index);
+      const stop = newline === -1 ? text.length : newline;
+      if (strip) {
+        commented = true;
+      } else {
+        current += text.slice(index, stop);
+      }
+      index = stop;
+      continue;
+    }
+
+    const triple = syntax.tripleQuotes ? ['"""', "'''"].find((quote) => text.startsWith(quote, index)) : undefined;
+    if (triple) {
+      const close = text.indexOf(triple, index + 3);
+      const stop = close === -1 ? text.length : close + 3;
+      const segment = text.slice(index, stop);
+      if (strip && isDocstring(lines, current, text, stop)) {
+        skip(segment);
+      } else {
+        copy(segment, true);
+      }
+      index = stop;
+      continue;
+    }
+
+    if (syntax.quotes.includes(char)) {
+      let end = index + 1;
+      while (end < text.length && text[end] !== char) {
+        if (text[end] === '\\') {
+          end += 1;
+        } else if (text[end] === '\n' && char !== '`') {
+          break;
+        }
+        end += 1;
+      }
+      const stop = Math.min(text.length, text[end] === char ? end + 1 : end);
+      copy(text.slice(index, stop), true);
+      index = stop;
+      continue;
+    }
+
+    current += char;
+    index += 1;
+  }
+  endLine(false);
+  return lines;
+}
+
+/**
+ * A triple-quoted string is a docstring when it is the only thing on its line
+ * and opens a module or follows a line ending in `:` (a def or class).
+ */
+function isDocstring(lines: LexedLine[], current: string, text: string, stop: number): boolean {
+  if (current.trim() !== '') {
+    return false;
+  }
+  const newline = text.indexOf('\n', stop);
+  const rest = text.slice(stop, newline === -1 ? text.length : newline).trim();
+  if (rest !== '' && !rest.startsWith('#')) {
+    return false;
+  }
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    const previous = lines[index].text.trim();
+    if (previous !== '') {
+      return previous.endsWith(':');
+    }
+  }
+  return true;
+}
+
+/** Drops lines left empty by comment removal, then collapses the blank runs that leaves behind. */
+function dropCommentLines(lines: LexedLine[]): LexedLine[] {
+  const kept: LexedLine[] = [];
+  for (const line of lines) {
+    if (line.literal) {
+      kept.push(line);
+      continue;
+    }
+    const text = line.commented ? line.text.replace(/\s+$/, '') : line.text;
+    if (text.trim() === '') {
+      if (line.commented) {
+        continue;
+      }
+      const previous = kept[kept.length - 1];
+      if (!previous || (!previous.literal && previous.text.trim() === '')) {
+        continue;
+      }
+    }
+    kept.push({ ...line, text });
+  }
+  return kept;
+}
+
+function elideImports(lines: LexedLine[], patterns: RegExp[]): LexedLine[] {
+  const kept: LexedLine[] = [];
+  let index = 0;
+  let afterImport = false;
+  while (index < lines.length) {
+    const line = lines[index];
+    if (!line.literal && patterns.some((pattern) => pattern.test(line.text))) {
+      let depth = bracketDepth(line.text);
+      let continued = line.text.trimEnd().endsWith('\\');
+      index += 1;
+      while (index < lines.length && (depth > 0 || continued)) {
+        depth += bracketDepth(lines[index].text);
+        continued = lines[index].text.trimEnd().endsWith('\\');
+        index += 1;
+      }
+      afterImport = true;
+      continue;
+    }
+    if (afterImport && !line.literal && line.text.trim() === '') {
+      index += 1;
+      continue;
+    }
+    afterImport = false;
+    kept.push(line);
+    index += 1;
+  }
+  return kept;
+}
+
+function bracketDepth(text: string): number {
+  let depth = 0;
+  for (const char of text) {
+    if (char === '(' || char === '{' || char === '[') {
+      depth += 1;
+    } else if (char === ')' || char === '}' || char === ']') {
+      depth -= 1;
+    }
+  }
+  return depth;
+}
+
+/**
+ * Re-indents with `width` spaces per level. The level unit is the smallest
+ * space indent in the file and a tab counts as one level, so nesting is kept.
+ */
+function collapseIndentation(lines: LexedLine[], width: number): LexedLine[] {
+  let unit = Infinity;
+  for (const line of lines) {
+    const spaces = /^ +/.exec(line.text)?.[0].length ?? 0;
+    if (!line.literal && spaces > 0 && line.text.trim() !== '') {
+      unit = Math.min(unit, spaces);
+    }
+  }
+  if (!Number.isFinite(unit)) {
+    unit = 1;
+  }
+  return lines.map((line) => {
+    if (line.literal) {
+      return line;
+    }
+    const indent = /^[ \t]*/.exec(line.text)![0];
+    if (indent === '') {
+      return line;
+    }
+    const tabs = indent.split('\t').length - 1;
+    const level = tabs + Math.ceil((indent.length - tabs) / unit);
+    return { ...line, text: ' '.repeat(level * width) + line.text.slice(indent.length) };
+  });
+}
@@ -4,3 +4,5 @@ export * from './normalize';
 export * from './sanitizer';
 export * from './deduplicator';
 export * from './secretScanner';
+export * from './notebook';
+export * from './compaction';
@@ -0,0 +1,146 @@
+import { NotebookCell, NotebookExtraction, NotebookOptions } from './types';
+
+const DEFAULT_MAX_OUTPUT_CHARS = 500;
+
+interface RawNotebookOutput {
+  output_type?: string;
+  text?: string | string[];
+  data?: Record<string, unknown>;
+  ename?: string;
+  evalue?: string;
+}
+
+interface RawNotebookCell {
+  cell_type?: string;
+  source?: string | string[];
+  /** nbformat 3 name for the source of code cells. */
+  input?: string | string[];
+  execution_count?: number | null;
+  outputs?: RawNotebookOutput[];
+}
+
+interface RawNotebook {
+  cells?: RawNotebookCell[];
+  metadata?: {
+    kernelspec?: { language?: string; name?: string };
+    language_info?: { name?: string };
+  };
+  /** nbformat 3 kept cells inside worksheets. */
+  worksheets?: Array<{ cells?: RawNotebookCell[] }>;
+}
+
+export function isNotebookPath(path: string): boolean {
+  return path.toLowerCase().endsWith('.ipynb');
+}
+
+function joinSource(source: string | string[] | undefined): string {
+  return Array.isArray(source) ? source.join('') : source ?? '';
+}
+
+function parseNotebook(raw: string): RawNotebook {
+  const parsed = JSON.parse(raw) as RawNotebook;
+  if (!parsed || typeof parsed !== 'object' || (!Array.isArray(parsed.cells) && !Array.isArray(parsed.worksheets))) {
+    throw new Error('not a Jupyter notebook');
+  }
+  return parsed;
+}
+
+/**
+ * Kernel language recorded in the notebook metadata (e.g. `python`), or
+ * undefined when the file is not a notebook or does not declare one.
+ */
+export function readNotebookLanguage(raw: string): string | undefined {
+  try {
+    const metadata = parseNotebook(raw).metadata;
+    return metadata?.kernelspec?.language ?? metadata?.language_info?.name;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Normalises a cell's source so later blank-line collapsing cannot shift cell line ranges. */
+function cleanSource(source: string): string[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const cleaned: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === '' && (cleaned.length === 0 || cleaned[cleaned.length - 1].trim() === '')) {
+      continue;
+    }
+    cleaned.push(line);
+  }
+  while (cleaned.length > 0 && cleaned[cleaned.length - 1].trim() === '') {
+    cleaned.pop();
+  }
+  return cleaned;
+}
+
+function outputText(output: RawNotebookOutput): string | undefined {
+  switch (output.output_type) {
+    case 'stream':
+      return joinSource(output.text);
+    case 'execute_result':
+    case 'display_data': {
+      const plain = output.data?.['text/plain'];
+      return typeof plain === 'string' || Array.isArray(plain) ? joinSource(plain as string | string[]) : undefined;
+    }
+    case 'error':
+      return [output.ename, output.evalue].filter(Boolean).join(': ');
+    default:
+      return undefined;
+  }
+}
+
+function renderOutputs(cell: RawNotebookCell, maxChars: number): string[] {
+  const text = (cell.outputs ?? [])
+    .map(outputText)
+    .filter((value): value is string => Boolean(value && value.trim()))
+    .join('\n');
+  if (!text) {
+    return [];
+  }
+  const truncated = text.length > maxChars ? `${text.slice(0, maxChars)}\n... (output truncated)` : text;
+  const label = typeof cell.execution_count === 'number' ? `Out[${cell.execution_count}]:` : 'Out:';
+  return [label, ...cleanSource(truncated)];
+}
+
+/**
+ * Turns `.ipynb` JSON into plain text: code and markdown cell sources in
+ * order, separated by a blank line, with the line range of every cell. Raw
+ * cells are skipped. Outputs are dropped unless `includeOutputs` is set, in
+ * which case only their text (stream, `text/plain`, errors) is kept,
+ * truncated to `maxOutputChars`; images and other rich outputs never are.
+ */
+export function extractNotebook(raw: string, options: NotebookOptions = {}): NotebookExtraction {
+  const notebook = parseNotebook(raw);
+  const rawCells = notebook.cells ?? (notebook.worksheets ?? []).flatMap((sheet) => sheet.cells ?? []);
+  const maxOutputChars = options.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS;
+
+  const lines: string[] = [];
+  const cells: NotebookCell[] = [];
+  rawCells.forEach((cell, index) => {
+    const type = cell.cell_type ?? 'code';
+    if (type !== 'code' && type !== 'markdown') {
+      return;
+    }
+    const cellLines = cleanSource(joinSource(cell.source ?? cell.input));
+    if (type === 'code' && options.includeOutputs) {
+      cellLines.push(...renderOutputs(cell, maxOutputChars));
+    }
+    if (cellLines.length === 0) {
+      return;
+    }
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    const startLine = lines.length + 1;
+    lines.push(...cellLines);
+    cells.push({ index, type, startLine, endLine: lines.length });
+  });
+
+  const metadata = notebook.metadata;
+  return {
+    text: lines.join('\n'),
+    language: metadata?.kernelspec?.language ?? metadata?.language_info?.name,
+    cells,
+  };
+}
@@ -33,6 +33,50 @@ export interface NormalizationOptions {
   preserveMarkdownTables?: boolean;
 }
 
+/** Opt-in, language-aware transforms that trade fidelity for fewer tokens. */
+export interface CompactionOptions {
+  /** Remove comments, license banners and Python docstrings, dropping the lines they leave empty. */
+  stripComments?: boolean;
+  /** Re-indent with `indentWidth` spaces per nesting level. */
+  collapseIndentation?: boolean;
+  /** Spaces per level for `collapseIndentation`. Defaults to 1. */
+  indentWidth?: number;
+  /** Remove import, `use`, `require` and `#include` statements. */
+  elideImports?: boolean;
+  removeBlankLines?: boolean;
+}
+
+export interface CompactionResult {
+  compacted: string;
+  /** Original 1-based line number of each compacted line. */
+  lineMap: number[];
+  originalLength: number;
+  compactedLength: number;
+  removedLines: number;
+}
+
+export interface NotebookOptions {
+  /** Keep the text of code cell outputs; images and other rich outputs are always dropped. */
+  includeOutputs?: boolean;
+  /** Per-cell limit for kept output text. Defaults to 500 characters. */
+  maxOutputChars?: number;
+}
+
+export interface NotebookCell {
+  /** Position of the cell in the notebook, counting cells that were skipped. */
+  index: number;
+  type: 'code' | 'markdown';
+  startLine: number;
+  endLine: number;
+}
+
+export interface NotebookExtraction {
+  text: string;
+  /** Kernel language from the notebook metadata, e.g. `python`. */
+  language?: string;
+  cells: NotebookCell[];
+}
+
 export interface SanitizationRule {
   id: string;
   description: string;
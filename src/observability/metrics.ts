@@ -9,6 +9,8 @@ export interface IndexRunMetrics {
   durationMs: number;
   incremental: boolean;
   repositoryType: string;
+  chunkCacheHits?: number;
+  chunkCacheMisses?: number;
 }
 
 const registry = new Registry();
@@ -50,6 +52,20 @@ const secretsGauge = new Gauge({
   registers: [registry],
 });
 
+const chunkCacheHitsCounter = new Counter({
+  name: 'repo_tokenizer_chunk_cache_hits_total',
+  help: 'Files whose chunks were reused from the chunk cache',
+  labelNames: ['repository_type'],
+  registers: [registry],
+});
+
+const chunkCacheMissesCounter = new Counter({
+  name: 'repo_tokenizer_chunk_cache_misses_total',
+  help: 'Files that had to be chunked because no cached chunks matched',
+  labelNames: ['repository_type'],
+  registers: [registry],
+});
+
 const timestampGauge = new Gauge({
   name: 'repo_tokenizer_last_index_timestamp_seconds',
   help: 'Unix timestamp (seconds) of the last completed indexing run',
@@ -66,6 +82,12 @@ export function recordIndexMetrics(metrics: IndexRunMetrics): void {
   filesGauge.labels(metrics.repositoryType).set(metrics.files);
   chunksGauge.labels(metrics.repositoryType).set(metrics.chunks);
   secretsGauge.labels(metrics.repositoryType).set(metrics.secrets);
+  if (metrics.chunkCacheHits) {
+    chunkCacheHitsCounter.labels(metrics.repositoryType).inc(metrics.chunkCacheHits);
+  }
+  if (metrics.chunkCacheMisses) {
+    chunkCacheMissesCounter.labels(metrics.repositoryType).inc(metrics.chunkCacheMisses);
+  }
   timestampGauge.set(Date.now() / 1000);
 }
 
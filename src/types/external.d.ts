@@ -8,6 +8,16 @@ declare module 'toml' {
   export = content;
 }
 
+declare module 'toml/lib/parser' {
+  const content: any;
+  export = content;
+}
+
+declare module 'toml/lib/compiler' {
+  const content: any;
+  export = content;
+}
+
 declare module 'sql.js' {
   export type SqlJsStatic = any;
   export type Database = any;
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Chunker, TokenizerRegistry, loadBpeTokenizer, registerLocalTokenizers } from '../../src/chunker';
+
+let dir: string;
+
+function rankLine(token: string, rank: number): string {
+  return `${Buffer.from(token, 'latin1').toString('base64')} ${rank}`;
+}
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-bpe-'));
+  const ranks: string[] = [];
+  for (let byte = 0; byte < 256; byte += 1) {
+    ranks.push(rankLine(String.fromCharCode(byte), byte));
+  }
+  ['he', 'll', 'hell', 'hello', ' w'].forEach((token, index) => ranks.push(rankLine(token, 256 + index)));
+  await writeFile(join(dir, 'gpt2.tiktoken'), `${ranks.join('\n')}\n`);
+
+  await writeFile(
+    join(dir, 'byte-level.json'),
+    JSON.stringify({
+      model: {
+        type: 'BPE',
+        vocab: { h: 0, e: 1, l: 2, o: 3, Ġ: 4, w: 5, r: 6, d: 7, he: 8, ll: 9, hell: 10, hello: 11, Ġw: 12 },
+        merges: ['h e', 'l l', 'he ll', 'hell o', 'Ġ w'],
+      },
+      pre_tokenizer: { type: 'ByteLevel', add_prefix_space: false, use_regex: true },
+      decoder: { type: 'ByteLevel' },
+    }),
+  );
+
+  await writeFile(
+    join(dir, 'metaspace.json'),
+    JSON.stringify({
+      model: {
+        type: 'BPE',
+        vocab: { '<unk>': 0, '▁': 1, h: 2, i: 3, '▁h': 4, '▁hi': 5, '<0xC3>': 6, '<0xA9>': 7 },
+        merges: [['▁', 'h'], ['▁h', 'i']],
+        unk_token: '<unk>',
+        byte_fallback: true,
+      },
+      pre_tokenizer: { type: 'Metaspace', replacement: '▁', prepend_scheme: 'always' },
+    }),
+  );
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('BpeTokenizer', () => {
+  it('encodes with a .tiktoken rank file and reports the encoding as its version', () => {
+    const tokenizer = loadBpeTokenizer({ id: 'local', path: join(dir, 'gpt2.tiktoken') });
+    const result = tokenizer.encode('hello world');
+
+    expect(tokenizer.version).toBe('gpt2');
+    expect(result.tokens).toEqual([259, 260, 111, 114, 108, 100]);
+    expect(result.offsets).toEqual([
+      { start: 0, end: 5 },
+      { start: 5, end: 7 },
+      { start: 7, end: 8 },
+      { start: 8, end: 9 },
+      { start: 9, end: 10 },
+      { start: 10, end: 11 },
+    ]);
+    expect(tokenizer.decode(result.tokens)).toBe('hello world');
+  });
+
+  it('maps multi-byte characters back to UTF-16 offsets', () => {
+    const tokenizer = loadBpeTokenizer({ id: 'local', path: join(dir, 'gpt2.tiktoken') });
+    const result = tokenizer.encode('é!');
+
+    expect(result.tokens).toEqual([0xc3, 0xa9, 0x21]);
+    expect(result.offsets).toEqual([
+      { start: 0, end: 1 },
+      { start: 0, end: 1 },
+      { start: 1, end: 2 },
+    ]);
+    expect(tokenizer.decode(result.tokens)).toBe('é!');
+  });
+
+  it('loads byte-level HuggingFace tokenizer.json files', () => {
+    const tokenizer = loadBpeTokenizer({ id: 'hf', path: join(dir, 'byte-level.json'), encoding: 'tiny' });
+    const result = tokenizer.encode('hello world');
+
+    expect(tokenizer.version).toBe('tiny');
+    expect(result.tokens).toEqual([11, 12, 3, 6, 2, 7]);
+    expect(tokenizer.decode(result.tokens)).toBe('hello world');
+  });
+
+  it('loads Metaspace tokenizer.json files with byte fallback', () => {
+    const tokenizer = loadBpeTokenizer({ id: 'sp', path: join(dir, 'metaspace.json') });
+    const result = tokenizer.encode('hi hi é');
+
+    expect(result.tokens).toEqual([5, 5, 1, 6, 7]);
+    expect(result.offsets).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 5 },
+      { start: 5, end: 6 },
+      { start: 6, end: 7 },
+      { start: 6, end: 7 },
+    ]);
+    expect(tokenizer.decode(result.tokens)).toBe('hi hi é');
+  });
+
+  it('registers configured tokenizers so chunkByTokens cuts at exact token boundaries', () => {
+    const registry = new TokenizerRegistry();
+    registerLocalTokenizers([{ id: 'gpt2-local', path: join(dir, 'gpt2.tiktoken') }], registry);
+    const tokenizer = registry.resolve('gpt2-local');
+
+    const chunks = new Chunker().generate(
+      { text: 'hello world hello', path: 'tokens.txt' },
+      { strategy: 'tokens', tokenizer, targetChunkSizeTokens: 4 },
+    );
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['hello wor', 'ld hello']);
+    expect(chunks.map((chunk) => chunk.metadata.tokenCount)).toEqual([4, 4]);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager, DiskChunkCache, computeChunkCacheKey } from '../../src/indexer';
+import type { IndexChunk } from '../../src/indexer';
+import { tokenizerRegistry } from '../../src/chunker';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-chunk-cache-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function sampleChunk(path: string, text: string): IndexChunk {
+  return {
+    id: `${path}-id`,
+    text,
+    fileHash: 'hash',
+    metadata: {
+      origin: 'file',
+      path,
+      startLine: 1,
+      endLine: 1,
+      tokenCount: 1,
+      charCount: text.length,
+      chunkIndex: 0,
+      totalChunks: 1,
+    },
+  };
+}
+
+describe('computeChunkCacheKey', () => {
+  it('changes when chunking options or tokenizer change', () => {
+    const tokenizer = tokenizerRegistry.resolve('basic');
+    const base = computeChunkCacheKey('hash', { strategy: 'lines', maxLines: 50, tokenizer });
+    expect(computeChunkCacheKey('hash', { maxLines: 50, strategy: 'lines', tokenizer })).toBe(base);
+    expect(computeChunkCacheKey('hash', { strategy: 'lines', maxLines: 20, tokenizer })).not.toBe(base);
+    expect(computeChunkCacheKey('other', { strategy: 'lines', maxLines: 50, tokenizer })).not.toBe(base);
+    expect(
+      computeChunkCacheKey('hash', { strategy: 'lines', maxLines: 50, tokenizer: { ...tokenizer, id: 'other' } }),
+    ).not.toBe(base);
+  });
+
+  it('changes with the language and extension of the file', () => {
+    const tokenizer = tokenizerRegistry.resolve('basic');
+    const options = { strategy: 'lines' as const, maxLines: 50, tokenizer };
+    const key = (path: string, language?: string) => computeChunkCacheKey('hash', options, [], undefined, { path, language });
+
+    expect(key('src/a.ts', 'TypeScript')).toBe(key('lib/b.ts', 'TypeScript'));
+    expect(key('src/a.js', 'JavaScript')).not.toBe(key('src/a.ts', 'TypeScript'));
+    expect(key('a.txt')).not.toBe(key('a.md'));
+    expect(key('a.ts', 'TypeScript')).not.toBe(key('a.tsx', 'TypeScript'));
+  });
+});
+
+describe('DiskChunkCache', () => {
+  it('round-trips chunks and relocates them for moved files', async () => {
+    await withTempDir(async (dir) => {
+      const cache = new DiskChunkCache({ path: dir });
+      expect(await cache.get('abcd', 'a.txt')).toBeUndefined();
+
+      await cache.set('abcd', [sampleChunk('a.txt', 'hello')]);
+      const same = await cache.get('abcd', 'a.txt');
+      expect(same?.[0]).toMatchObject({ id: 'a.txt-id', text: 'hello' });
+
+      const moved = await cache.get('abcd', 'b.txt');
+      expect(moved?.[0].metadata.path).toBe('b.txt');
+      expect(moved?.[0].id).not.toBe('a.txt-id');
+    });
+  });
+
+  it('re-counts the context header of relocated chunks', async () => {
+    await withTempDir(async (dir) => {
+      const cache = new DiskChunkCache({ path: dir });
+      const tokenizer = tokenizerRegistry.resolve('basic');
+      const chunk = sampleChunk('a.txt', 'hello');
+      chunk.metadata.contextHeader = 'File: a.txt\nLines: 1-1';
+      chunk.metadata.contextHeaderTokens = tokenizer.count(chunk.metadata.contextHeader);
+      await cache.set('abcd', [chunk]);
+
+      const [moved] = (await cache.get('abcd', 'src/nested/directory/b.txt', tokenizer))!;
+      expect(moved.metadata.contextHeader).toBe('File: src/nested/directory/b.txt\nLines: 1-1');
+      expect(moved.metadata.contextHeaderTokens).toBe(tokenizer.count(moved.metadata.contextHeader!));
+      expect(moved.metadata.contextHeaderTokens).not.toBe(chunk.metadata.contextHeaderTokens);
+
+      const [uncounted] = (await cache.get('abcd', 'c.txt'))!;
+      expect(uncounted.metadata.contextHeaderTokens).toBeUndefined();
+    });
+  });
+
+  it('evicts least recently used entries beyond the size limit', async () => {
+    await withTempDir(async (dir) => {
+      const cache = new DiskChunkCache({ path: dir, maxSizeBytes: 600 });
+      await cache.set('aa01', [sampleChunk('a.txt', 'a'.repeat(200))]);
+      await cache.set('bb02', [sampleChunk('b.txt', 'b'.repeat(200))]);
+      await cache.set('cc03', [sampleChunk('c.txt', 'c'.repeat(200))]);
+
+      expect(await cache.size()).toBeLessThanOrEqual(600);
+      expect(await cache.get('aa01', 'a.txt')).toBeUndefined();
+      expect(await cache.get('cc03', 'c.txt')).toBeDefined();
+    });
+  });
+
+  it('is shared between index managers', async () => {
+    await withTempDir(async (dir) => {
+      const repoDir = join(dir, 'repo');
+      await mkdir(repoDir, { recursive: true });
+      await writeFile(join(repoDir, 'a.txt'), 'alpha\nbeta\n');
+      await writeFile(join(repoDir, 'b.txt'), 'gamma\n');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      const cachePath = join(dir, 'cache');
+
+      const first = await new IndexManager({ chunkCache: new DiskChunkCache({ path: cachePath }) }).indexRepository(
+        spec,
+        { scanSecrets: false },
+      );
+      expect(first.cacheStats).toEqual({ hits: 0, misses: 2 });
+
+      const second = await new IndexManager({ chunkCache: new DiskChunkCache({ path: cachePath }) }).indexRepository(
+        spec,
+        { scanSecrets: false },
+      );
+      expect(second.cacheStats).toEqual({ hits: 2, misses: 0 });
+      expect(second.chunks.map((chunk) => chunk.id)).toEqual(first.chunks.map((chunk) => chunk.id));
+
+      // Same content under a Markdown name must be chunked by the Markdown chunker, not reused.
+      await rm(join(repoDir, 'b.txt'));
+      await writeFile(join(repoDir, 'b.md'), 'gamma\n');
+      const renamed = await new IndexManager({ chunkCache: new DiskChunkCache({ path: cachePath }) }).indexRepository(
+        spec,
+        { scanSecrets: false },
+      );
+      expect(renamed.cacheStats).toEqual({ hits: 1, misses: 1 });
+    });
+  });
+});
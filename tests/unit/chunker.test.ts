@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { Chunker } from '../../src/chunker/chunker';
+import { extractSkeleton, resolveSyntaxGrammar, syntaxParserRegistry } from '../../src/chunker/syntax';
+import { extractStructuredDocuments, type StructuredNode } from '../../src/chunker/structured';
 import { BasicTokenizer } from '../../src/chunker/tokenizers/basic';
-import { Tokenizer } from '../../src/chunker/types';
+import { ChunkingOptions, Tokenizer } from '../../src/chunker/types';
 
 const tokenizer: Tokenizer = new BasicTokenizer();
 
@@ -151,3 +153,635 @@ describe('Chunker', () => {
     expect(first.map((chunk) => chunk.id)).toEqual(second.map((chunk) => chunk.id));
   });
 });
+
+describe('Chunker syntax strategy', () => {
+  const typescriptSource = [
+    "import { readFile } from 'node:fs/promises';",
+    '',
+    '/** Reads things. */',
+    'export class Reader {',
+    '  private cache = new Map<string, string>();',
+    '',
+    '  async read(path: string) {',
+    "    return readFile(path, 'utf8');",
+    '  }',
+    '',
+    '  // Clears the cache.',
+    '  clear() {',
+    '    this.cache.clear();',
+    '  }',
+    '}',
+    '',
+    'export function helper(): number {',
+    '  return 1;',
+    '}',
+  ].join('\n');
+
+  it('emits one chunk per declaration with its scope as section', async () => {
+    const chunker = new Chunker();
+    const input = { text: typescriptSource, path: 'reader.ts', language: 'TypeScript' };
+    const options = { strategy: 'syntax' as const, tokenizer };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.section])).toEqual([
+      [1, 1, undefined],
+      [3, 15, 'class Reader'],
+      [17, 19, 'function helper'],
+    ]);
+  });
+
+  it('splits large classes into members that keep the class scope', async () => {
+    const chunker = new Chunker();
+    const input = { text: typescriptSource, path: 'reader.ts', language: 'TypeScript' };
+    const options = { strategy: 'syntax' as const, tokenizer, maxLines: 6 };
+    await chunker.prepare(input, options);
+    const sections = chunker.generate(input, options).map((chunk) => chunk.metadata.section);
+
+    expect(sections).toEqual([
+      undefined,
+      'class Reader',
+      'class Reader > method read',
+      'class Reader > method clear',
+      'function helper',
+    ]);
+  });
+
+  it('recognises Go and Python declarations', async () => {
+    const chunker = new Chunker();
+    const go = 'package main\n\ntype Server struct {\n\tport int\n}\n\nfunc (s *Server) Start() error {\n\treturn nil\n}\n';
+    const python = 'import os\n\n@cached\ndef load(path):\n    return path\n\nclass Store:\n    def get(self):\n        pass\n';
+    const options = { strategy: 'syntax' as const, tokenizer };
+
+    const goInput = { text: go, path: 'server.go', language: 'Go' };
+    await chunker.prepare(goInput, options);
+    expect(chunker.generate(goInput, options).map((chunk) => chunk.metadata.section)).toEqual([
+      undefined,
+      'type Server',
+      'method Start',
+    ]);
+
+    const pyInput = { text: python, path: 'store.py', language: 'Python' };
+    await chunker.prepare(pyInput, options);
+    const pyChunks = chunker.generate(pyInput, options);
+    expect(pyChunks.map((chunk) => chunk.metadata.section)).toEqual([undefined, 'function load', 'class Store']);
+    expect(pyChunks[1].text.startsWith('@cached')).toBe(true);
+  });
+
+  it('falls back to lines for unsupported languages', async () => {
+    const chunker = new Chunker();
+    const input = { text: sampleText(30), path: 'notes.txt' };
+    const options = { strategy: 'syntax' as const, tokenizer, targetLines: 10 };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+    const lineChunks = chunker.generate(input, { ...options, strategy: 'lines' });
+
+    expect(chunks.map((chunk) => chunk.id)).toEqual(lineChunks.map((chunk) => chunk.id));
+    expect(chunks.every((chunk) => chunk.metadata.section === undefined)).toBe(true);
+  });
+});
+
+describe('Chunker hybrid strategy', () => {
+  const helpers = [
+    'export function one(): number {',
+    '  return 1;',
+    '}',
+    '',
+    'export function two(): number {',
+    '  return 2;',
+    '}',
+    '',
+    'export function three(): number {',
+    '  return 3;',
+    '}',
+  ].join('\n');
+
+  const pipeline = [
+    'export class Pipeline {',
+    '  run(input: string[]): string[] {',
+    '    const trimmed = input.map((value) => value.trim());',
+    '    const filtered = trimmed.filter(',
+    '      (value) => value.length > 0,',
+    '    );',
+    '',
+    '    const sorted = filtered.sort();',
+    '    const unique = Array.from(new Set(sorted));',
+    '    const upper = unique.map((value) => value.toUpperCase());',
+    '    return upper;',
+    '  }',
+    '}',
+  ].join('\n');
+
+  it('merges adjacent declarations up to the token budget', async () => {
+    const chunker = new Chunker();
+    const input = { text: helpers, path: 'helpers.ts', language: 'TypeScript' };
+    const options = { strategy: 'hybrid' as const, tokenizer, targetChunkSizeTokens: 30 };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.section])).toEqual([
+      [1, 7, 'function one, function two'],
+      [9, 11, 'function three'],
+    ]);
+    expect(chunks.every((chunk) => chunk.metadata.tokenCount <= 30 && !chunk.metadata.header)).toBe(true);
+  });
+
+  it('splits oversized declarations at statement boundaries with the enclosing signatures', async () => {
+    const chunker = new Chunker();
+    const input = { text: pipeline, path: 'pipeline.ts', language: 'TypeScript' };
+    const budget = 40;
+    const options = { strategy: 'hybrid' as const, tokenizer, targetChunkSizeTokens: budget };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+    const lines = pipeline.split('\n');
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((chunk) => chunk.text).join('\n')).toBe(pipeline);
+    for (const chunk of chunks) {
+      const headerTokens = chunk.metadata.header ? tokenizer.count(chunk.metadata.header) : 0;
+      expect(chunk.metadata.tokenCount + headerTokens).toBeLessThanOrEqual(budget);
+      expect(chunk.metadata.section).toBe('class Pipeline > method run');
+      expect(lines[chunk.metadata.endLine - 1]).toMatch(/(^|;|\})$/);
+    }
+    expect(chunks[0].metadata.header).toBeUndefined();
+    expect(chunks[1].metadata.header).toBe('export class Pipeline\nrun(input: string[]): string[]');
+  });
+
+  it('splits unsupported files at blank lines', async () => {
+    const chunker = new Chunker();
+    const text = ['alpha beta gamma,', 'delta epsilon,', '', 'zeta eta theta,', 'iota kappa,', '', 'lambda mu'].join('\n');
+    const input = { text, path: 'notes.txt' };
+    const options = { strategy: 'hybrid' as const, tokenizer, targetChunkSizeTokens: 8 };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine])).toEqual([
+      [1, 3],
+      [4, 6],
+      [7, 7],
+    ]);
+  });
+});
+
+describe('Chunker markdown sections', () => {
+  const guide = [
+    '---',
+    'title: Guide',
+    '---',
+    '# Guide',
+    'Intro text.',
+    '',
+    '## Install',
+    '### Linux',
+    'Run the script.',
+    '',
+    '```bash',
+    '# not a heading',
+    '',
+    'make install',
+    '```',
+    '',
+    '- item one',
+    '- item two',
+    '',
+    '### macOS',
+    '| OS | Status |',
+    '|----|--------|',
+    '| mac | ok |',
+  ].join('\n');
+
+  it('follows the heading hierarchy and records breadcrumbs', () => {
+    const chunker = new Chunker();
+    const chunks = chunker.generate(
+      { text: guide, path: 'docs/guide.md', language: 'Markdown' },
+      { strategy: 'by-section', tokenizer },
+    );
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.section])).toEqual([
+      [1, 3, undefined],
+      [4, 5, 'Guide'],
+      [7, 18, 'Guide > Install > Linux'],
+      [20, 23, 'Guide > Install > macOS'],
+    ]);
+  });
+
+  it('splits large sections between blocks without cutting fences or tables', () => {
+    const chunker = new Chunker();
+    const chunks = chunker.generate(
+      { text: guide, path: 'docs/guide.md', language: 'Markdown' },
+      { strategy: 'by-section', tokenizer, maxLines: 3, adaptive: { splitLargeChunks: true, maxChunkSizeLines: 2 } },
+    );
+    const linux = chunks.filter((chunk) => chunk.metadata.section === 'Guide > Install > Linux');
+
+    expect(linux.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine])).toEqual([
+      [7, 9],
+      [11, 15],
+      [17, 18],
+    ]);
+    expect(chunks.find((chunk) => chunk.metadata.section === 'Guide > Install > macOS')?.text.split('\n')).toHaveLength(4);
+  });
+});
+
+describe('Chunker structured data', () => {
+  const generate = (path: string, text: string, targetChunkSizeTokens: number) =>
+    new Chunker().generate({ text, path }, { strategy: 'by-section', tokenizer, targetChunkSizeTokens });
+
+  it('splits JSON at nested keys and records JSON pointers', () => {
+    const spec = JSON.stringify(
+      {
+        openapi: '3.0.0',
+        info: { title: 'API', version: '1' },
+        paths: {
+          '/users': {
+            get: { summary: 'List users', responses: { 200: { description: 'ok' } } },
+            post: { summary: 'Create user' },
+          },
+          '/teams': { get: { summary: 'List teams' } },
+        },
+      },
+      null,
+      2,
+    );
+    const chunks = generate('openapi.json', spec, 30);
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.keyPath])).toEqual([
+      [1, 2, '/openapi'],
+      [3, 6, '/info'],
+      [7, 10, '/paths/~1users/get/summary'],
+      [11, 16, '/paths/~1users/get/responses'],
+      [17, 20, '/paths/~1users/post'],
+      [21, 27, '/paths/~1teams'],
+    ]);
+    expect(chunks.every((chunk) => chunk.metadata.tokenCount <= 30)).toBe(true);
+    expect(generate('openapi.json', spec, 1000).map((chunk) => chunk.metadata.keyPath)).toEqual(['']);
+  });
+
+  it('keeps one YAML document per chunk and descends into large ones', () => {
+    const manifests = [
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: web',
+      '---',
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'spec:',
+      '  replicas: 2',
+      '  template:',
+      '    spec:',
+      '      containers:',
+      '      - name: web',
+      '        image: nginx',
+      '        ports:',
+      '        - containerPort: 80',
+      '      - name: sidecar',
+      '        image: envoy',
+    ].join('\n');
+
+    expect(
+      generate('k8s.yaml', manifests, 1000).map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.documentIndex]),
+    ).toEqual([
+      [1, 4, 0],
+      [6, 18, 1],
+    ]);
+    expect(generate('k8s.yaml', manifests, 20).map((chunk) => [chunk.metadata.documentIndex, chunk.metadata.keyPath])).toEqual([
+      [0, ''],
+      [1, ''],
+      [1, '/spec/replicas'],
+      [1, '/spec/template/spec/containers/0'],
+      [1, '/spec/template/spec/containers/1'],
+    ]);
+  });
+
+  it('splits TOML at tables and keys', () => {
+    const config = [
+      'title = "demo"',
+      '',
+      '[server]',
+      'host = "localhost"',
+      'port = 8080',
+      '',
+      '[[plugins]]',
+      'name = "one"',
+      '',
+      '[[plugins]]',
+      'name = "two"',
+      'notes = """',
+      'x = 1',
+      '"""',
+    ].join('\n');
+    const chunks = generate('config.toml', config, 16);
+
+    expect(chunks.map((chunk) => [chunk.metadata.startLine, chunk.metadata.endLine, chunk.metadata.keyPath])).toEqual([
+      [1, 5, ''],
+      [7, 8, '/plugins/0'],
+      [10, 11, '/plugins/1/name'],
+      [12, 14, '/plugins/1/notes'],
+    ]);
+  });
+
+  it('reads YAML flow mappings, multi-line scalars and anchors as the parser does', () => {
+    const values = [
+      'defaults: &defaults',
+      '  image: { repository: nginx, tag: "1.25" }',
+      'description: a plain scalar',
+      '  that continues here',
+      'notes: >',
+      '  key: not a key',
+      'service:',
+      '  <<: *defaults',
+      '  ports: [80, 443]',
+      '  env:',
+      '  - name: MODE',
+      '    value: prod',
+    ].join('\n');
+    const flatten = (node: StructuredNode): Array<[string, number, number]> => [
+      [node.path.join('.'), node.startLine, node.endLine],
+      ...node.children.flatMap(flatten),
+    ];
+
+    expect(flatten(extractStructuredDocuments({ text: values, path: 'values.yaml' })![0].root)).toEqual([
+      ['', 1, 12],
+      ['defaults', 1, 2],
+      ['defaults.image', 2, 2],
+      ['defaults.image.repository', 2, 2],
+      ['defaults.image.tag', 2, 2],
+      ['description', 3, 4],
+      ['notes', 5, 6],
+      ['service', 7, 12],
+      ['service.<<', 8, 8],
+      ['service.ports', 9, 9],
+      ['service.ports.0', 9, 9],
+      ['service.ports.1', 9, 9],
+      ['service.env', 10, 12],
+      ['service.env.0', 11, 12],
+      ['service.env.0.name', 11, 11],
+      ['service.env.0.value', 12, 12],
+    ]);
+  });
+
+  it('chunks by key under the default lines strategy', () => {
+    const manifest = ['apiVersion: v1', 'kind: ConfigMap', 'data:', ...Array.from({ length: 40 }, (_, index) => `  key${index}: value ${index}`)];
+    const chunks = new Chunker().generate(
+      { text: manifest.join('\n'), path: 'configmap.yaml' },
+      { strategy: 'lines', tokenizer, targetChunkSizeTokens: 100 },
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.metadata.keyPath !== undefined)).toBe(true);
+    expect(chunks[0].metadata.startLine).toBe(1);
+    expect(chunks[chunks.length - 1].metadata.endLine).toBe(manifest.length);
+  });
+
+  it('falls back to the strategy when the file does not parse', () => {
+    for (const text of ['{ "a": 1,\n', '{\n  // note\n  "a": 1\n}\n', '{ "a": [1, 2,] }\n', "{ 'a': 1 }\n", '{ a: .5 }\n']) {
+      const chunks = generate('broken.json', text, 30);
+      expect(chunks.every((chunk) => chunk.metadata.keyPath === undefined)).toBe(true);
+    }
+  });
+});
+
+describe('Chunker content-defined boundaries', () => {
+  const source = Array.from({ length: 400 }, (_, index) => `const value${index} = compute(${index * 7});`);
+
+  function changedIds(before: { id: string }[], after: { id: string }[]) {
+    const beforeIds = new Set(before.map((chunk) => chunk.id));
+    const afterIds = new Set(after.map((chunk) => chunk.id));
+    return {
+      added: after.filter((chunk) => !beforeIds.has(chunk.id)).length,
+      removed: before.filter((chunk) => !afterIds.has(chunk.id)).length,
+    };
+  }
+
+  it('keeps chunk ids after an inserted line except around the edit', () => {
+    const chunker = new Chunker();
+    const options = { strategy: 'lines' as const, tokenizer, targetLines: 20, boundaries: 'content-defined' as const };
+    const before = chunker.generate({ text: source.join('\n'), path: 'values.ts' }, options);
+    const after = chunker.generate({ text: ['// header', ...source].join('\n'), path: 'values.ts' }, options);
+
+    expect(before.length).toBeGreaterThan(10);
+    expect(before.every((chunk) => chunk.metadata.endLine - chunk.metadata.startLine + 1 <= 40)).toBe(true);
+    const { added, removed } = changedIds(before, after);
+    expect(added).toBe(1);
+    expect(removed).toBe(1);
+    const shifted = after.slice(1).map((chunk) => chunk.metadata.startLine - 1);
+    expect(shifted).toEqual(before.slice(1).map((chunk) => chunk.metadata.startLine));
+  });
+
+  it('cuts token chunks from the content within the size limits', () => {
+    const chunker = new Chunker();
+    const options = {
+      strategy: 'tokens' as const,
+      tokenizer,
+      targetChunkSizeTokens: 60,
+      boundaries: 'content-defined' as const,
+      contentDefined: { minSize: 20, maxSize: 120 },
+    };
+    const edited = source.slice();
+    edited.splice(200, 0, 'const inserted = true;');
+    const before = chunker.generate({ text: source.join('\n'), path: 'values.ts' }, options);
+    const after = chunker.generate({ text: edited.join('\n'), path: 'values.ts' }, options);
+
+    expect(before.every((chunk) => chunk.metadata.tokenCount <= 120)).toBe(true);
+    expect(before.slice(0, -1).every((chunk) => chunk.metadata.tokenCount >= 20)).toBe(true);
+    const { added, removed } = changedIds(before, after);
+    expect(added).toBeLessThanOrEqual(2);
+    expect(removed).toBeLessThanOrEqual(2);
+    expect(before.length - removed).toBeGreaterThan(before.length / 2);
+  });
+
+  async function insertAtSectionTop(
+    path: string,
+    language: string | undefined,
+    head: string[],
+    body: string[],
+    options: ChunkingOptions,
+  ) {
+    const chunker = new Chunker();
+    const contentDefined = { ...options, boundaries: 'content-defined' as const };
+    const before = { text: [...head, ...body].join('\n'), path, language };
+    const after = { text: [...head, body[0].replace('value0', 'inserted'), ...body].join('\n'), path, language };
+    await chunker.prepare(before, contentDefined);
+    return {
+      before: chunker.generate(before, contentDefined),
+      after: chunker.generate(after, contentDefined),
+    };
+  }
+
+  const statements = Array.from({ length: 300 }, (_, index) => `  const value${index} = compute(${index * 7});`);
+
+  it.each([
+    ['by-section', 'values.py', undefined, ['def compute_all():'], statements],
+    ['syntax', 'values.ts', 'TypeScript', ['export function computeAll() {'], [...statements, '}']],
+    ['hybrid', 'values.ts', 'TypeScript', ['export function computeAll() {'], [...statements, '}']],
+    ['by-section', 'guide.md', undefined, ['# Guide', ''], statements.map((line) => line.trim())],
+  ] as const)('keeps %s chunk ids of %s after a line is inserted at the top of a large section', async (...cases) => {
+    const [strategy, path, language, head, body] = cases;
+    const options = { strategy, tokenizer, maxTokens: 120 };
+    const { before, after } = await insertAtSectionTop(path, language, [...head], [...body], options);
+
+    expect(before.length).toBeGreaterThan(10);
+    expect(before.every((chunk) => chunk.metadata.tokenCount <= 120)).toBe(true);
+    const { added, removed } = changedIds(before, after);
+    expect(added).toBeLessThanOrEqual(2);
+    expect(removed).toBeLessThanOrEqual(2);
+  });
+
+  it('gives repeated chunks distinct ids by occurrence', () => {
+    const chunker = new Chunker();
+    const block = Array.from({ length: 30 }, (_, index) => `row ${index}`);
+    const chunks = chunker.generate(
+      { text: [...block, ...block].join('\n'), path: 'repeat.txt' },
+      {
+        strategy: 'lines',
+        tokenizer,
+        targetLines: 30,
+        boundaries: 'content-defined',
+        contentDefined: { minSize: 30, maxSize: 30 },
+      },
+    );
+
+    expect(chunks.map((chunk) => chunk.metadata.occurrence)).toEqual([0, 1]);
+    expect(chunks[0].text).toBe(chunks[1].text);
+    expect(chunks[0].id).not.toBe(chunks[1].id);
+  });
+});
+
+describe('Chunker context headers', () => {
+  const source = [
+    'export class Store {',
+    '  load(key: string): string {',
+    '    const value = this.cache.get(key);',
+    '    if (value === undefined) {',
+    '      throw new Error(`missing ${key}`);',
+    '    }',
+    '    return value;',
+    '  }',
+    '}',
+  ].join('\n');
+
+  it('renders path, language, lines and scope and keeps them within maxTokens', async () => {
+    const chunker = new Chunker();
+    const input = { text: source, path: 'src/store.ts', language: 'TypeScript' };
+    const options = { strategy: 'hybrid' as const, tokenizer, maxTokens: 60, contextHeaders: true };
+    await chunker.prepare(input, options);
+    const chunks = chunker.generate(input, options);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((chunk) => chunk.text).join('\n')).toBe(source);
+    expect(chunks[0].metadata.contextHeader).toBe(
+      ['File: src/store.ts', 'Language: TypeScript', `Lines: 1-${chunks[0].metadata.endLine}`, 'Scope: class Store'].join('\n'),
+    );
+    expect(chunks.every((chunk) => chunk.metadata.contextHeader?.endsWith('Scope: class Store'))).toBe(true);
+    for (const chunk of chunks) {
+      expect(chunk.metadata.contextHeaderTokens).toBe(tokenizer.count(chunk.metadata.contextHeader ?? ''));
+      expect(chunk.metadata.tokenCount + (chunk.metadata.contextHeaderTokens ?? 0)).toBeLessThanOrEqual(60);
+    }
+  });
+
+  it('leaves chunks unchanged without the option', () => {
+    const chunks = new Chunker().generate({ text: source, path: 'src/store.ts' }, { strategy: 'lines', tokenizer });
+
+    expect(chunks[0].metadata.contextHeader).toBeUndefined();
+    expect(chunks[0].text).toBe(source);
+  });
+});
+
+describe('extractSkeleton', () => {
+  async function skeletonOf(path: string, language: string, lines: string[]) {
+    await syntaxParserRegistry.load(resolveSyntaxGrammar(language, path)!);
+    const skeleton = extractSkeleton({ text: lines.join('\n'), path, language }, tokenizer)!;
+    return skeleton.text.split('\n').map((line, index) => `${skeleton.lineMap[index]}: ${line}`);
+  }
+
+  it('keeps TypeScript types, members and signatures and elides bodies', async () => {
+    const lines = await skeletonOf('store.ts', 'TypeScript', [
+      "import { read } from './io';",
+      '',
+      '/** Store options. */',
+      'export interface Options {',
+      '  name: string;',
+      '}',
+      '',
+      'export const DEFAULTS: Options = {',
+      "  name: 'store',",
+      '};',
+      '',
+      'export class Store {',
+      '  private readonly items = new Map<string, string>();',
+      '',
+      '  async load(',
+      '    path: string,',
+      '  ): Promise<void> {',
+      '    this.items.set(path, await read(path));',
+      '  }',
+      '}',
+      '',
+      'export const size = (store: Store): number => {',
+      '  return 0;',
+      '};',
+    ]);
+
+    expect(lines).toEqual([
+      '4: export interface Options {',
+      '5:   name: string;',
+      '6: }',
+      '8: export const DEFAULTS: Options = ...',
+      '12: export class Store {',
+      '13:   private readonly items = new Map<string, string>();',
+      '15:   async load(',
+      '16:     path: string,',
+      '17:   ): Promise<void> { ... }',
+      '20: }',
+      '22: export const size = (store: Store): number => { ... }',
+    ]);
+  });
+
+  it('supports Python, Go and Java', async () => {
+    expect(
+      await skeletonOf('store.py', 'Python', [
+        'import os',
+        '',
+        'class Store:',
+        '    """Keeps items."""',
+        '    limit: int = 5',
+        '',
+        '    @property',
+        '    def size(self) -> int:',
+        '        return len(os.listdir())',
+      ]),
+    ).toEqual(['3: class Store:', '5:     limit: int = 5', '7:     @property', '8:     def size(self) -> int: ...']);
+    expect(
+      await skeletonOf('store.go', 'Go', [
+        'package store',
+        '',
+        'type Store struct {',
+        '\tName string',
+        '}',
+        '',
+        'func (s *Store) Get(key string) string {',
+        '\treturn key',
+        '}',
+      ]),
+    ).toEqual(['1: package store', '3: type Store struct {', '4: \tName string', '5: }', '7: func (s *Store) Get(key string) string { ... }']);
+    expect(
+      await skeletonOf('Store.java', 'Java', [
+        'package com.example;',
+        '',
+        'public class Store {',
+        '    private final String name;',
+        '',
+        '    public String name() {',
+        '        return name;',
+        '    }',
+        '}',
+      ]),
+    ).toEqual([
+      '1: package com.example;',
+      '3: public class Store {',
+      '4:     private final String name;',
+      '6:     public String name() { ... }',
+      '9: }',
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { ContentCompactor, compactedLineRange } from '../../src/normalization/compaction';
+
+const typescript = [
+  '/*',
+  ' * Copyright 2024 Example Corp.',
+  ' */',
+  '',
+  "import { readFile } from 'node:fs/promises';",
+  'import {',
+  '  join,',
+  '  resolve,',
+  "} from 'node:path';",
+  '',
+  '// Loads the config.',
+  'export async function load(path: string): Promise<string> {',
+  '    const url = "http://example.com/*not-a-comment*/"; // trailing',
+  '    if (path) {',
+  '        return `line one',
+  '    // still the template`;',
+  '    }',
+  '    return readFile(join(resolve(path), url), "utf8");',
+  '}',
+].join('\n');
+
+const python = [
+  '"""Module docstring."""',
+  'import os',
+  'from typing import (',
+  '    List,',
+  ')',
+  '',
+  'def names(root):',
+  '    """Lists entries.',
+  '',
+  '    Skips hidden files."""',
+  '    query = """SELECT *',
+  '        FROM entries"""',
+  '    return [name for name in os.listdir(root)]  # comment',
+].join('\n');
+
+describe('ContentCompactor', () => {
+  it('strips comments, elides imports and collapses indentation with a line map', () => {
+    const compactor = new ContentCompactor({ stripComments: true, elideImports: true, collapseIndentation: true });
+    const result = compactor.compact(typescript, 'TypeScript');
+
+    expect(result.compacted.split('\n')).toEqual([
+      'export async function load(path: string): Promise<string> {',
+      ' const url = "http://example.com/*not-a-comment*/";',
+      ' if (path) {',
+      '  return `line one',
+      '    // still the template`;',
+      ' }',
+      ' return readFile(join(resolve(path), url), "utf8");',
+      '}',
+    ]);
+    expect(result.lineMap).toEqual([12, 13, 14, 15, 16, 17, 18, 19]);
+    expect(result.removedLines).toBe(11);
+  });
+
+  it('removes Python docstrings but keeps other triple-quoted strings', () => {
+    const compactor = new ContentCompactor({ stripComments: true, elideImports: true });
+    const result = compactor.compact(python, 'Python');
+
+    expect(result.compacted.split('\n')).toEqual([
+      'def names(root):',
+      '    query = """SELECT *',
+      '        FROM entries"""',
+      '    return [name for name in os.listdir(root)]',
+    ]);
+    expect(result.lineMap).toEqual([7, 11, 12, 13]);
+  });
+
+  it('leaves text unchanged without transforms or for unknown languages', () => {
+    expect(new ContentCompactor().compact(typescript, 'TypeScript').compacted).toBe(typescript);
+    const result = new ContentCompactor({ stripComments: true, elideImports: true }).compact('# not a comment', 'Text');
+    expect(result.compacted).toBe('# not a comment');
+    expect(result.lineMap).toEqual([1]);
+  });
+
+  it('maps source line ranges onto compacted lines', () => {
+    const lineMap = [12, 13, 14, 18];
+
+    expect(compactedLineRange(lineMap, 13, 17)).toEqual({ startLine: 2, endLine: 3 });
+    expect(compactedLineRange(lineMap, 15, 17)).toBeUndefined();
+  });
+});
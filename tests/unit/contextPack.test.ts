@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { execFileSync } from 'node:child_process';
+import { IndexManager } from '../../src/indexer';
+import { BasicTokenizer } from '../../src/chunker';
+
+let repoDir: string;
+const manager = new IndexManager();
+const spec = () => ({ type: 'filesystem' as const, path: repoDir });
+
+beforeAll(async () => {
+  repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-context-pack-'));
+  await mkdir(join(repoDir, 'src', 'util'), { recursive: true });
+  await mkdir(join(repoDir, 'src', '__tests__'), { recursive: true });
+  await writeFile(
+    join(repoDir, 'src', 'util', 'format.ts'),
+    ['export function formatName(name: string): string {', '  return name.trim();', '}'].join('\n'),
+  );
+  await writeFile(
+    join(repoDir, 'src', 'user.ts'),
+    [
+      "import { formatName } from './util/format';",
+      '',
+      'export class User {',
+      '  label(name: string) {',
+      '    return formatName(name);',
+      '  }',
+      '}',
+    ].join('\n'),
+  );
+  await writeFile(
+    join(repoDir, 'src', 'team.ts'),
+    ["import { User } from './user';", '', 'export function teamLabel(user: User) {', "  return user.label('team');", '}'].join('\n'),
+  );
+  await writeFile(
+    join(repoDir, 'src', '__tests__', 'user.test.ts'),
+    ["import { User } from '../user';", '', "it('labels', () => new User().label(' a '));"].join('\n'),
+  );
+  await writeFile(join(repoDir, 'README.md'), '# Example\n\nUsers are labelled by trimming their name.');
+  await manager.indexRepository(spec(), { scanSecrets: false });
+});
+
+afterAll(async () => {
+  await rm(repoDir, { recursive: true, force: true });
+});
+
+const summarize = (chunks: Array<{ metadata: { path: string }; score: number; reasons: string[] }>) =>
+  chunks.map((chunk) => [chunk.metadata.path, chunk.score, chunk.reasons]);
+
+describe('IndexManager.buildContextPack', () => {
+  it('ranks symbol definitions, uses, dependency neighbours and tests of a target', async () => {
+    const pack = await manager.buildContextPack(spec(), { targets: ['User'] });
+
+    expect(summarize(pack.chunks)).toEqual([
+      ['src/user.ts', 10, ['defines User']],
+      ['src/__tests__/user.test.ts', 9, ['uses User', 'imports src/user.ts', 'tests src/user.ts']],
+      ['src/team.ts', 6, ['uses User', 'imports src/user.ts']],
+      ['src/util/format.ts', 4, ['imported by src/user.ts']],
+    ]);
+  });
+
+  it('ignores symbol targets that only exist on Object.prototype', async () => {
+    const pack = await manager.buildContextPack(spec(), { targets: ['toString', 'valueOf'] });
+
+    expect(pack.chunks).toEqual([]);
+  });
+
+  it('scores path targets and their dependency graph neighbours', async () => {
+    const pack = await manager.buildContextPack(spec(), { targets: ['src/util'] });
+
+    expect(summarize(pack.chunks)).toEqual([
+      ['src/util/format.ts', 6, ['in src/util']],
+      ['src/user.ts', 4, ['imports src/util/format.ts']],
+      ['src/__tests__/user.test.ts', 2, ['2 imports from src/util/format.ts']],
+      ['src/team.ts', 2, ['2 imports from src/util/format.ts']],
+    ]);
+  });
+
+  it('scores query terms by rarity and leaves out chunks that match nothing', async () => {
+    const pack = await manager.buildContextPack(spec(), { query: 'trim the name' });
+
+    expect(pack.chunks.map((chunk) => [chunk.metadata.path, chunk.reasons])).toEqual([
+      ['src/util/format.ts', ['matches trim, name']],
+      ['src/user.ts', ['matches name']],
+      ['README.md', ['matches name']],
+    ]);
+    expect(pack.chunks[0].score).toBeGreaterThan(pack.chunks[1].score);
+  });
+
+  it('fills the total token budget greedily by score', async () => {
+    const pack = await manager.buildContextPack(spec(), { targets: ['User'], maxTokens: 60 });
+
+    expect(pack.chunks.map((chunk) => chunk.metadata.path)).toEqual(['src/user.ts', 'src/util/format.ts']);
+    expect(pack.totalTokens).toBe(pack.chunks.reduce((sum, chunk) => sum + chunk.metadata.tokenCount, 0));
+    expect(pack.totalTokens).toBeLessThanOrEqual(60);
+    expect(pack.totalChunks).toBe(2);
+  });
+
+  it('renders the pack as a prompt that fits the budget with the chunking tokenizer', async () => {
+    const full = await manager.buildContextPack(spec(), { targets: ['User'], format: 'xml' });
+    const pack = await manager.buildContextPack(spec(), { targets: ['User'], format: 'xml', maxTokens: full.totalTokens - 1 });
+
+    expect(full.prompt).toContain('<source>src/user.ts:1-7</source>');
+    expect(new BasicTokenizer().count(full.prompt!)).toBe(full.totalTokens);
+    expect(pack.totalTokens).toBeLessThanOrEqual(full.totalTokens - 1);
+    expect(new BasicTokenizer().count(pack.prompt!)).toBe(pack.totalTokens);
+    expect(pack.chunks.map((chunk) => chunk.metadata.path)).toEqual(['src/user.ts', 'src/__tests__/user.test.ts', 'src/team.ts']);
+  });
+
+  it('orders stable files first and hashes the prefix that survives volatile changes', async () => {
+    const gitDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-context-pack-git-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: gitDir });
+    const commit = async (files: Record<string, string>) => {
+      for (const [path, content] of Object.entries(files)) {
+        await writeFile(join(gitDir, path), content);
+      }
+      git('add', '.');
+      git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'change');
+    };
+    try {
+      git('init', '-q');
+      await commit({ 'a.txt': 'alpha 1', 'b.txt': 'beta', 'c.txt': 'gamma 1' });
+      await commit({ 'a.txt': 'alpha 2' });
+      await commit({ 'a.txt': 'alpha 3' });
+      await commit({ 'c.txt': 'gamma 2' });
+      const gitSpec = { type: 'git' as const, path: gitDir };
+      const options = { order: 'stable' as const, volatileCommits: 1, indexOptions: { scanSecrets: false } };
+
+      await manager.indexRepository(gitSpec, { scanSecrets: false });
+      const pack = await manager.buildContextPack(gitSpec, options);
+      expect(pack.chunks.map((chunk) => chunk.metadata.path)).toEqual(['b.txt', 'a.txt', 'c.txt']);
+      expect(pack.prefixChunks).toBe(2);
+
+      await commit({ 'c.txt': 'gamma 3' });
+      const latest = await manager.indexRepository(gitSpec, { scanSecrets: false });
+      const next = await manager.buildContextPack(gitSpec, options);
+      expect(next.chunks[2].text).toBe('gamma 3');
+      expect(next.prefixHash).toBe(pack.prefixHash);
+
+      // An index whose repository is gone, e.g. an imported one, falls back to path order.
+      const imported = new IndexManager();
+      await imported.registerIndex(latest);
+      await rm(join(gitDir, '.git'), { recursive: true, force: true });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const fallback = await imported.buildContextPack(gitSpec, { ...options, ref: latest.ref });
+      expect(fallback.chunks.map((chunk) => chunk.metadata.path)).toEqual(['a.txt', 'b.txt', 'c.txt']);
+      expect(fallback.prefixChunks).toBe(3);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('ordering context by path'));
+      warn.mockRestore();
+    } finally {
+      await rm(gitDir, { recursive: true, force: true });
+    }
+  }, 20000);
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager } from '../../src/indexer';
+import {
+  DiskEmbeddingCache,
+  MemoryEmbeddingCache,
+  cosineSimilarity,
+  createEmbeddingProvider,
+  embedTexts,
+} from '../../src/embeddings';
+
+/** Each dimension counts the words of one topic, so texts on the same topic point the same way. */
+const TOPICS = [
+  ['http', 'request', 'header', 'network'],
+  ['render', 'page', 'view', 'template'],
+  ['database', 'sql', 'table', 'row'],
+];
+
+function embed(text: string): number[] {
+  const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+  return TOPICS.map((topic) => words.filter((word) => topic.includes(word)).length);
+}
+
+interface StubRequest {
+  authorization?: string;
+  model: string;
+  input: string[];
+}
+
+let server: Server;
+let baseUrl: string;
+const requests: StubRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (part) => {
+      body += part;
+    });
+    request.on('end', () => {
+      if (request.url !== '/v1/embeddings') {
+        response.writeHead(404).end('not found');
+        return;
+      }
+      const payload = JSON.parse(body) as { model: string; input: string[] };
+      requests.push({ authorization: request.headers.authorization, ...payload });
+      // Answer in reverse to check that results are put back in input order.
+      const data = payload.input.map((text, index) => ({ index, embedding: embed(text) })).reverse();
+      response.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify({ data }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe('HttpEmbeddingProvider', () => {
+  it('posts batches to an OpenAI-compatible endpoint and keeps input order', async () => {
+    requests.length = 0;
+    process.env.EMBEDDING_TEST_KEY = 'secret';
+    const provider = createEmbeddingProvider({ baseUrl: `${baseUrl}/`, model: 'stub', apiKeyEnv: 'EMBEDDING_TEST_KEY', batchSize: 2 });
+
+    const vectors = await provider.embed(['http request', 'render page', 'sql table']);
+
+    expect(vectors).toEqual([embed('http request'), embed('render page'), embed('sql table')]);
+    expect(requests.map((request) => request.input)).toEqual([['http request', 'render page'], ['sql table']]);
+    expect(requests[0]).toMatchObject({ authorization: 'Bearer secret', model: 'stub' });
+    delete process.env.EMBEDDING_TEST_KEY;
+  });
+
+  it('reports failed requests', async () => {
+    const provider = createEmbeddingProvider({ baseUrl: `${baseUrl}/missing`, model: 'stub' });
+
+    await expect(provider.embed(['http'])).rejects.toThrow('Embedding request failed (404): not found');
+  });
+});
+
+describe('embedTexts', () => {
+  it('only asks the provider for texts missing from the cache', async () => {
+    requests.length = 0;
+    const provider = createEmbeddingProvider({ baseUrl, model: 'stub' });
+    const cacheDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-embeddings-'));
+    try {
+      const first = await embedTexts(provider, new DiskEmbeddingCache({ path: cacheDir }), ['http', 'page', 'http']);
+      const second = await embedTexts(provider, new DiskEmbeddingCache({ path: cacheDir }), ['page', 'sql']);
+
+      expect(first).toEqual([embed('http'), embed('page'), embed('http')]);
+      expect(second).toEqual([embed('page'), embed('sql')]);
+      expect(requests.map((request) => request.input)).toEqual([['http', 'page'], ['sql']]);
+    } finally {
+      await rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 3])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe('IndexManager.searchSemantic', () => {
+  it('ranks by meaning, fuses with BM25 and applies query filters', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-semantic-'));
+    try {
+      await mkdir(join(repoDir, 'src'));
+      await writeFile(join(repoDir, 'src/client.ts'), 'export function fetchUser() {\n  // http request with auth header\n}\n');
+      await writeFile(join(repoDir, 'src/view.ts'), 'export function showUser() {\n  // render the user page template\n}\n');
+      await writeFile(join(repoDir, 'src/store.py'), 'def load_user():\n    # sql query on the user table\n    pass\n');
+      requests.length = 0;
+      const manager = new IndexManager({
+        embeddings: createEmbeddingProvider({ baseUrl, model: 'stub' }),
+        embeddingCache: new MemoryEmbeddingCache(),
+      });
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+
+      const semantic = await manager.searchSemantic(spec, 'network call', { mode: 'semantic', minSimilarity: 0.5 });
+      expect(semantic).toMatchObject({ mode: 'semantic', total: 1, matches: [{ path: 'src/client.ts', similarity: 1 }] });
+
+      const hybrid = await manager.searchSemantic(spec, 'user page');
+      expect(hybrid.mode).toBe('hybrid');
+      expect(hybrid.matches[0]).toMatchObject({ path: 'src/view.ts', similarity: 1 });
+      expect(hybrid.matches[0].lexicalScore).toBeGreaterThan(0);
+
+      const filtered = await manager.searchSemantic(spec, 'user table -lang:python', { mode: 'semantic' });
+      expect(filtered.matches.map((match) => match.path).sort()).toEqual(['src/client.ts', 'src/view.ts']);
+
+      // Chunks are embedded once; later searches only embed their query.
+      expect(requests.slice(1).every((request) => request.input.length === 1)).toBe(true);
+
+      await expect(manager.searchSemantic(spec, 'lang:python')).rejects.toThrow('needs words or phrases');
+      await expect(new IndexManager().searchSemantic(spec, 'user')).rejects.toThrow('No embedding provider configured');
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,9 +1,24 @@
-import { describe, it, expect } from 'vitest';
-import { mkdtemp, rm, readFile } from 'node:fs/promises';
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises';
 import { createDecipheriv, scryptSync } from 'node:crypto';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
-import { createEncryptedFileWriter, encryptBuffer } from '../../src/exporters/encryption';
+import { Readable } from 'node:stream';
+import {
+  createDecryptedFileReader,
+  createEncryptedFileWriter,
+  decryptBuffer,
+  encryptBuffer,
+} from '../../src/exporters/encryption';
+import { runCli } from '../../src/cli';
+
+async function readAll(stream: Readable): Promise<string> {
+  const parts: Buffer[] = [];
+  for await (const chunk of stream) {
+    parts.push(chunk as Buffer);
+  }
+  return Buffer.concat(parts).toString('utf8');
+}
 
 async function withTempDir(fn: (dir: string) => Promise<void>) {
   const dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-enc-'));
@@ -56,4 +71,68 @@ describe('Encryption utilities', () => {
       expect(decrypted.toString()).toBe('streamed data');
     });
   });
+
+  it('decryptBuffer round-trips and rejects wrong passwords or tampering', () => {
+    const encrypted = encryptBuffer(Buffer.from('payload', 'utf8'), 'secret');
+    expect(decryptBuffer(encrypted, 'secret').toString()).toBe('payload');
+    expect(() => decryptBuffer(encrypted, 'wrong')).toThrow(/wrong password or the file has been tampered with/);
+
+    const tampered = Buffer.from(encrypted);
+    tampered[35] ^= 1;
+    expect(() => decryptBuffer(tampered, 'secret')).toThrow(/tampered/);
+    expect(() => decryptBuffer(Buffer.from('plain text that is long enough to pass'), 'secret')).toThrow(
+      /not an RPTK1 encrypted export/,
+    );
+    expect(() => decryptBuffer(encrypted.subarray(0, 40), 'secret')).toThrow(/truncated/);
+  });
+
+  it('createDecryptedFileReader streams files written by createEncryptedFileWriter', async () => {
+    await withTempDir(async (dir) => {
+      const output = join(dir, 'out.enc');
+      const writer = createEncryptedFileWriter(output, 'pass123');
+      writer.stream.write('{"type":"file"}\n');
+      writer.stream.write('{"type":"chunk"}\n');
+      await writer.finalize();
+
+      expect(await readAll(await createDecryptedFileReader(output, 'pass123'))).toBe(
+        '{"type":"file"}\n{"type":"chunk"}\n',
+      );
+      await expect(readAll(await createDecryptedFileReader(output, 'nope'))).rejects.toThrow(/wrong password/);
+
+      const empty = join(dir, 'empty.enc');
+      await writeFile(empty, encryptBuffer(Buffer.alloc(0), 'pass123'));
+      expect(await readAll(await createDecryptedFileReader(empty, 'pass123'))).toBe('');
+    });
+  });
+
+  it('decrypt only writes plaintext to stdout once it is authenticated', async () => {
+    await withTempDir(async (dir) => {
+      const input = join(dir, 'index.jsonl.enc');
+      await writeFile(input, encryptBuffer(Buffer.from('{"type":"chunk"}\n'.repeat(10000)), 'secret'));
+      const stdout = vi.spyOn(process.stdout, 'write').mockImplementation((_chunk, encoding, callback) => {
+        (typeof encoding === 'function' ? encoding : callback)?.();
+        return true;
+      });
+      const exit = vi.spyOn(process, 'exit').mockImplementation(((code?: number) => {
+        throw new Error(`exit ${code}`);
+      }) as never);
+      try {
+        await runCli(['node', 'cli', 'decrypt', '--input', input, '--password', 'secret']);
+        const written = stdout.mock.calls.map(([chunk]) => Buffer.from(chunk as Buffer).toString('utf8')).join('');
+        expect(written).toBe('{"type":"chunk"}\n'.repeat(10000));
+        stdout.mockClear();
+
+        const tampered = await readFile(input);
+        tampered[tampered.length - 1] ^= 1;
+        await writeFile(input, tampered);
+        await expect(runCli(['node', 'cli', 'decrypt', '--input', input, '--password', 'secret'])).rejects.toThrow(
+          'exit 1',
+        );
+        expect(stdout).not.toHaveBeenCalled();
+      } finally {
+        stdout.mockRestore();
+        exit.mockRestore();
+      }
+    });
+  });
 });
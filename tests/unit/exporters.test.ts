@@ -4,7 +4,8 @@ import { exportIndexToJsonl } from '../../src/exporters/jsonl';
 import { buildParquetBuffer } from '../../src/exporters/parquet';
 import { buildDeltaSnapshot } from '../../src/exporters/delta';
 import { buildVectorRecords } from '../../src/exporters/vector';
-import type { IndexResult } from '../../src/indexer';
+import { renderPrompt } from '../../src/exporters/prompt';
+import type { IndexChunk, IndexResult } from '../../src/indexer';
 
 describe('exportIndexToJsonl', () => {
   it('writes files, chunks and secret findings', async () => {
@@ -146,3 +147,94 @@ describe('advanced exporters', () => {
     expect(vectors[0]?.vector.length).toBe(16);
   });
 });
+
+describe('renderPrompt', () => {
+  const chunk = (path: string, startLine: number, text: string): IndexChunk => ({
+    id: `${path}:${startLine}`,
+    text,
+    fileHash: path,
+    metadata: {
+      origin: 'file',
+      path,
+      startLine,
+      endLine: startLine + text.split('\n').length - 1,
+      tokenCount: 1,
+      charCount: text.length,
+      chunkIndex: 0,
+      totalChunks: 1,
+    },
+  });
+  const chunks = [
+    chunk('src/util/format.ts', 1, 'export const fence = "```";'),
+    chunk('src/app.ts', 4, 'run();\nstop();'),
+    chunk('src/app.ts', 1, 'import { fence } from "./util/format";'),
+    chunk('src/app.ts', 5, 'stop();\nexit();'),
+  ];
+  const languageByHash = { 'src/util/format.ts': 'TypeScript', 'src/app.ts': 'TypeScript' };
+
+  it('renders Markdown sections with fences longer than any backtick run', () => {
+    expect(renderPrompt(chunks.slice(0, 2), { format: 'markdown', languageByHash })).toBe(
+      [
+        '## src/util/format.ts (line 1)',
+        '',
+        '````typescript',
+        'export const fence = "```";',
+        '````',
+        '',
+        '## src/app.ts (lines 4-5)',
+        '',
+        '```typescript',
+        'run();',
+        'stop();',
+        '```',
+      ].join('\n'),
+    );
+  });
+
+  it('renders XML documents with context headers', () => {
+    expect(renderPrompt(chunks.slice(1, 2), { format: 'xml', languageByHash, contextHeaders: true })).toBe(
+      [
+        '<documents>',
+        '<document index="1">',
+        '<source>src/app.ts:4-5</source>',
+        '<context>',
+        'File: src/app.ts',
+        'Language: TypeScript',
+        'Lines: 4-5',
+        '</context>',
+        '<document_content>',
+        'run();',
+        'stop();',
+        '</document_content>',
+        '</document>',
+        '</documents>',
+      ].join('\n'),
+    );
+  });
+
+  it('renders a repo file with a directory tree, merging overlapping chunks of a file', () => {
+    expect(renderPrompt(chunks, { format: 'repo' })).toBe(
+      [
+        'Directory structure:',
+        'src/',
+        '  app.ts',
+        '  util/',
+        '    format.ts',
+        '',
+        '================================',
+        'File: src/app.ts',
+        '================================',
+        'import { fence } from "./util/format";',
+        '...',
+        'run();',
+        'stop();',
+        'exit();',
+        '================================',
+        'File: src/util/format.ts',
+        '================================',
+        'export const fence = "```";',
+      ].join('\n'),
+    );
+    expect(renderPrompt([], { format: 'repo' })).toBe('');
+  });
+});
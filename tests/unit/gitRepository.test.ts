@@ -91,4 +91,34 @@ describe('GitRepository helpers', () => {
       await rm(repoPath, { recursive: true, force: true });
     }
   });
+
+  it('fileChangeHistory counts commits per path from git log', async () => {
+    const repoPath = await createRepoPath();
+    try {
+      execMocks.runCommandMock.mockImplementation(async (_file: string, args: string[]) => {
+        if (args[0] === 'rev-parse') {
+          return { stdout: 'true', stderr: '' };
+        }
+        if (args.includes('log')) {
+          // Three commits, the middle one empty; paths keep their spaces.
+          return { stdout: '\0\0\nsrc/app.ts\0\0\0\0\0\nsrc/app.ts\0 my notes.md\0', stderr: '' };
+        }
+        return { stdout: '', stderr: '' };
+      });
+
+      const repo = await GitRepository.open({ path: repoPath });
+      const history = await repo.fileChangeHistory({ ref: 'main', maxCommits: 3 });
+      expect(Object.fromEntries(history)).toEqual({
+        'src/app.ts': { changes: 2, commitsSince: 0 },
+        ' my notes.md': { changes: 1, commitsSince: 2 },
+      });
+      expect(execMocks.runCommandMock).toHaveBeenCalledWith(
+        'git',
+        expect.arrayContaining(['log', '-z', '--max-count=3', 'main']),
+        expect.objectContaining({ cwd: repoPath }),
+      );
+    } finally {
+      await rm(repoPath, { recursive: true, force: true });
+    }
+  });
 });
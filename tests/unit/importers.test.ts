@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough, Readable } from 'node:stream';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { exportIndexToJsonl, readIndexFromJsonl } from '../../src/exporters/jsonl';
+import { buildSqliteBuffer, readIndexFromSqlite } from '../../src/exporters/sqlite';
+import { encryptBuffer } from '../../src/exporters/encryption';
+import { buildIndexFromRecords, importIndexFromFile } from '../../src/exporters/import';
+import { IndexManager, DirectoryIndexStore } from '../../src/indexer';
+import type { IndexResult } from '../../src/indexer';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-import-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const index: IndexResult = {
+  spec: { type: 'filesystem', path: '/ci/repo' },
+  ref: 'abc123',
+  files: [{ path: 'src/app.ts', size: 30, hash: 'hash1', language: 'TypeScript', executable: false }],
+  chunks: [
+    {
+      id: 'chunk-1',
+      text: 'const a = 1;\nconst b = 2;',
+      fileHash: 'hash1',
+      metadata: {
+        origin: 'file',
+        path: 'src/app.ts',
+        startLine: 1,
+        endLine: 2,
+        tokenCount: 8,
+        charCount: 25,
+        chunkIndex: 0,
+        totalChunks: 2,
+        tokenCounts: { basic: 8, cl100k: 10 },
+        occurrence: 0,
+        contextHeader: 'File: src/app.ts\nLanguage: TypeScript\nLines: 1-2',
+        contextHeaderTokens: 9,
+      },
+    },
+    {
+      id: 'chunk-2',
+      text: 'export { a, b };',
+      fileHash: 'hash1',
+      metadata: {
+        origin: 'file',
+        path: 'src/app.ts',
+        startLine: 3,
+        endLine: 3,
+        tokenCount: 5,
+        charCount: 16,
+        chunkIndex: 1,
+        totalChunks: 2,
+        section: 'exports',
+        lineMap: [3],
+      },
+    },
+  ],
+  createdAt: '2024-05-01T00:00:00.000Z',
+  fileLanguageByHash: { hash1: 'TypeScript' },
+  fileContents: { 'src/app.ts': 'const a = 1;\nconst b = 2;\nexport { a, b };' },
+  secretFindings: [{ path: 'src/app.ts', line: 1, ruleId: 'test-rule', excerpt: 'const a' }],
+  callGraph: [
+    { caller: 'start', callee: 'stop', path: 'src/app.ts', line: 5, column: 3 },
+    { caller: 'stop', callerContainer: 'Server', callee: 'exit', path: 'src/app.ts', line: 9, column: 5 },
+  ],
+};
+
+async function toJsonl(result: IndexResult, contextHeaders = false): Promise<string> {
+  const stream = new PassThrough();
+  const parts: string[] = [];
+  stream.on('data', (chunk) => parts.push(chunk.toString('utf8')));
+  await exportIndexToJsonl(result, stream, { contextHeaders });
+  stream.end();
+  return parts.join('');
+}
+
+describe('export readers', () => {
+  it('rebuilds an index from JSONL', async () => {
+    const records = await readIndexFromJsonl(Readable.from([await toJsonl(index)]));
+    const rebuilt = buildIndexFromRecords(records);
+
+    expect(rebuilt.spec).toEqual(index.spec);
+    expect(rebuilt.ref).toBe('abc123');
+    expect(rebuilt.createdAt).toBe(index.createdAt);
+    expect(rebuilt.chunks).toEqual(index.chunks);
+    expect(rebuilt.secretFindings).toEqual(index.secretFindings);
+    expect(rebuilt.fileLanguageByHash).toEqual(index.fileLanguageByHash);
+    expect(rebuilt.fileContents).toEqual(index.fileContents);
+    expect(rebuilt.callGraph).toEqual(index.callGraph);
+  });
+
+  it('exports contextual text to JSONL and drops it on import', async () => {
+    const jsonl = await toJsonl(index, true);
+    const chunkRecord = jsonl
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+      .find((record) => record.type === 'chunk' && record.data.id === 'chunk-2');
+    const rebuilt = buildIndexFromRecords(await readIndexFromJsonl(Readable.from([jsonl])));
+
+    expect(chunkRecord.data.contextualText).toBe(
+      'File: src/app.ts\nLanguage: TypeScript\nLines: 3-3\nScope: exports\n\nexport { a, b };',
+    );
+    expect(chunkRecord.data.text).toBe('export { a, b };');
+    expect(rebuilt.chunks).toEqual(index.chunks);
+  });
+
+  it('rebuilds an index from SQLite', async () => {
+    const records = await readIndexFromSqlite(await buildSqliteBuffer(index));
+    const rebuilt = buildIndexFromRecords(records);
+
+    expect(rebuilt.ref).toBe('abc123');
+    expect(rebuilt.files).toEqual(index.files);
+    expect(rebuilt.chunks).toEqual(index.chunks);
+    expect(rebuilt.secretFindings).toEqual(index.secretFindings);
+    expect(rebuilt.fileContents).toEqual(index.fileContents);
+    expect(rebuilt.callGraph).toEqual(index.callGraph);
+  });
+
+  it('reads the same chunks back from JSONL and SQLite', async () => {
+    const fromJsonl = buildIndexFromRecords(await readIndexFromJsonl(Readable.from([await toJsonl(index)])));
+    const fromSqlite = buildIndexFromRecords(await readIndexFromSqlite(await buildSqliteBuffer(index)));
+
+    expect(fromSqlite.chunks).toEqual(fromJsonl.chunks);
+    expect(fromSqlite.chunks[0].metadata).toMatchObject({
+      contextHeader: 'File: src/app.ts\nLanguage: TypeScript\nLines: 1-2',
+      contextHeaderTokens: 9,
+    });
+  });
+
+  it('requires a spec for exports without index metadata', async () => {
+    const legacy = (await toJsonl(index))
+      .split('\n')
+      .filter((line) => !line.includes('"type":"index"'))
+      .join('\n');
+    const records = await readIndexFromJsonl(Readable.from([legacy]));
+    expect(() => buildIndexFromRecords(records)).toThrow(/does not record its repository/);
+    const rebuilt = buildIndexFromRecords(records, { spec: { type: 'filesystem', path: '/srv/repo' }, ref: 'v1' });
+    expect(rebuilt.ref).toBe('v1');
+    expect(rebuilt.chunks).toHaveLength(2);
+  });
+
+  it('reports malformed JSONL lines', async () => {
+    await expect(readIndexFromJsonl(Readable.from(['{"type":"file","data":{}}\nnot json\n']))).rejects.toThrow(
+      /line 2/,
+    );
+  });
+});
+
+describe('importIndexFromFile', () => {
+  it('registers an imported export so a fresh manager can serve it', async () => {
+    await withTempDir(async (dir) => {
+      const exportPath = join(dir, 'index.jsonl');
+      const stream = createWriteStream(exportPath, { encoding: 'utf8' });
+      await exportIndexToJsonl(index, stream);
+      stream.end();
+      await once(stream, 'close');
+
+      const spec = { type: 'filesystem' as const, path: join(dir, 'missing-repo') };
+      const storeDir = join(dir, 'store');
+      const imported = await importIndexFromFile(exportPath, { spec });
+      await new IndexManager({ store: new DirectoryIndexStore(storeDir) }).registerIndex(imported);
+
+      const manager = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      expect(await manager.restoreIndexes(spec)).toBe(1);
+      expect(manager.getIndex(spec, 'abc123')?.chunks).toHaveLength(2);
+      expect(manager.listFiles(spec, { ref: 'abc123' })).toHaveLength(1);
+    });
+  });
+
+  it('rebuilds symbols, dependencies and test coverage of a compacted index on registration', async () => {
+    await withTempDir(async (dir) => {
+      await mkdir(join(dir, 'repo', 'src'), { recursive: true });
+      await writeFile(join(dir, 'repo', 'src', 'format.ts'), 'export function formatName(name: string) {\n  return name.trim();\n}\n');
+      await writeFile(
+        join(dir, 'repo', 'src', 'user.ts'),
+        "import { formatName } from './format';\n\n// Labels a user.\nexport function label(name: string) {\n  return formatName(name);\n}\n",
+      );
+      await writeFile(join(dir, 'repo', 'src', 'user.test.ts'), "import { label } from './user';\nlabel('ada');\n");
+      const spec = { type: 'filesystem' as const, path: join(dir, 'repo') };
+      const original = await new IndexManager().indexRepository(spec, {
+        scanSecrets: false,
+        compaction: { stripComments: true },
+      });
+
+      const imported = buildIndexFromRecords(await readIndexFromJsonl(Readable.from([await toJsonl(original)])));
+      expect(imported.fileContents['src/user.ts'].split('\n').slice(2, 5)).toEqual([
+        '',
+        'export function label(name: string) {',
+        '  return formatName(name);',
+      ]);
+
+      const manager = new IndexManager();
+      await manager.registerIndex(imported);
+      const registered = manager.getIndex(spec)!;
+      expect(manager.findReferences(spec, 'formatName').references.map((reference) => reference.line)).toEqual([1, 5]);
+      expect(original.dependencyGraph?.['src/user.ts']).toHaveLength(1);
+      expect(original.testCoverage?.['src/user.test.ts']).toContain('src/user.ts');
+      expect(registered.dependencyGraph).toEqual(original.dependencyGraph);
+      expect(registered.testCoverage).toEqual(original.testCoverage);
+    });
+  });
+
+  it('serves the call graph of an imported SQLite export', async () => {
+    await withTempDir(async (dir) => {
+      await mkdir(join(dir, 'repo'));
+      await writeFile(
+        join(dir, 'repo', 'app.ts'),
+        'export function main() {\n  serve();\n}\nfunction serve() {\n  listen();\n}\nfunction listen() {}\n',
+      );
+      const spec = { type: 'filesystem' as const, path: join(dir, 'repo') };
+      const source = new IndexManager();
+      const original = await source.indexRepository(spec, { scanSecrets: false });
+
+      const manager = new IndexManager();
+      await manager.registerIndex(buildIndexFromRecords(await readIndexFromSqlite(await buildSqliteBuffer(original))));
+      const graph = manager.getCallGraph(spec, 'main');
+
+      expect(graph).toEqual(source.getCallGraph(spec, 'main'));
+      expect(graph.nodes.map((node) => node.symbol)).toEqual(['main', 'serve', 'listen']);
+      expect(graph.nodes[0].definitions).toEqual([{ path: 'app.ts', line: 1, endLine: 3, kind: 'function', exported: true }]);
+    });
+  });
+
+  it('detects SQLite exports and decrypts encrypted ones', async () => {
+    await withTempDir(async (dir) => {
+      await mkdir(join(dir, 'out'), { recursive: true });
+      const sqlitePath = join(dir, 'out', 'index.bin');
+      const buffer = await buildSqliteBuffer(index);
+      await writeFile(sqlitePath, buffer);
+      expect((await importIndexFromFile(sqlitePath)).chunks).toHaveLength(2);
+
+      const encryptedPath = join(dir, 'out', 'index.sqlite');
+      await writeFile(encryptedPath, encryptBuffer(buffer, 'secret'));
+      await expect(importIndexFromFile(encryptedPath)).rejects.toThrow(/encrypted/);
+      expect((await importIndexFromFile(encryptedPath, { password: 'secret' })).ref).toBe('abc123');
+
+      const encryptedJsonl = join(dir, 'out', 'index.jsonl');
+      await writeFile(encryptedJsonl, encryptBuffer(Buffer.from(await toJsonl(index)), 'secret'));
+      expect((await importIndexFromFile(encryptedJsonl, { password: 'secret' })).chunks).toEqual(index.chunks);
+      await expect(importIndexFromFile(encryptedJsonl, { password: 'wrong' })).rejects.toThrow(/wrong password/);
+    });
+  });
+});
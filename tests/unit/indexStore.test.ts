@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager, DirectoryIndexStore, SqliteIndexStore, createIndexStore } from '../../src/indexer';
+import type { IndexResult } from '../../src/indexer';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-store-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function sampleIndex(ref: string, createdAt: string): IndexResult {
+  return {
+    spec: { type: 'filesystem', path: '/tmp/repo' },
+    ref,
+    files: [{ path: 'a.txt', size: 5, hash: 'hash-a', executable: false }],
+    chunks: [],
+    createdAt,
+    fileLanguageByHash: { 'hash-a': undefined },
+    fileContents: { 'a.txt': 'hello' },
+    secretFindings: [],
+  };
+}
+
+describe('Index stores', () => {
+  it('DirectoryIndexStore round-trips index results', async () => {
+    await withTempDir(async (dir) => {
+      const store = new DirectoryIndexStore(join(dir, 'indexes'));
+      expect(await store.list()).toEqual([]);
+
+      await store.save('filesystem:/tmp/repo:v1', sampleIndex('v1', '2024-01-01T00:00:00.000Z'));
+      const loaded = await store.load('filesystem:/tmp/repo:v1');
+      expect(loaded?.fileContents['a.txt']).toBe('hello');
+      expect(await store.load('filesystem:/tmp/repo:missing')).toBeUndefined();
+
+      const entries = await store.list();
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ key: 'filesystem:/tmp/repo:v1', ref: 'v1' });
+
+      await store.delete('filesystem:/tmp/repo:v1');
+      expect(await store.list()).toEqual([]);
+    });
+  });
+
+  it('SqliteIndexStore round-trips index results', async () => {
+    await withTempDir(async (dir) => {
+      const store = createIndexStore({ type: 'sqlite', path: join(dir, 'indexes.sqlite') });
+      expect(store).toBeInstanceOf(SqliteIndexStore);
+      expect(await store.list()).toEqual([]);
+
+      await store.save('filesystem:/tmp/repo:v2', sampleIndex('v2', '2024-01-02T00:00:00.000Z'));
+      await store.save('filesystem:/tmp/repo:v1', sampleIndex('v1', '2024-01-01T00:00:00.000Z'));
+
+      const entries = await store.list();
+      expect(entries.map((entry) => entry.ref)).toEqual(['v1', 'v2']);
+      expect((await store.load('filesystem:/tmp/repo:v2'))?.ref).toBe('v2');
+
+      await store.delete('filesystem:/tmp/repo:v2');
+      expect(await store.load('filesystem:/tmp/repo:v2')).toBeUndefined();
+    });
+  });
+
+  it('SqliteIndexStore keeps every concurrent save', async () => {
+    await withTempDir(async (dir) => {
+      const path = join(dir, 'indexes.sqlite');
+      const stores = [new SqliteIndexStore(path), new SqliteIndexStore(path)];
+      const refs = Array.from({ length: 6 }, (_, index) => `v${index}`);
+
+      await Promise.all(
+        refs.map((ref, index) =>
+          stores[index % 2].save(`filesystem:/tmp/repo:${ref}`, sampleIndex(ref, `2024-01-0${index + 1}T00:00:00.000Z`)),
+        ),
+      );
+
+      expect((await stores[0].list()).map((entry) => entry.ref)).toEqual(refs);
+      expect(await readdir(dir)).toEqual(['indexes.sqlite']);
+    });
+  });
+
+  it('rejects unsupported store types', () => {
+    expect(() => createIndexStore({ type: 'redis' as 'sqlite', path: 'x' })).toThrow(/Unsupported index store type/);
+  });
+});
+
+describe('IndexManager with an index store', () => {
+  it('persists runs and restores them in a fresh manager', async () => {
+    await withTempDir(async (dir) => {
+      const repoDir = join(dir, 'repo');
+      const storeDir = join(dir, 'store');
+      await mkdir(repoDir, { recursive: true });
+      await writeFile(join(repoDir, 'a.txt'), 'alpha');
+      await writeFile(join(repoDir, 'b.txt'), 'bravo');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+
+      const first = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      await first.indexRepository(spec, { scanSecrets: false });
+      expect(await readdir(storeDir)).toHaveLength(1);
+
+      const second = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      expect(second.getIndex(spec)).toBeUndefined();
+      expect(await second.restoreIndexes(spec)).toBe(1);
+      expect(second.getIndex(spec)?.files).toHaveLength(2);
+      expect(second.getLatestIndex(spec)?.fileContents['a.txt']).toBe('alpha');
+    });
+  });
+
+  it('diffs incremental runs against the persisted index across managers', async () => {
+    await withTempDir(async (dir) => {
+      const repoDir = join(dir, 'repo');
+      const storeDir = join(dir, 'store');
+      await mkdir(repoDir, { recursive: true });
+      await writeFile(join(repoDir, 'a.txt'), 'version1');
+      await writeFile(join(repoDir, 'b.txt'), 'unchanged');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+
+      const first = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      const initial = await first.indexRepository(spec, { scanSecrets: false });
+
+      await writeFile(join(repoDir, 'a.txt'), 'version2');
+      const second = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      const updated = await second.indexRepository(spec, {
+        scanSecrets: false,
+        incremental: true,
+        includePaths: ['a.txt'],
+      });
+
+      expect(updated.files.map((file) => file.path)).toEqual(['a.txt', 'b.txt']);
+      expect(updated.fileContents['a.txt']).toBe('version2');
+      const chunkIds = (result: IndexResult) =>
+        result.chunks.filter((chunk) => chunk.metadata.path === 'b.txt').map((chunk) => chunk.id);
+      expect(chunkIds(updated)).toEqual(chunkIds(initial));
+    });
+  });
+
+  it('restores only the latest index, loads other refs on demand and caps the indexes in memory', async () => {
+    await withTempDir(async (dir) => {
+      const storeDir = join(dir, 'store');
+      const store = new DirectoryIndexStore(storeDir);
+      const spec = sampleIndex('v1', '').spec;
+      for (const [ref, createdAt] of [['v1', '2024-01-01'], ['v3', '2024-03-01'], ['v2', '2024-02-01']]) {
+        await store.save(`filesystem:/tmp/repo:${ref}`, sampleIndex(ref, `${createdAt}T00:00:00.000Z`));
+      }
+
+      const manager = new IndexManager({ store: new DirectoryIndexStore(storeDir), maxIndexesInMemory: 2 });
+      expect(await manager.restoreIndexes(spec)).toBe(1);
+      expect(manager.getLatestIndex(spec)?.ref).toBe('v3');
+      expect(manager.getIndex(spec, 'v1')).toBeUndefined();
+
+      expect((await manager.loadIndex(spec, 'v1'))?.ref).toBe('v1');
+      expect(await manager.restoreIndexes(spec, 'v2')).toBe(1);
+      expect(manager.getIndex(spec, 'v3')).toBeUndefined();
+      expect(manager.getIndex(spec, 'v1')?.ref).toBe('v1');
+      expect((await manager.loadIndex(spec, 'v3'))?.ref).toBe('v3');
+    });
+  });
+
+  it('does not persist dry runs', async () => {
+    await withTempDir(async (dir) => {
+      const repoDir = join(dir, 'repo');
+      const storeDir = join(dir, 'store');
+      await mkdir(repoDir, { recursive: true });
+      await writeFile(join(repoDir, 'a.txt'), 'alpha');
+
+      const manager = new IndexManager({ store: new DirectoryIndexStore(storeDir) });
+      await manager.indexRepository({ type: 'filesystem', path: repoDir }, { scanSecrets: false, dryRun: true });
+      expect(await new DirectoryIndexStore(storeDir).list()).toEqual([]);
+    });
+  });
+});
@@ -3,6 +3,7 @@ import { mkdtemp, writeFile, rm, mkdir } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { IndexManager } from '../../src/indexer';
+import { tokenizerRegistry } from '../../src/chunker';
 
 async function createTempDir(prefix: string) {
   return mkdtemp(join(tmpdir(), prefix));
@@ -188,6 +189,173 @@ describe('IndexManager', () => {
     }
   });
 
+  it('chunks supported languages by syntax and records scopes', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-syntax-');
+    try {
+      const source = 'export class Service {\n  start() {\n    return true;\n  }\n}\n\nexport function boot() {\n  return new Service();\n}\n';
+      await writeFile(join(repoDir, 'service.ts'), source);
+      await writeFile(join(repoDir, 'notes.txt'), 'plain text');
+
+      const result = await manager.indexRepository({ type: 'filesystem', path: repoDir }, {
+        scanSecrets: false,
+        chunking: { strategy: 'syntax' },
+      });
+
+      const sections = result.chunks
+        .filter((chunk) => chunk.metadata.path === 'service.ts')
+        .map((chunk) => chunk.metadata.section);
+      expect(sections).toEqual(['class Service', 'function boot']);
+      expect(result.chunks.filter((chunk) => chunk.metadata.path === 'notes.txt')).toHaveLength(1);
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('indexes notebooks cell by cell without outputs', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-notebook-');
+    try {
+      const notebook = {
+        metadata: { kernelspec: { language: 'python' } },
+        cells: [
+          { cell_type: 'markdown', source: '# Title' },
+          { cell_type: 'code', source: 'x = 1\nprint(x)', outputs: [{ output_type: 'stream', text: '1\n' }] },
+        ],
+      };
+      await writeFile(join(repoDir, 'analysis.ipynb'), JSON.stringify(notebook));
+
+      const result = await manager.indexRepository({ type: 'filesystem', path: repoDir }, {
+        scanSecrets: false,
+        chunking: { strategy: 'lines', targetLines: 50 },
+      });
+
+      expect(result.files[0].language).toBe('Python');
+      expect(result.fileContents['analysis.ipynb']).toBe('# Title\n\nx = 1\nprint(x)');
+      expect(
+        result.chunks.map((chunk) => [chunk.metadata.cellIndex, chunk.metadata.cellType, chunk.text]),
+      ).toEqual([
+        [0, 'markdown', '# Title'],
+        [1, 'code', 'x = 1\nprint(x)'],
+      ]);
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('records token counts for extra tokenizers and filters chunks by them', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-token-counts-');
+    tokenizerRegistry.register({ id: 'chars', create: () => ({ id: 'chars', count: (text: string) => text.length }) });
+    try {
+      await writeFile(join(repoDir, 'a.txt'), 'alpha beta gamma');
+      await writeFile(join(repoDir, 'b.txt'), 'x');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+
+      const result = await manager.indexRepository(spec, {
+        scanSecrets: false,
+        tokenCounts: ['basic', 'chars'],
+      });
+
+      expect(
+        result.chunks.map((chunk) => [chunk.metadata.path, chunk.metadata.tokenCounts]).sort(),
+      ).toEqual([
+        ['a.txt', { basic: 3, chars: 16 }],
+        ['b.txt', { basic: 1, chars: 1 }],
+      ]);
+      expect(manager.listChunks(spec, { maxTokens: 5 })).toHaveLength(2);
+      expect(manager.listChunks(spec, { maxTokens: 5, tokenizer: 'chars' }).map((chunk) => chunk.metadata.path)).toEqual([
+        'b.txt',
+      ]);
+      const pack = await manager.buildContextPack(spec, { tokenizer: 'chars' });
+      expect(pack.totalTokens).toBe(17);
+    } finally {
+      tokenizerRegistry.unregister('chars');
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('returns chunks with context headers counted against the context pack budget', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-context-headers-');
+    try {
+      await writeFile(join(repoDir, 'a.txt'), 'alpha beta gamma');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      const result = await manager.indexRepository(spec, { scanSecrets: false, chunking: { contextHeaders: true } });
+      const [chunk] = result.chunks;
+
+      expect(chunk.text).toBe('alpha beta gamma');
+      expect(chunk.metadata.contextHeader).toBe('File: a.txt\nLines: 1-1');
+      expect(manager.getChunk(spec, chunk.id)).not.toHaveProperty('contextualText');
+      expect(manager.getChunk(spec, chunk.id, undefined, { contextHeaders: true })).toMatchObject({
+        contextualText: 'File: a.txt\nLines: 1-1\n\nalpha beta gamma',
+      });
+
+      const pack = await manager.buildContextPack(spec, { contextHeaders: true });
+      expect(pack.totalTokens).toBe(chunk.metadata.tokenCount + (chunk.metadata.contextHeaderTokens ?? 0));
+      expect(pack.chunks[0]).toMatchObject({ contextualText: expect.stringContaining('alpha beta gamma') });
+      expect(await manager.buildContextPack(spec, { contextHeaders: true, maxTokens: chunk.metadata.tokenCount })).toMatchObject({
+        totalChunks: 0,
+      });
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('chunks compacted text while keeping source line numbers', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-compaction-');
+    try {
+      const source = [
+        '// Copyright Example Corp.',
+        "import { join } from 'node:path';",
+        '',
+        'export function locate(root: string) {',
+        '  // resolve relative to the root',
+        "  return join(root, 'target');",
+        '}',
+      ].join('\n');
+      await writeFile(join(repoDir, 'locate.ts'), source);
+      const spec = { type: 'filesystem' as const, path: repoDir };
+
+      const result = await manager.indexRepository(spec, {
+        scanSecrets: false,
+        compaction: { stripComments: true, elideImports: true },
+      });
+      const [chunk] = result.chunks;
+
+      expect(chunk.text).toBe("export function locate(root: string) {\n  return join(root, 'target');\n}");
+      expect([chunk.metadata.startLine, chunk.metadata.endLine]).toEqual([4, 7]);
+      expect(chunk.metadata.lineMap).toEqual([4, 6, 7]);
+      expect(manager.searchText(spec, 'target').matches).toEqual([
+        { path: 'locate.ts', line: 6, excerpt: "return join(root, 'target');", score: expect.any(Number), chunkId: chunk.id },
+      ]);
+      expect(result.fileContents['locate.ts']).toBe(source);
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('stores file skeletons and builds them on demand', async () => {
+    const repoDir = await createTempDir('repo-tokenizer-skeletons-');
+    try {
+      await writeFile(join(repoDir, 'math.ts'), 'export function add(a: number, b: number): number {\n  return a + b;\n}\n');
+      await writeFile(join(repoDir, 'notes.txt'), 'plain text');
+      const spec = { type: 'filesystem' as const, path: repoDir };
+
+      const result = await manager.indexRepository(spec, { scanSecrets: false, skeletons: true });
+
+      expect(Object.keys(result.skeletons ?? {})).toEqual(['math.ts']);
+      expect(result.skeletons?.['math.ts']).toMatchObject({
+        text: 'export function add(a: number, b: number): number { ... }',
+        lineMap: [1],
+      });
+      expect((await manager.getFileSkeleton(spec, 'notes.txt')).skeleton).toBeUndefined();
+
+      await manager.indexRepository(spec, { scanSecrets: false });
+      const file = await manager.getFileSkeleton(spec, 'math.ts');
+      expect(file.language).toBe('TypeScript');
+      expect(file.skeleton?.text).toBe('export function add(a: number, b: number): number { ... }');
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
   it('produces test coverage mapping and dependency graph', async () => {
     const repoDir = await createTempDir('repo-tokenizer-mapping-');
     try {
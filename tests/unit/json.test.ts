@@ -0,0 +1,11 @@
+import { describe, it, expect } from 'vitest';
+import { stableStringify } from '../../src/common/json';
+
+describe('stableStringify', () => {
+  it('sorts keys by code unit regardless of locale', () => {
+    expect(stableStringify({ b: 1, a: { z: true, Z: false }, B: undefined, _: [/x/g] })).toBe(
+      '{"_":["/x/g"],"a":{"Z":false,"z":true},"b":1}',
+    );
+    expect(stableStringify({ 'é': 1, z: 2, 'a-b': 3, a_b: 4 })).toBe('{"a-b":3,"a_b":4,"z":2,"é":1}');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, writeFile, appendFile } from 'node:fs/promises';
+import { generateKeyPairSync } from 'node:crypto';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  buildExportManifest,
+  defaultManifestPath,
+  signExportManifest,
+  verifyExportManifest,
+  writeExportManifest,
+} from '../../src/exporters/manifest';
+import { decryptBuffer } from '../../src/exporters/encryption';
+import { runCli } from '../../src/cli';
+import type { IndexResult } from '../../src/indexer';
+
+async function withTempDir(fn: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-manifest-'));
+  try {
+    await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+function generateEd25519() {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  };
+}
+
+const index: IndexResult = {
+  spec: { type: 'git', path: '/repo' },
+  ref: 'deadbeef',
+  files: [{ path: 'a.txt', size: 5, hash: 'hash-a', executable: false }],
+  chunks: [],
+  createdAt: '2024-05-01T00:00:00.000Z',
+  fileLanguageByHash: {},
+  fileContents: { 'a.txt': 'hello' },
+  secretFindings: [],
+  chunking: { tokenizer: { id: 'basic', version: '1' }, options: { strategy: 'lines', targetLines: 200 } },
+};
+
+describe('export manifests', () => {
+  it('records the artifact checksum and index details', async () => {
+    await withTempDir(async (dir) => {
+      const artifact = join(dir, 'index.jsonl');
+      await writeFile(artifact, '{"type":"file"}\n');
+      const manifest = await buildExportManifest(index, { artifactPath: artifact, format: 'jsonl', ref: 'main' });
+
+      expect(manifest.artifact).toMatchObject({ path: 'index.jsonl', format: 'jsonl', size: 16, encrypted: false });
+      expect(manifest.artifact.sha256).toMatch(/^[0-9a-f]{64}$/);
+      expect(manifest).toMatchObject({ ref: 'main', commit: 'deadbeef', createdAt: index.createdAt });
+      expect(manifest.counts).toEqual({ files: 1, chunks: 0, secretFindings: 0 });
+      expect(manifest.chunking?.tokenizer.id).toBe('basic');
+
+      await writeExportManifest(manifest, defaultManifestPath(artifact));
+      expect(await verifyExportManifest(defaultManifestPath(artifact))).toMatchObject({ valid: true, signed: false });
+
+      await appendFile(artifact, 'tampered');
+      const result = await verifyExportManifest(defaultManifestPath(artifact));
+      expect(result.valid).toBe(false);
+      expect(result.errors.join('\n')).toMatch(/SHA-256 mismatch/);
+    });
+  });
+
+  it('signs manifests with Ed25519 and checks them against a trusted key', async () => {
+    await withTempDir(async (dir) => {
+      const artifact = join(dir, 'index.sqlite');
+      await writeFile(artifact, 'sqlite bytes');
+      const manifestPath = defaultManifestPath(artifact);
+      const keys = generateEd25519();
+      const signed = signExportManifest(
+        await buildExportManifest(index, { artifactPath: artifact, format: 'sqlite' }),
+        keys.privateKey,
+      );
+      await writeExportManifest(signed, manifestPath);
+
+      expect(await verifyExportManifest(manifestPath, { publicKey: keys.publicKey })).toMatchObject({
+        valid: true,
+        signed: true,
+        warnings: [],
+      });
+      const embedded = await verifyExportManifest(manifestPath);
+      expect(embedded.valid).toBe(true);
+      expect(embedded.warnings.join('\n')).toMatch(/embedded in the manifest.*not origin/);
+
+      const other = generateEd25519();
+      const untrusted = await verifyExportManifest(manifestPath, { publicKey: other.publicKey });
+      expect(untrusted.errors).toContain('Signature does not match the trusted public key');
+
+      const edited = JSON.parse(await readFile(manifestPath, 'utf8'));
+      edited.counts.chunks = 42;
+      await writeFile(manifestPath, JSON.stringify(edited));
+      expect((await verifyExportManifest(manifestPath)).errors).toContain('Signature is invalid');
+    });
+  });
+
+  it('requires a signature when a trusted key is given', async () => {
+    await withTempDir(async (dir) => {
+      const artifact = join(dir, 'index.parquet');
+      await writeFile(artifact, 'parquet bytes');
+      const manifestPath = join(dir, 'manifest.json');
+      await writeExportManifest(await buildExportManifest(index, { artifactPath: artifact, format: 'parquet' }), manifestPath);
+
+      const result = await verifyExportManifest(manifestPath, { publicKey: generateEd25519().publicKey });
+      expect(result).toMatchObject({ valid: false, signed: false, errors: ['Manifest is not signed'] });
+    });
+  });
+
+  it('marks encrypted prompt exports as encrypted', async () => {
+    await withTempDir(async (dir) => {
+      await mkdir(join(dir, 'repo'));
+      await writeFile(join(dir, 'repo', 'a.ts'), 'export const a = 1;\n');
+      const configPath = join(dir, 'config.json');
+      await writeFile(configPath, JSON.stringify({ repository: { type: 'filesystem', path: join(dir, 'repo') } }));
+      const artifact = join(dir, 'prompt.md');
+      await runCli(['node', 'cli', 'export', '--config', configPath, '--format', 'markdown', '--output', artifact,
+        '--encrypt', 'secret', '--manifest']);
+
+      const manifest = JSON.parse(await readFile(defaultManifestPath(artifact), 'utf8'));
+      expect(manifest.artifact).toMatchObject({ path: 'prompt.md', format: 'markdown', encrypted: true });
+      expect(decryptBuffer(await readFile(artifact), 'secret').toString('utf8')).toContain('export const a = 1;');
+      expect(await verifyExportManifest(defaultManifestPath(artifact))).toMatchObject({ valid: true });
+    });
+  });
+
+  it('rejects non-Ed25519 signing keys', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    expect(() =>
+      signExportManifest(
+        {
+          version: 1,
+          artifact: { path: 'x', format: 'jsonl', sha256: 'x', size: 0, encrypted: false },
+          repository: { type: 'filesystem' },
+          createdAt: index.createdAt,
+          counts: { files: 0, chunks: 0, secretFindings: 0 },
+        },
+        pem,
+      ),
+    ).toThrow(/requires an Ed25519 key/);
+  });
+});
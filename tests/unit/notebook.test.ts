@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { extractNotebook, readNotebookLanguage } from '../../src/normalization/notebook';
+import { detectLanguageFromPath } from '../../src/indexer/language';
+
+const notebook = JSON.stringify({
+  nbformat: 4,
+  metadata: { kernelspec: { name: 'ir', language: 'R' } },
+  cells: [
+    { cell_type: 'markdown', source: ['# Analysis\n', '\n', '\n', 'Loads the data.\n'] },
+    {
+      cell_type: 'code',
+      execution_count: 3,
+      source: 'df <- read.csv("data.csv")\nsummary(df)\n\n',
+      outputs: [
+        { output_type: 'stream', name: 'stdout', text: ['row 1\n', 'row 2\n'] },
+        { output_type: 'display_data', data: { 'image/png': 'iVBORw0KGgo=', 'text/plain': '<Figure>' } },
+      ],
+    },
+    { cell_type: 'raw', source: '\\begin{equation}' },
+    { cell_type: 'code', source: [] },
+    { cell_type: 'code', source: 'plot(df)' },
+  ],
+});
+
+describe('notebook extraction', () => {
+  it('keeps code and markdown cells with their line ranges and drops outputs', () => {
+    const result = extractNotebook(notebook);
+
+    expect(result.text).toBe(
+      ['# Analysis', '', 'Loads the data.', '', 'df <- read.csv("data.csv")', 'summary(df)', '', 'plot(df)'].join('\n'),
+    );
+    expect(result.cells).toEqual([
+      { index: 0, type: 'markdown', startLine: 1, endLine: 3 },
+      { index: 1, type: 'code', startLine: 5, endLine: 6 },
+      { index: 4, type: 'code', startLine: 8, endLine: 8 },
+    ]);
+    expect(result.language).toBe('R');
+  });
+
+  it('keeps truncated text outputs when asked, never images', () => {
+    const result = extractNotebook(notebook, { includeOutputs: true, maxOutputChars: 9 });
+    const lines = result.text.split('\n');
+
+    expect(lines.slice(4, 10)).toEqual([
+      'df <- read.csv("data.csv")',
+      'summary(df)',
+      'Out[3]:',
+      'row 1',
+      'row',
+      '... (output truncated)',
+    ]);
+    expect(result.text).not.toContain('iVBORw0KGgo');
+    expect(result.cells[1]).toMatchObject({ startLine: 5, endLine: 10 });
+  });
+
+  it('tags notebooks with the kernel language', () => {
+    expect(readNotebookLanguage('not json')).toBeUndefined();
+    expect(detectLanguageFromPath('analysis.ipynb', extractNotebook(notebook))).toBe('R');
+    const python = extractNotebook(JSON.stringify({ metadata: { language_info: { name: 'python' } }, cells: [] }));
+    expect(detectLanguageFromPath('analysis.ipynb', python)).toBe('Python');
+    expect(detectLanguageFromPath('analysis.ipynb')).toBe('Jupyter Notebook');
+  });
+});
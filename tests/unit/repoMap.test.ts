@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager } from '../../src/indexer';
+import { BasicTokenizer } from '../../src/chunker';
+
+let repoDir: string;
+const manager = new IndexManager();
+const spec = () => ({ type: 'filesystem' as const, path: repoDir });
+
+beforeAll(async () => {
+  repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-repo-map-'));
+  await mkdir(join(repoDir, 'src', 'util'), { recursive: true });
+  await writeFile(
+    join(repoDir, 'src', 'util', 'format.ts'),
+    [
+      'export function formatName(name: string): string {',
+      '  return name.trim();',
+      '}',
+      '',
+      'export function unusedHelper(): void {}',
+    ].join('\n'),
+  );
+  await writeFile(
+    join(repoDir, 'src', 'user.ts'),
+    [
+      "import { formatName } from './util/format';",
+      '',
+      'export class User {',
+      '  label(name: string) {',
+      '    return formatName(name);',
+      '  }',
+      '}',
+    ].join('\n'),
+  );
+  await writeFile(
+    join(repoDir, 'src', 'team.ts'),
+    [
+      "import { formatName } from './util/format';",
+      "import { User } from './user';",
+      '',
+      'export function teamLabel(user: User) {',
+      "  return formatName(user.label('team'));",
+      '}',
+    ].join('\n'),
+  );
+  await writeFile(join(repoDir, 'README.md'), '# Example');
+  await manager.indexRepository(spec(), { scanSecrets: false });
+});
+
+afterAll(async () => {
+  await rm(repoDir, { recursive: true, force: true });
+});
+
+describe('IndexManager.buildRepoMap', () => {
+  it('ranks files by references and renders a directory tree of their symbols', async () => {
+    const map = await manager.buildRepoMap(spec(), { maxTokens: 1000 });
+
+    expect(map.files.map((file) => file.path)).toEqual(['src/util/format.ts', 'src/user.ts', 'README.md', 'src/team.ts']);
+    expect(map.files[0].symbols.find((symbol) => symbol.name === 'formatName')?.references).toBe(2);
+    expect(map.text).toBe(
+      [
+        'README.md',
+        'src/',
+        '  team.ts',
+        '    4: export function teamLabel(user: User)',
+        '  user.ts',
+        '    3: export class User',
+        '    4: label(name: string)',
+        '  util/',
+        '    format.ts',
+        '      1: export function formatName(name: string): string',
+        '      5: export function unusedHelper(): void {}',
+      ].join('\n'),
+    );
+    expect(map.totalFiles).toBe(4);
+  });
+
+  it('keeps the highest ranked entries within the token budget', async () => {
+    const full = await manager.buildRepoMap(spec(), { maxTokens: 1000 });
+    const map = await manager.buildRepoMap(spec(), { maxTokens: 20 });
+
+    expect(map.totalTokens).toBeLessThanOrEqual(20);
+    expect(new BasicTokenizer().count(map.text)).toBe(map.totalTokens);
+    expect(map.files.length).toBeLessThan(full.files.length);
+    expect(map.files[0].path).toBe('src/util/format.ts');
+    expect(map.files[0].symbols.map((symbol) => symbol.name)).toEqual(['formatName']);
+  });
+
+  it('limits the map to files matching a glob', async () => {
+    const map = await manager.buildRepoMap(spec(), { pathGlob: 'src/*.ts' });
+
+    expect(map.files.map((file) => file.path)).toEqual(['src/user.ts', 'src/team.ts']);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager } from '../../src/indexer';
+import type { IndexChunk } from '../../src/indexer';
+import { SearchIndex, searchTerms } from '../../src/indexer/search';
+
+const chunk = (id: string, path: string, text: string): IndexChunk => ({
+  id,
+  text,
+  fileHash: path,
+  metadata: {
+    origin: 'file',
+    path,
+    startLine: 1,
+    endLine: text.split('\n').length,
+    tokenCount: 1,
+    charCount: text.length,
+    chunkIndex: 0,
+    totalChunks: 1,
+  },
+});
+
+const chunks = [
+  chunk('a', 'src/headers.ts', 'export function parseHttpHeader(line: string) {\n  return line.split(":");\n}'),
+  chunk('b', 'src/server.ts', 'const parsed = parseHttpHeader(raw);\nconst body = readBody(raw);\nlog(parsed, body);'),
+  chunk('c', 'docs/http.md', 'HTTP headers are parsed line by line.'),
+  chunk('d', 'src/body.ts', 'export function readBody(raw: string) {\n  return raw;\n}'),
+];
+
+describe('searchTerms', () => {
+  it('splits identifiers at camelCase and snake_case boundaries', () => {
+    expect(searchTerms('parseHTTPHeader max_line_len x')).toEqual([
+      'parsehttpheader',
+      'parse',
+      'http',
+      'header',
+      'max_line_len',
+      'max',
+      'line',
+      'len',
+    ]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('ranks chunks with BM25 and points at the best matching line', () => {
+    const result = SearchIndex.build(chunks).search('parse http header');
+
+    expect(result.total).toBe(2);
+    expect(result.matches.map((match) => [match.path, match.line])).toEqual([
+      ['src/headers.ts', 1],
+      ['src/server.ts', 1],
+    ]);
+    expect(result.matches[0].score).toBeGreaterThan(result.matches[1].score);
+    expect(result.matches[1]).toMatchObject({ chunkId: 'b', excerpt: 'const parsed = parseHttpHeader(raw);' });
+  });
+
+  it('pages through ranked matches and filters by path glob', () => {
+    const index = SearchIndex.build(chunks);
+
+    expect(index.search('parse http header', { offset: 1, limit: 1 })).toMatchObject({
+      matches: [{ path: 'src/server.ts' }],
+      total: 2,
+      offset: 1,
+      limit: 1,
+    });
+    expect(index.search('http', { pathGlob: 'src/**' }).total).toBe(2);
+    expect(index.search('readBody').matches.map((match) => [match.path, match.line])).toEqual([
+      ['src/body.ts', 1],
+      ['src/server.ts', 2],
+    ]);
+  });
+
+  it('reuses term counts of unchanged chunks from a base index', () => {
+    const base = SearchIndex.build(chunks);
+    const next = SearchIndex.build([...chunks.slice(0, 3), chunk('e', 'src/body.ts', 'export const size = 1;')], base);
+
+    expect(next.reusedDocuments).toBe(3);
+    expect(next.size).toBe(4);
+    expect(next.search('readBody').matches.map((match) => match.path)).toEqual(['src/server.ts']);
+  });
+});
+
+describe('IndexManager.searchText', () => {
+  it('keeps the search index current across incremental runs', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-search-'));
+    try {
+      await writeFile(join(repoDir, 'a.ts'), 'export const alphaValue = 1;');
+      await writeFile(join(repoDir, 'b.ts'), 'export const betaValue = 2;');
+      const manager = new IndexManager();
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+      expect(manager.searchText(spec, 'beta').matches.map((match) => match.path)).toEqual(['b.ts']);
+
+      await writeFile(join(repoDir, 'b.ts'), 'export const gammaValue = 3;');
+      await manager.indexRepository(spec, { scanSecrets: false, incremental: true, includePaths: ['b.ts'] });
+
+      expect(manager.searchText(spec, 'beta').total).toBe(0);
+      expect(manager.searchText(spec, 'value').matches.map((match) => match.path).sort()).toEqual(['a.ts', 'b.ts']);
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+});
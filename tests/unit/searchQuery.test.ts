@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { IndexManager } from '../../src/indexer';
+import type { IndexChunk } from '../../src/indexer';
+import { parsePaging, parseSearchQuery } from '../../src/indexer/query';
+import { SearchIndex } from '../../src/indexer/search';
+import { createServer } from '../../src/api/server';
+import { McpToolAdapter } from '../../src/mcp/adapter';
+
+const chunk = (id: string, path: string, text: string): IndexChunk => ({
+  id,
+  text,
+  fileHash: path,
+  metadata: {
+    origin: 'file',
+    path,
+    startLine: 1,
+    endLine: text.split('\n').length,
+    tokenCount: 1,
+    charCount: text.length,
+    chunkIndex: 0,
+    totalChunks: 1,
+  },
+});
+
+const chunks = [
+  chunk('a', 'src/headers.ts', 'export function parseHttpHeader(line: string) {\n  return line.split(":");\n}'),
+  chunk('b', 'src/server.ts', 'const parsed = parseHttpHeader(raw);\nconst body = readBody(raw);\nlog(parsed, body);'),
+  chunk('c', 'docs/http.md', 'HTTP headers are parsed line by line.\nSee RFC 9110 and RFC 9112.'),
+  chunk('d', 'src/body.ts', 'export function readBody(raw: string) {\n  return raw;\n}'),
+];
+
+const paths = (query: string) =>
+  SearchIndex.build(chunks)
+    .search(query)
+    .matches.map((match) => match.path);
+
+describe('parseSearchQuery', () => {
+  it('parses implicit AND, OR, NOT, groups, phrases, regexes and fields', () => {
+    expect(parseSearchQuery('parse (http OR "raw body") -path:docs/** /rfc \\d+/i').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'word', value: 'parse' },
+        {
+          type: 'or',
+          children: [
+            { type: 'word', value: 'http' },
+            { type: 'phrase', value: 'raw body' },
+          ],
+        },
+        { type: 'not', child: { type: 'field', field: 'path', value: 'docs/**' } },
+        { type: 'regex', pattern: /rfc \d+/i },
+      ],
+    });
+    expect(parseSearchQuery('lang:"c++" NOT test:true').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'field', field: 'lang', value: 'c++' },
+        { type: 'not', child: { type: 'field', field: 'test', value: 'true' } },
+      ],
+    });
+    expect(parseSearchQuery('std::move http://example.com').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'word', value: 'std::move' },
+        { type: 'word', value: 'http://example.com' },
+      ],
+    });
+  });
+
+  it('rejects invalid queries with the column of the problem', () => {
+    expect(() => parseSearchQuery('   ')).toThrow('Invalid search query: the query is empty');
+    expect(() => parseSearchQuery('parse "http')).toThrow('column 7: unterminated phrase');
+    expect(() => parseSearchQuery('/foo(/')).toThrow(/column 1: invalid regular expression \/foo\(\//);
+    expect(() => parseSearchQuery('/foo/g')).toThrow('unsupported regular expression flags "g"');
+    expect(() => parseSearchQuery(`/${'a'.repeat(257)}/`)).toThrow('column 1: regular expression longer than 256');
+    for (const pattern of ['/(a+)+$/', '/(\\w*\\s?)*x/', '/((ab)*c){2,}/', '/x(?:[a-z]+\\d){3}/']) {
+      expect(() => parseSearchQuery(pattern)).toThrow('repeats a group that contains a repeat');
+    }
+    expect(parseSearchQuery('/(ab)+[+*]{2}(\\d+)\\(x+\\)*/').root.type).toBe('regex');
+    expect(() => parseSearchQuery('parse OR')).toThrow('column 9: expected a term after OR');
+    expect(() => parseSearchQuery('(parse http')).toThrow('column 1: missing closing parenthesis');
+    expect(() => parseSearchQuery('parse)')).toThrow('column 6: unexpected ")"');
+    expect(() => parseSearchQuery('owner:me')).toThrow('column 1: unknown field "owner"');
+    expect(() => parseSearchQuery('test:yes')).toThrow('test: expects true or false, got "yes"');
+  });
+});
+
+describe('SearchIndex queries', () => {
+  it('applies boolean operators, phrases and regular expressions', () => {
+    expect(paths('parse http header')).toEqual(['src/headers.ts', 'src/server.ts']);
+    expect(paths('parseHttpHeader OR readBody')).toEqual(['src/server.ts', 'src/headers.ts', 'src/body.ts']);
+    expect(paths('parseHttpHeader -readBody')).toEqual(['src/headers.ts']);
+    expect(paths('"headers are parsed"')).toEqual(['docs/http.md']);
+    expect(paths('/RFC 911[02]/')).toEqual(['docs/http.md']);
+    expect(paths('path:src/** ext:ts -body')).toEqual(['src/headers.ts']);
+    expect(paths('ext:.md OR path:body')).toEqual(['docs/http.md', 'src/body.ts']);
+  });
+
+  it('shows the line matching a phrase or regular expression', () => {
+    const [match] = SearchIndex.build(chunks).search('/RFC \\d+/').matches;
+
+    expect(match).toMatchObject({ path: 'docs/http.md', line: 2, excerpt: 'See RFC 9110 and RFC 9112.', score: 0 });
+  });
+});
+
+describe('IndexManager.searchText queries', () => {
+  it('filters by language, test files and symbol definitions', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-query-'));
+    try {
+      await mkdir(join(repoDir, 'src'));
+      await mkdir(join(repoDir, 'tests'));
+      await writeFile(join(repoDir, 'src/render.ts'), 'export function renderPage(title: string) {\n  return title;\n}\n');
+      await writeFile(join(repoDir, 'src/render.py'), 'def render_page(title):\n    return title\n');
+      await writeFile(
+        join(repoDir, 'tests/render.test.ts'),
+        "import { renderPage } from '../src/render';\nrenderPage('title');\n",
+      );
+      const manager = new IndexManager();
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+      const search = (query: string) =>
+        manager
+          .searchText(spec, query)
+          .matches.map((match) => match.path)
+          .sort();
+
+      expect(search('title lang:python')).toEqual(['src/render.py']);
+      expect(search('title test:false')).toEqual(['src/render.py', 'src/render.ts']);
+      expect(search('renderPage test:true')).toEqual(['tests/render.test.ts']);
+      expect(search('symbol:renderpage')).toEqual(['src/render.ts']);
+      expect(() => manager.searchText(spec, 'title AND')).toThrow('expected a term after AND');
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('search paging', () => {
+  it('accepts non-negative integers from query strings and tool arguments', () => {
+    expect(parsePaging({ offset: '20', limit: 5 })).toEqual({ offset: 20, limit: 5 });
+    expect(parsePaging({ offset: '', limit: undefined })).toEqual({});
+    for (const params of [{ offset: '-1' }, { offset: -1 }, { limit: 'abc' }, { limit: 1.5 }, { limit: '1e3' }]) {
+      expect(() => parsePaging(params)).toThrow(/must be a non-negative integer/);
+    }
+  });
+
+  it('rejects invalid paging and queries the same way over REST and MCP', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-paging-'));
+    try {
+      await writeFile(join(repoDir, 'a.ts'), 'export const alpha = 1;\n');
+      const manager = new IndexManager();
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+      const app = createServer(manager, { spec });
+      const adapter = new McpToolAdapter({ indexManager: manager, spec });
+      const get = async (url: string) => {
+        const response = await app.inject({ method: 'GET', url });
+        return { status: response.statusCode, body: response.json() };
+      };
+
+      for (const path of ['/search', '/search/semantic']) {
+        expect(await get(`${path}?q=alpha&offset=-1`)).toEqual({
+          status: 400,
+          body: { error: 'offset must be a non-negative integer' },
+        });
+        expect(await get(`${path}?q=alpha&limit=abc`)).toEqual({
+          status: 400,
+          body: { error: 'limit must be a non-negative integer' },
+        });
+        expect((await get(`${path}?q=${encodeURIComponent('alpha AND')}`)).status).toBe(400);
+      }
+      expect((await get('/symbols/alpha/references?limit=abc')).status).toBe(400);
+      expect((await get('/search?q=alpha&offset=0&limit=1')).body.total).toBe(1);
+
+      for (const tool of ['search_text', 'search_semantic']) {
+        const handler = adapter.getTool(tool)!.handler;
+        await expect(handler({ q: 'alpha', offset: -1 }, {} as never)).rejects.toThrow(
+          'offset must be a non-negative integer',
+        );
+        await expect(handler({ q: 'alpha', limit: 'abc' }, {} as never)).rejects.toThrow(
+          'limit must be a non-negative integer',
+        );
+      }
+      await expect(adapter.getTool('search_text')!.handler({ q: 'alpha AND' }, {} as never)).rejects.toThrow(
+        'expected a term after AND',
+      );
+      await app.close();
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { extractFileSymbols, type FileSymbols } from '../../src/chunker';
+import { IndexManager } from '../../src/indexer';
+
+function definitions(symbols: FileSymbols): string[] {
+  return symbols.definitions.map(
+    (definition) =>
+      `${definition.kind} ${definition.container ? `${definition.container}.` : ''}${definition.name}${definition.exported ? ' (exported)' : ''}`,
+  );
+}
+
+describe('extractFileSymbols', () => {
+  it('reads TypeScript declarations with kinds, containers and export status', async () => {
+    const text = [
+      'export abstract class Server<T> {',
+      '  private port = 0;',
+      '  static create(): Server<string> { return null!; }',
+      '  protected listen() {',
+      '    const inner = 1;',
+      '  }',
+      '  handle = () => this.listen();',
+      '}',
+      'interface Options { port(): number }',
+      'export type Handler = () => void;',
+      'export const start = () => Server.create(), PORT = 80;',
+      'enum Mode { A }',
+      'namespace Routes { export function add() {} }',
+    ].join('\n');
+
+    const symbols = await extractFileSymbols({ text, path: 'src/server.ts', language: 'TypeScript' });
+
+    expect(definitions(symbols)).toEqual([
+      'class Server (exported)',
+      'method Server.create (exported)',
+      'method Server.listen',
+      'method Server.handle (exported)',
+      'interface Options',
+      'method Options.port',
+      'type Handler (exported)',
+      'function start (exported)',
+      'const PORT (exported)',
+      'enum Mode',
+      'module Routes',
+      'function Routes.add (exported)',
+    ]);
+    expect(symbols.definitions[0]).toMatchObject({ line: 1, endLine: 8 });
+    expect(symbols.references.filter((reference) => reference.name === 'Server')).toEqual([
+      { name: 'Server', line: 3, column: 20 },
+      { name: 'Server', line: 11, column: 28 },
+    ]);
+  });
+
+  it('reads Python, Go, Rust and Java declarations', async () => {
+    const python = await extractFileSymbols({
+      path: 'app.py',
+      language: 'Python',
+      text: 'class Store:\n    @staticmethod\n    def load(key):\n        pass\n\nMAX_SIZE = 3\n_cache = {}\ndef _helper():\n    local = 1\n',
+    });
+    expect(definitions(python)).toEqual([
+      'class Store (exported)',
+      'method Store.load (exported)',
+      'const MAX_SIZE (exported)',
+      'variable _cache',
+      'function _helper',
+    ]);
+    expect(python.definitions[1]).toMatchObject({ line: 3, endLine: 4 });
+
+    const go = await extractFileSymbols({
+      path: 'store.go',
+      language: 'Go',
+      text: 'package store\ntype Store struct{}\ntype reader interface{ Read() }\nfunc (s *Store) Get() {}\nfunc New() *Store { return nil }\nconst Limit = 1\n',
+    });
+    expect(definitions(go)).toEqual([
+      'struct Store (exported)',
+      'interface reader',
+      'method Store.Get (exported)',
+      'function New (exported)',
+      'const Limit (exported)',
+    ]);
+
+    const rust = await extractFileSymbols({
+      path: 'lib.rs',
+      language: 'Rust',
+      text: 'pub struct Store;\nimpl<T> Read for Store<T> {\n    pub fn get(&self) {}\n}\npub trait Read {\n    fn get(&self);\n}\nmod util {\n    pub fn helper() {}\n}\n',
+    });
+    expect(definitions(rust)).toEqual([
+      'struct Store (exported)',
+      'method Store.get (exported)',
+      'trait Read (exported)',
+      'method Read.get (exported)',
+      'module util',
+      'function util.helper (exported)',
+    ]);
+
+    const java = await extractFileSymbols({
+      path: 'Store.java',
+      language: 'Java',
+      text: 'public class Store {\n  public static final int LIMIT = 1;\n  private int size;\n  public Store() {}\n  void clear() {}\n  enum Mode { A; void next() {} }\n}\n',
+    });
+    expect(definitions(java)).toEqual([
+      'class Store (exported)',
+      'const Store.LIMIT (exported)',
+      'method Store.Store (exported)',
+      'method Store.clear',
+      'enum Store.Mode',
+      'method Store.Mode.next',
+    ]);
+  });
+
+  it('attributes calls to the innermost function or method', async () => {
+    const typescript = await extractFileSymbols({
+      path: 'src/server.ts',
+      language: 'TypeScript',
+      text: 'class Server {\n  start() {\n    this.listen(new Router());\n  }\n}\nexport const run = () => boot();\nboot();\n',
+    });
+    expect(typescript.calls).toEqual([
+      { caller: 'start', callerContainer: 'Server', callee: 'listen', line: 3, column: 5 },
+      { caller: 'start', callerContainer: 'Server', callee: 'Router', line: 3, column: 17 },
+      { caller: 'run', callee: 'boot', line: 6, column: 26 },
+    ]);
+
+    const python = await extractFileSymbols({
+      path: 'app.py',
+      language: 'Python',
+      text: 'def main():\n    Store().load()\n',
+    });
+    expect(python.calls.map((call) => `${call.caller} -> ${call.callee}`)).toEqual(['main -> load', 'main -> Store']);
+
+    const go = await extractFileSymbols({
+      path: 'main.go',
+      language: 'Go',
+      text: 'package main\nfunc (s *Server) Start() { s.listen(); fmt.Println() }\n',
+    });
+    expect(go.calls.map((call) => `${call.callerContainer}.${call.caller} -> ${call.callee}`)).toEqual([
+      'Server.Start -> listen',
+      'Server.Start -> Println',
+    ]);
+  });
+
+  it('falls back to line patterns for other languages', async () => {
+    const symbols = await extractFileSymbols({ path: 'script.rb', text: 'def greet\n  puts "hi"\nend\nclass Greeter\nend\n' });
+
+    expect(definitions(symbols)).toEqual(['function greet', 'class Greeter']);
+    expect(symbols.references.map((reference) => reference.name)).toContain('puts');
+  });
+});
+
+describe('IndexManager symbols', () => {
+  it('searches definitions and finds references across files', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-symbols-'));
+    try {
+      await mkdir(join(repoDir, 'src'));
+      await writeFile(join(repoDir, 'src/parser.ts'), 'export function parseHeader(line: string) {\n  return line.trim();\n}\n');
+      await writeFile(
+        join(repoDir, 'src/server.ts'),
+        "import { parseHeader } from './parser';\n\nexport class Server {\n  handle(line: string) {\n    return parseHeader(line);\n  }\n}\n",
+      );
+      const manager = new IndexManager();
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+
+      expect(manager.searchSymbols(spec, 'HANDLE')).toEqual([
+        {
+          symbol: 'handle',
+          path: 'src/server.ts',
+          line: 4,
+          endLine: 6,
+          kind: 'method',
+          container: 'Server',
+          exported: true,
+          context: 'handle(line: string) {',
+        },
+      ]);
+
+      const references = manager.findReferences(spec, 'parseHeader');
+      expect(references.definitions).toEqual([
+        { path: 'src/parser.ts', line: 1, endLine: 3, kind: 'function', exported: true },
+      ]);
+      expect(references.references).toEqual([
+        { path: 'src/server.ts', line: 1, column: 10, context: "import { parseHeader } from './parser';" },
+        { path: 'src/server.ts', line: 5, column: 12, context: 'return parseHeader(line);' },
+      ]);
+      expect(references.total).toBe(2);
+      expect(manager.findReferences(spec, 'parseHeader', { offset: 1, limit: 1 }).references).toHaveLength(1);
+
+      const unknown = manager.findReferences(spec, 'toString');
+      expect(unknown).toMatchObject({ definitions: [], references: [], total: 0 });
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+
+  it('follows the call graph to callees and callers up to a depth', async () => {
+    const repoDir = await mkdtemp(join(tmpdir(), 'repo-tokenizer-calls-'));
+    try {
+      await writeFile(
+        join(repoDir, 'app.ts'),
+        [
+          'export function main() {',
+          '  serve();',
+          '  console.log("ready");',
+          '}',
+          'function serve() {',
+          '  listen();',
+          '}',
+          'function listen() {}',
+          'function health() {',
+          '  listen();',
+          '}',
+        ].join('\n'),
+      );
+      const manager = new IndexManager();
+      const spec = { type: 'filesystem' as const, path: repoDir };
+      await manager.indexRepository(spec, { scanSecrets: false });
+
+      const callees = manager.getCallGraph(spec, 'main', { depth: 1 });
+      expect(callees.nodes.map((node) => [node.symbol, node.depth])).toEqual([
+        ['main', 0],
+        ['serve', 1],
+      ]);
+      expect(callees.edges).toEqual([{ caller: 'main', callee: 'serve', path: 'app.ts', line: 2, column: 3 }]);
+
+      const deeper = manager.getCallGraph(spec, 'main');
+      expect(deeper.nodes.map((node) => node.symbol)).toEqual(['main', 'serve', 'listen']);
+      expect(deeper.nodes[2].definitions).toEqual([{ path: 'app.ts', line: 8, endLine: 8, kind: 'function', exported: false }]);
+
+      const callers = manager.getCallGraph(spec, 'listen', { direction: 'callers', depth: 5 });
+      expect(callers.nodes.map((node) => [node.symbol, node.depth])).toEqual([
+        ['listen', 0],
+        ['serve', 1],
+        ['health', 1],
+        ['main', 2],
+      ]);
+      expect(callers.edges).toHaveLength(3);
+
+      expect(() => manager.getCallGraph(spec, 'main', { depth: 6 })).toThrow('from 1 to 5');
+      expect(() => manager.getCallGraph(spec, 'main', { direction: 'up' as never })).toThrow('Unsupported call graph direction');
+    } finally {
+      await rm(repoDir, { recursive: true, force: true });
+    }
+  });
+});